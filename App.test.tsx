@@ -0,0 +1,139 @@
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { act, cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import axe from 'axe-core';
+import App from './App';
+import { AppStage, DecisionState, Question } from './types';
+import { saveSession } from './storage';
+import { DEFAULT_SETTINGS } from './settings';
+import { en } from './i18n/en';
+import { CLARIFYING_QUESTION_COUNT, LOW_CONFIDENCE } from './confidence';
+import { MOCK_ANALYSIS, mockQuestions } from './providers/mockFixtures';
+
+const QUESTIONS: Question[] = [
+  { id: 1, kind: 'single', text: 'When do you need to decide?', options: ['This week', 'This month', 'Later'] },
+  { id: 2, kind: 'multi', text: 'What do you hope to gain?', options: ['Growth', 'Free time', 'Money'] },
+  { id: 3, kind: 'scale', text: 'How much do you enjoy change?', min: 1, max: 5 }
+];
+
+/** Starts the app on a saved session, as a reload would. */
+const renderSession = (session: Partial<DecisionState>) => {
+  saveSession({
+    id: 'test',
+    topic: 'Should I move?',
+    questions: QUESTIONS,
+    answers: {},
+    currentStep: 0,
+    stage: AppStage.ANSWERING,
+    locale: 'en',
+    settings: DEFAULT_SETTINGS,
+    result: null,
+    createdAt: 0,
+    updatedAt: 0,
+    ...session
+  });
+  return render(<App />);
+};
+
+const renderAnswering = (answers: DecisionState['answers'] = {}, currentStep = 0) =>
+  renderSession({ answers, currentStep });
+
+/** A finished session whose analysis is the mock one, which is not confident. */
+const renderLowConfidenceResult = (session: Partial<DecisionState> = {}) => {
+  const questions = mockQuestions('en', 20);
+  return renderSession({ questions, currentStep: questions.length - 1, stage: AppStage.RESULT, result: MOCK_ANALYSIS.en, ...session });
+};
+
+const press = (key: string, target: Element = document.body) => act(() => {
+  fireEvent.keyDown(target, { key });
+});
+
+const heading = () => document.getElementById('current-question')!;
+const liveRegion = () => document.querySelector('[role="status"][aria-live="polite"].sr-only')!;
+
+beforeEach(() => localStorage.clear());
+afterEach(cleanup);
+
+describe('answering stage', () => {
+  it('has no axe violations', async () => {
+    const { container } = renderAnswering();
+    const results = await axe.run(container, { rules: { 'color-contrast': { enabled: false } } });
+    expect(results.violations.map(v => `${v.id}: ${v.nodes.map(n => n.html).join(' ')}`)).toEqual([]);
+  });
+
+  it('picks options with letters and digits and moves on with Enter', () => {
+    renderAnswering();
+    press('b');
+    expect(screen.getByRole('radio', { name: 'This month' }).getAttribute('aria-checked')).toBe('true');
+    press('3');
+    expect(screen.getByRole('radio', { name: 'Later' }).getAttribute('aria-checked')).toBe('true');
+
+    press('Enter');
+    expect(heading().textContent).toBe('What do you hope to gain?');
+    expect(document.activeElement).toBe(heading());
+    expect(liveRegion().textContent).toBe('Question 2 / 3');
+
+    press('a');
+    press('C');
+    expect(screen.getAllByRole('checkbox').map(b => b.getAttribute('aria-checked'))).toEqual(['true', 'false', 'true']);
+  });
+
+  it('does not advance past an unanswered question', () => {
+    renderAnswering();
+    press('Enter');
+    expect(heading().textContent).toBe('When do you need to decide?');
+  });
+
+  it('confirms rather than toggles when Enter is pressed on a focused option', () => {
+    renderAnswering({ 1: 'Later' }, 1);
+    const growth = screen.getByRole('checkbox', { name: 'Growth' });
+    fireEvent.click(growth);
+    press('Enter', growth);
+    expect(heading().textContent).toBe('How much do you enjoy change?');
+  });
+
+  it('goes back with Backspace and jumps to the first unanswered question with U', () => {
+    renderAnswering({ 1: 'Later', 3: 4 }, 2);
+    press('Backspace');
+    expect(heading().textContent).toBe('What do you hope to gain?');
+    press('Backspace');
+    expect(heading().textContent).toBe('When do you need to decide?');
+    press('u');
+    expect(heading().textContent).toBe('What do you hope to gain?');
+    expect(document.activeElement).toBe(heading());
+  });
+
+  it('leaves keys typed into a text field alone', () => {
+    renderAnswering();
+    fireEvent.click(screen.getByRole('radio', { name: 'This week' }));
+    const field = document.createElement('textarea');
+    document.body.appendChild(field);
+    press('b', field);
+    press('Backspace', field);
+    expect(screen.getByRole('radio', { name: 'This week' }).getAttribute('aria-checked')).toBe('true');
+    field.remove();
+  });
+
+  it('announces the result and moves focus to it when the analysis finishes', async () => {
+    renderAnswering({ 1: 'Later', 2: ['Growth'] }, 2);
+    press('5');
+    press('Enter');
+    await waitFor(() => expect(liveRegion().textContent).toBe('The analysis is done. Your recommendation is ready.'));
+    expect(document.activeElement?.tagName).toBe('MAIN');
+  });
+});
+
+describe('result stage', () => {
+  it('offers clarifying questions on a low-confidence result decided alone', () => {
+    expect(MOCK_ANALYSIS.en.confidence!.score).toBeLessThan(LOW_CONFIDENCE);
+    renderLowConfidenceResult();
+    expect(screen.getByRole('button', { name: en.clarify.start(CLARIFYING_QUESTION_COUNT) })).toBeTruthy();
+    expect(screen.queryByText(en.clarify.groupUnavailable)).toBeNull();
+  });
+
+  it('explains to a group why clarifying questions are not offered', () => {
+    renderLowConfidenceResult({ participants: [{ id: 'p1', name: 'Ana', answers: {} }, { id: 'p2', name: 'Ben', answers: {} }] });
+    expect(screen.getByText(en.clarify.groupUnavailable)).toBeTruthy();
+    expect(screen.queryByRole('button', { name: en.clarify.start(CLARIFYING_QUESTION_COUNT) })).toBeNull();
+  });
+});
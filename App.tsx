@@ -1,7 +1,44 @@
 
-import React, { useState } from 'react';
-import { AppStage, Question } from './types';
-import { generateQuestions, analyzeDecision, AnalysisResult } from './geminiService';
+import React, { useEffect, useRef, useState } from 'react';
+import { AppStage, Question, Answer, AnalysisResult, Attachment, DecisionState, FollowUpMessage, GenerationSettings, JournalEntry, Locale, Participant, QuestionTemplate } from './types';
+import { generateQuestions, generateNextQuestions, analyzeDecision, analyzeGroupDecision, DecisionContext } from './geminiService';
+import { getProvider } from './providers';
+import { AuthError } from './errors';
+import { archiveDecision, clearSession, createId, loadSession, saveSession } from './storage';
+import DecisionHistory from './components/DecisionHistory';
+import JournalDashboard from './components/JournalDashboard';
+import JournalPanel from './components/JournalPanel';
+import { emptyJournal, toggleStep } from './journal';
+import QuestionInput from './components/QuestionInput';
+import AlternativesInput from './components/AlternativesInput';
+import AttachmentsInput from './components/AttachmentsInput';
+import AnalysisView from './components/AnalysisView';
+import ConfidencePanel from './components/ConfidencePanel';
+import ClarifyingQuestions from './components/ClarifyingQuestions';
+import { LOW_CONFIDENCE } from './confidence';
+import { comparableAlternatives } from './matrix';
+import ExportMenu from './components/ExportMenu';
+import SessionImport from './components/SessionImport';
+import FollowUpChat from './components/FollowUpChat';
+import AnswerSensitivity from './components/AnswerSensitivity';
+import AnalysisDiffView from './components/AnalysisDiffView';
+import ParticipantsInput from './components/ParticipantsInput';
+import GroupParticipantsBar from './components/GroupParticipantsBar';
+import GroupSummary from './components/GroupSummary';
+import { createParticipant, hasFinished, mergeParticipants, MIN_PARTICIPANTS, resumeIndex, withNames } from './group';
+import TemplateLibrary from './components/TemplateLibrary';
+import TemplateEditor from './components/TemplateEditor';
+import DiagnosticsPanel from './components/DiagnosticsPanel';
+import SettingsPanel from './components/SettingsPanel';
+import { DEFAULT_SETTINGS, loadPreferredSettings, normalizeSettings, savePreferredSettings } from './settings';
+import { setTelemetrySession } from './telemetry';
+import { createTemplate } from './templates';
+import QuestionReview from './components/QuestionReview';
+import { validateQuestionSet } from './validation';
+import { AnalysisCache, answerSetKey, cacheAnalysis, diffAnalyses } from './sensitivity';
+import { fromShareHash, isShareHash, SessionImportError } from './sessionExport';
+import { answerForKey, firstUnanswered, isAnswered, optionLetter } from './answers';
+import { describeError, getMessages, I18nContext, loadPreferredLocale, LOCALE_LABELS, LOCALES, savePreferredLocale } from './i18n';
 
 declare global {
   interface AIStudio {
@@ -13,27 +50,163 @@ declare global {
   }
 }
 
+/** The last answer changed on the result screen, kept to show a diff and to undo it. */
+interface AnswerChange {
+  questionId: number;
+  previousAnswer: Answer | undefined;
+  previous: AnalysisResult;
+  fromCache: boolean;
+}
+
+type Mode = 'fixed' | 'adaptive' | 'group';
+
+/** Jumps to the first unanswered question; option letters never reach it. */
+const JUMP_KEY = 'u';
+const QUESTION_HEADING_ID = 'current-question';
+
+/** Typing in a field must not trigger the answering shortcuts. */
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement && target.closest('input, textarea, select, [contenteditable="true"]') !== null;
+
+/** A template open in the editor; `isNew` until it has been saved once. */
+interface TemplateDraft {
+  template: QuestionTemplate;
+  isNew: boolean;
+}
+
 const App: React.FC = () => {
-  const [stage, setStage] = useState<AppStage>(AppStage.START);
-  const [topic, setTopic] = useState('');
-  const [questions, setQuestions] = useState<Question[]>([]);
-  const [answers, setAnswers] = useState<Record<number, string>>({});
-  const [currentIndex, setCurrentIndex] = useState(0);
-  const [loadingMessage, setLoadingMessage] = useState('');
-  const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
+  const [restored] = useState(loadSession);
+  const [sessionId, setSessionId] = useState(() => restored?.id ?? createId());
+  const [createdAt, setCreatedAt] = useState(() => restored?.createdAt ?? Date.now());
+  const [stage, setStage] = useState<AppStage>(restored?.stage ?? AppStage.START);
+  const [topic, setTopic] = useState(restored?.topic ?? '');
+  const [alternatives, setAlternatives] = useState<string[]>(restored?.alternatives ?? []);
+  const [attachments, setAttachments] = useState<Attachment[]>(restored?.attachments ?? []);
+  const [questions, setQuestions] = useState<Question[]>(restored?.questions ?? []);
+  const [answers, setAnswers] = useState<Record<number, Answer>>(restored?.answers ?? {});
+  const [currentIndex, setCurrentIndex] = useState(restored?.currentStep ?? 0);
+  const [adaptive, setAdaptive] = useState(restored?.adaptive ?? false);
+  // Null outside group mode; in group mode everyone's answers live here instead of `answers`.
+  const [participants, setParticipants] = useState<Participant[] | null>(restored?.participants ?? null);
+  const [activeParticipantId, setActiveParticipantId] = useState<string | null>(restored?.activeParticipantId ?? null);
+  const [locale, setLocale] = useState<Locale>(() => restored ? restored.locale ?? 'ko' : loadPreferredLocale());
+  const [settings, setSettings] = useState<GenerationSettings>(() =>
+    restored ? (restored.settings ? normalizeSettings(restored.settings) : DEFAULT_SETTINGS) : loadPreferredSettings());
+  const [fetchingMore, setFetchingMore] = useState(false);
+  const [analysis, setAnalysis] = useState<AnalysisResult | null>(restored?.result ?? null);
+  const [partialAnalysis, setPartialAnalysis] = useState<Partial<AnalysisResult> | null>(null);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
+  const [followUps, setFollowUps] = useState<FollowUpMessage[]>(restored?.followUps ?? []);
+  const [analysisCache, setAnalysisCache] = useState<AnalysisCache>(restored?.analysisCache ?? {});
+  const [journal, setJournal] = useState<JournalEntry | undefined>(restored?.journal);
+  const [answerChange, setAnswerChange] = useState<AnswerChange | null>(null);
+  const [reanalyzing, setReanalyzing] = useState(false);
+  const [reanalysisError, setReanalysisError] = useState<string | null>(null);
+  const [templateDraft, setTemplateDraft] = useState<TemplateDraft | null>(null);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  // Bumped on every save so the library re-reads the stored templates.
+  const [templatesRevision, setTemplatesRevision] = useState(0);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  const mainRef = useRef<HTMLElement>(null);
+  const questionHeadingRef = useRef<HTMLHeadingElement>(null);
   const [error, setError] = useState<string | null>(null);
 
+  const snapshot = (overrides: Partial<DecisionState> = {}): DecisionState => ({
+    id: sessionId,
+    topic,
+    alternatives,
+    attachments,
+    questions,
+    answers,
+    currentStep: currentIndex,
+    stage,
+    adaptive,
+    participants: participants ?? undefined,
+    activeParticipantId: activeParticipantId ?? undefined,
+    locale,
+    settings,
+    result: analysis,
+    followUps,
+    analysisCache,
+    journal,
+    createdAt,
+    updatedAt: Date.now(),
+    ...overrides
+  });
+
+  // Autosave on every change so a refresh resumes where the user left off.
+  useEffect(() => {
+    if (stage === AppStage.START && !topic.trim()) {
+      clearSession();
+      return;
+    }
+    saveSession(snapshot());
+  }, [sessionId, stage, topic, alternatives, attachments, questions, answers, participants, activeParticipantId, currentIndex, adaptive, locale, settings, analysis, followUps, analysisCache, journal]);
+
+  useEffect(() => () => analysisAbortRef.current?.abort(), []);
+
+  useEffect(() => {
+    setTelemetrySession(sessionId);
+  }, [sessionId]);
+
+  const t = getMessages(locale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  // The picked language applies to this session and becomes the default for new ones.
+  const changeLocale = (next: Locale) => {
+    setLocale(next);
+    savePreferredLocale(next);
+  };
+
+  // Like the language, settings picked for this session become the default for new ones.
+  const changeSettings = (next: GenerationSettings) => {
+    setSettings(next);
+    savePreferredSettings(next);
+  };
+
+  const mode: Mode = participants ? 'group' : adaptive ? 'adaptive' : 'fixed';
+
+  // Group mode always works through one fixed question set, so it excludes adaptive questioning.
+  const selectMode = (next: Mode) => {
+    setAdaptive(next === 'adaptive');
+    setParticipants(next === 'group' ? participants ?? [] : null);
+  };
+
+  const activeParticipant = participants?.find(p => p.id === activeParticipantId) ?? participants?.[0];
+  const activeAnswers = activeParticipant ? activeParticipant.answers : answers;
+  // Whoever should answer after the active participant, when the device is passed on.
+  const nextParticipant = participants?.find(p => p.id !== activeParticipant?.id && !hasFinished(questions, p));
+
+  const decisionContext = (): DecisionContext => ({
+    topic,
+    alternatives: comparableAlternatives(alternatives),
+    attachments,
+    locale,
+    settings
+  });
+
+  // In AI Studio a rejected key is fixed by picking another one, after which the user retries.
+  const reselectKeyIfNeeded = async (err: unknown) => {
+    if (!(err instanceof AuthError) || !window.aistudio) return false;
+    await window.aistudio.openSelectKey();
+    return true;
+  };
+
+  const canStart = topic.trim() !== '' && (!participants || participants.length >= MIN_PARTICIPANTS);
+
   const startDecisionProcess = async () => {
-    if (!topic.trim()) return;
+    if (!canStart) return;
     setError(null);
 
-    const currentKey = process.env.API_KEY;
-    const isMissing = !currentKey || currentKey === 'undefined' || currentKey.trim() === '';
-
-    if (isMissing && window.aistudio) {
+    // Only Gemini needs a key; the provider is checked first so the mock runs where no key is injected.
+    if (getProvider().name === 'gemini' && window.aistudio) {
+      const currentKey = process.env.API_KEY;
+      const isMissing = !currentKey || currentKey === 'undefined' || currentKey.trim() === '';
       try {
-        const hasKey = await window.aistudio.hasSelectedApiKey();
-        if (!hasKey) {
+        if (isMissing && !(await window.aistudio.hasSelectedApiKey())) {
           await window.aistudio.openSelectKey();
         }
       } catch (e) {
@@ -42,40 +215,109 @@ const App: React.FC = () => {
     }
 
     setStage(AppStage.GENERATING_QUESTIONS);
-    setLoadingMessage('고민을 분석하여 20가지 맞춤 질문을 생성하고 있습니다...');
     
     try {
-      const generated = await generateQuestions(topic);
+      const generated = adaptive
+        ? (await generateNextQuestions(decisionContext(), [], {})).questions
+        : await generateQuestions(decisionContext());
       setQuestions(generated);
-      setStage(AppStage.ANSWERING);
+      setActiveParticipantId(participants?.[0]?.id ?? null);
+      // Adaptive questions arrive a few at a time, so only a full set is reviewed up front.
+      setStage(adaptive ? AppStage.ANSWERING : AppStage.REVIEWING_QUESTIONS);
       setCurrentIndex(0);
-    } catch (err: any) {
-      if (err.message && err.message.includes("Requested entity was not found.")) {
-        if (window.aistudio) {
-          await window.aistudio.openSelectKey();
-          setError("시스템 구성을 업데이트했습니다. 다시 한번 시작을 눌러주세요.");
-        } else {
-          setError("서비스 연결이 원활하지 않습니다. 잠시 후 다시 시도해주세요.");
-        }
-      } else {
-        setError(err.message || '요청을 처리하는 중 문제가 발생했습니다.');
-      }
+    } catch (err) {
+      setError(await reselectKeyIfNeeded(err)
+        ? t.start.keyReselected
+        : describeError(t, err, t.errors.generic));
       setStage(AppStage.START);
     }
   };
 
-  const handleAnswer = (option: string) => {
-    setAnswers(prev => ({ ...prev, [questions[currentIndex].id]: option }));
+  // Templates carry their own questions, so the session starts answering without a model call.
+  const startFromTemplate = (template: QuestionTemplate) => {
+    if (participants && participants.length < MIN_PARTICIPANTS) return;
+    setTopic(topic.trim() ? topic : template.name);
+    setAdaptive(false);
+    setLocale(template.locale);
+    setQuestions(template.questions);
+    setAnswers({});
+    setActiveParticipantId(participants?.[0]?.id ?? null);
+    setCurrentIndex(0);
+    setError(null);
+    setStage(AppStage.ANSWERING);
+  };
+
+  // The reviewed set is cleaned and renumbered once more, then answered as is, whatever its length.
+  const confirmQuestions = () => {
+    const checked = validateQuestionSet(questions);
+    if (!checked.ok) return;
+    setQuestions(checked.value);
+    setAnswers({});
+    setCurrentIndex(0);
+    setStage(AppStage.ANSWERING);
+  };
+
+  const saveQuestionsAsTemplate = () => {
+    setTemplateDraft({ template: createTemplate(topic.trim(), 'other', locale, questions), isNew: true });
+  };
+
+  const handleTemplateSaved = () => {
+    setTemplateDraft(null);
+    setTemplatesRevision(prev => prev + 1);
+  };
+
+  const handleAnswer = (answer: Answer) => {
+    const questionId = questions[currentIndex].id;
+    if (activeParticipant) {
+      setParticipants(prev => prev && prev.map(p =>
+        p.id === activeParticipant.id ? { ...p, answers: { ...p.answers, [questionId]: answer } } : p
+      ));
+    } else {
+      setAnswers(prev => ({ ...prev, [questionId]: answer }));
+    }
+  };
+
+  const selectParticipant = (participant: Participant) => {
+    setActiveParticipantId(participant.id);
+    setCurrentIndex(resumeIndex(questions, participant));
+  };
+
+  const mergeAnswers = (incoming: Participant[]) => {
+    setParticipants(prev => mergeParticipants(prev ?? [], incoming));
   };
 
   const handleNext = () => {
     if (currentIndex < questions.length - 1) {
       setCurrentIndex(prev => prev + 1);
+    } else if (nextParticipant) {
+      selectParticipant(nextParticipant);
+    } else if (adaptive) {
+      loadMoreQuestions();
     } else {
       finishAnswering();
     }
   };
 
+  const loadMoreQuestions = async () => {
+    setFetchingMore(true);
+    setError(null);
+    try {
+      const batch = await generateNextQuestions(decisionContext(), questions, answers);
+      if (batch.done) {
+        setFetchingMore(false);
+        finishAnswering();
+        return;
+      }
+      setQuestions(prev => [...prev, ...batch.questions]);
+      setCurrentIndex(prev => prev + 1);
+    } catch (err) {
+      await reselectKeyIfNeeded(err);
+      setError(describeError(t, err, t.answering.moreQuestionsFailed));
+    } finally {
+      setFetchingMore(false);
+    }
+  };
+
   const handlePrev = () => {
     if (currentIndex > 0) {
       setCurrentIndex(prev => prev - 1);
@@ -83,309 +325,667 @@ const App: React.FC = () => {
   };
 
   const finishAnswering = async () => {
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+    setPartialAnalysis(null);
+    setAnalysisError(null);
     setStage(AppStage.ANALYZING);
-    setLoadingMessage('당신의 모든 답변을 종합하여 최적의 솔루션을 설계 중입니다...');
+    const key = answerSetKey(decisionContext(), questions, participants ?? answers);
+    const options = { signal: controller.signal, onPartial: setPartialAnalysis };
     try {
-      const result = await analyzeDecision(topic, questions, answers);
+      const result = analysisCache[key] ?? await (participants
+        ? analyzeGroupDecision(decisionContext(), questions, participants, options)
+        : analyzeDecision(decisionContext(), questions, answers, options));
+      const cache = cacheAnalysis(analysisCache, key, result);
+      archiveDecision(snapshot({ stage: AppStage.RESULT, result, followUps: [], analysisCache: cache }));
       setAnalysis(result);
+      setAnalysisCache(cache);
+      setFollowUps([]);
+      setAnswerChange(null);
       setStage(AppStage.RESULT);
-    } catch (err: any) {
-      setError('결과를 분석하는 과정에서 문제가 발생했습니다. 다시 시도해주세요.');
-      setStage(AppStage.START);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      // Stay on this stage so the user can retry without losing any answers.
+      await reselectKeyIfNeeded(err);
+      setAnalysisError(describeError(t, err, t.analysis.failed));
+    } finally {
+      if (analysisAbortRef.current === controller) analysisAbortRef.current = null;
+      setPartialAnalysis(null);
+    }
+  };
+
+  // Re-runs the finished analysis with one answer changed, reusing an earlier run for the same answers.
+  const rerunWithAnswer = async (questionId: number, answer: Answer) => {
+    if (!analysis) return;
+    const nextAnswers = { ...answers, [questionId]: answer };
+    const key = answerSetKey(decisionContext(), questions, nextAnswers);
+    let result = analysisCache[key];
+    const fromCache = result !== undefined;
+    setReanalysisError(null);
+
+    if (!result) {
+      const controller = new AbortController();
+      analysisAbortRef.current = controller;
+      setReanalyzing(true);
+      try {
+        result = await analyzeDecision(decisionContext(), questions, nextAnswers, { signal: controller.signal });
+      } catch (err) {
+        if (!controller.signal.aborted) {
+          await reselectKeyIfNeeded(err);
+          setReanalysisError(describeError(t, err, t.sensitivity.failed));
+        }
+        return;
+      } finally {
+        if (analysisAbortRef.current === controller) analysisAbortRef.current = null;
+        setReanalyzing(false);
+      }
     }
+
+    const cache = cacheAnalysis(analysisCache, key, result);
+    archiveDecision(snapshot({ answers: nextAnswers, result, followUps: [], analysisCache: cache }));
+    setAnswerChange({ questionId, previousAnswer: answers[questionId], previous: analysis, fromCache });
+    setAnswers(nextAnswers);
+    setAnalysis(result);
+    setAnalysisCache(cache);
+    setFollowUps([]);
+  };
+
+  // Clarifying questions join the session for good, so later re-runs and exports include them.
+  const applyClarifications = (nextQuestions: Question[], nextAnswers: Record<number, Answer>, result: AnalysisResult) => {
+    const cache = cacheAnalysis(analysisCache, answerSetKey(decisionContext(), nextQuestions, nextAnswers), result);
+    const currentStep = nextQuestions.length - 1;
+    archiveDecision(snapshot({ questions: nextQuestions, answers: nextAnswers, currentStep, result, followUps: [], analysisCache: cache }));
+    setQuestions(nextQuestions);
+    setAnswers(nextAnswers);
+    setCurrentIndex(currentStep);
+    setAnalysis(result);
+    setAnalysisCache(cache);
+    setFollowUps([]);
+    setAnswerChange(null);
+  };
+
+  const undoAnswerChange = () => {
+    if (answerChange?.previousAnswer !== undefined) {
+      rerunWithAnswer(answerChange.questionId, answerChange.previousAnswer);
+    }
+  };
+
+  const cancelAnalysis = () => {
+    analysisAbortRef.current?.abort();
+    setAnalysisError(null);
+    setStage(AppStage.ANSWERING);
+  };
+
+  const openDecision = (decision: DecisionState) => {
+    analysisAbortRef.current?.abort();
+    setSessionId(decision.id);
+    setCreatedAt(decision.createdAt);
+    setTopic(decision.topic);
+    setAlternatives(decision.alternatives ?? []);
+    setAttachments(decision.attachments ?? []);
+    setQuestions(decision.questions);
+    setAnswers(decision.answers);
+    setAdaptive(decision.adaptive ?? false);
+    setParticipants(decision.participants ?? null);
+    setActiveParticipantId(decision.activeParticipantId ?? null);
+    setLocale(decision.locale ?? 'ko');
+    setSettings(decision.settings ? normalizeSettings(decision.settings) : DEFAULT_SETTINGS);
+    setCurrentIndex(decision.currentStep);
+    setAnalysis(decision.result);
+    setFollowUps(decision.followUps ?? []);
+    setAnalysisCache(decision.analysisCache ?? {});
+    setJournal(decision.journal);
+    setAnswerChange(null);
+    setReanalysisError(null);
+    setError(null);
+    setStage(decision.stage);
+  };
+
+  const importDecision = (decision: DecisionState) => {
+    if (decision.result) archiveDecision(decision);
+    openDecision(decision);
   };
 
+  // Shared links carry the whole session in the URL fragment; open it once and drop the hash.
+  useEffect(() => {
+    const hash = window.location.hash;
+    if (!isShareHash(hash)) return;
+    history.replaceState(null, '', window.location.pathname + window.location.search);
+    fromShareHash(hash)
+      .then(decision => decision && importDecision(decision))
+      .catch(err => setError(err instanceof SessionImportError ? t.importErrors[err.reason] : t.importSession.linkFailed));
+  }, []);
+
   const resetApp = () => {
+    analysisAbortRef.current?.abort();
+    clearSession();
+    setSessionId(createId());
+    setCreatedAt(Date.now());
     setStage(AppStage.START);
     setTopic('');
+    setAlternatives([]);
+    setAttachments([]);
     setQuestions([]);
     setAnswers({});
+    // A group usually decides together again, so the names stay and only their answers go.
+    setParticipants(prev => prev && prev.map(p => createParticipant(p.name)));
+    setActiveParticipantId(null);
     setCurrentIndex(0);
     setAnalysis(null);
+    setFollowUps([]);
+    setAnalysisCache({});
+    setJournal(undefined);
+    setAnswerChange(null);
+    setReanalysisError(null);
     setError(null);
   };
 
+  // The conversation belongs to the archived decision too, so reopening it later keeps the thread.
+  const updateFollowUps = (next: FollowUpMessage[]) => {
+    setFollowUps(next);
+    archiveDecision(snapshot({ followUps: next }));
+  };
+
+  // Journal entries are written to the archive at once, since they are often made long after the session.
+  const updateJournal = (next: JournalEntry) => {
+    setJournal(next);
+    archiveDecision(snapshot({ journal: next }));
+  };
+
+  // Adaptive sessions grow as they go, so progress is measured against the upper bound.
+  const progressTotal = adaptive ? settings.questionCount : questions.length;
+  const isFinalQuestion = currentIndex === questions.length - 1 && (!adaptive || questions.length >= settings.questionCount);
+  const handingOff = isFinalQuestion && nextParticipant !== undefined;
+  const loadingMessage = stage === AppStage.ANALYZING
+    ? t.loading.analysis
+    : adaptive ? t.loading.firstQuestions : t.loading.allQuestions(settings.questionCount);
+
+  const activeQuestion = stage === AppStage.ANSWERING ? questions[currentIndex] : undefined;
+  const canAdvance = !!activeQuestion && isAnswered(activeQuestion, activeAnswers[activeQuestion.id]) && !fetchingMore;
+  const unansweredIndex = firstUnanswered(questions, activeAnswers);
+  const progressText = `${activeParticipant ? `${t.group.turn(activeParticipant.name)} · ` : ''}${t.answering.progress(currentIndex + 1, progressTotal, adaptive)}`;
+
+  const jumpToUnanswered = () => {
+    if (unansweredIndex !== -1 && !fetchingMore) setCurrentIndex(unansweredIndex);
+  };
+
+  // Answering works without a mouse: option letters or digits choose, Enter moves on, Backspace goes back.
+  useEffect(() => {
+    if (!activeQuestion || showDiagnostics || templateDraft) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || e.defaultPrevented) return;
+      const target = e.target instanceof HTMLElement ? e.target : null;
+      if (e.key === 'Enter') {
+        // Other buttons act on Enter themselves; on an option, Enter confirms the choice instead of toggling it again.
+        if (isEditable(target) || (target?.closest('button, a') && !target.closest('[role="radio"], [role="checkbox"]'))) return;
+        e.preventDefault();
+        if (canAdvance && !e.repeat) handleNext();
+        return;
+      }
+      if (isEditable(target)) return;
+      if (e.key === 'Backspace') {
+        e.preventDefault();
+        if (!fetchingMore) handlePrev();
+      } else if (e.key.toLowerCase() === JUMP_KEY) {
+        jumpToUnanswered();
+      } else {
+        const answer = answerForKey(activeQuestion, activeAnswers[activeQuestion.id], e.key);
+        if (answer !== undefined) handleAnswer(answer);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  // Move focus to the new content when the stage or question changes, so keyboard and screen reader users follow along.
+  const focusKey = `${stage}:${currentIndex}:${activeParticipantId}`;
+  const focusKeyRef = useRef(focusKey);
+  useEffect(() => {
+    if (focusKeyRef.current === focusKey) return;
+    focusKeyRef.current = focusKey;
+    (stage === AppStage.ANSWERING ? questionHeadingRef.current : mainRef.current)?.focus();
+  }, [focusKey]);
+
+  // Read out by the live region; the focused heading already reads the question itself.
+  const announcement =
+    stage === AppStage.GENERATING_QUESTIONS ? loadingMessage
+      : stage === AppStage.ANALYZING ? analysisError ?? (partialAnalysis?.finalRecommendation ? t.announce.streaming : loadingMessage)
+        : stage === AppStage.ANSWERING ? (fetchingMore ? t.announce.fetchingMore : progressText)
+          : stage === AppStage.REVIEWING_QUESTIONS ? t.review.heading
+            : stage === AppStage.RESULT ? t.announce.result : '';
+
+  const shortcutKeys = !activeQuestion ? null
+    : activeQuestion.kind === 'single' || activeQuestion.kind === 'multi'
+      ? `A–${optionLetter(activeQuestion.options.length - 1)}`
+      : activeQuestion.kind === 'scale' && activeQuestion.max <= 9 ? `${activeQuestion.min}–${activeQuestion.max}` : null;
+
+  const cancelAnalysisButton = (
+    <button
+      onClick={cancelAnalysis}
+      className="px-6 py-3 rounded-2xl font-bold text-slate-400 hover:bg-slate-50 hover:text-slate-600 transition-all flex items-center gap-2"
+    >
+      <i className="fas fa-chevron-left"></i> {t.analysis.cancel}
+    </button>
+  );
+
   return (
-    <div className="min-h-screen flex flex-col items-center justify-center p-4 md:p-8 bg-slate-50 text-slate-900">
-      <div className="w-full max-w-2xl bg-white rounded-[2.5rem] shadow-2xl overflow-hidden transition-all duration-500 border border-slate-100">
+    <I18nContext.Provider value={{ locale, t }}>
+      <div className="min-h-screen flex flex-col items-center justify-center p-4 md:p-8 bg-slate-50 text-slate-900">
+        <div className="w-full max-w-2xl bg-white rounded-[2.5rem] shadow-2xl overflow-hidden transition-all duration-500 border border-slate-100">
         
-        {/* Top Header */}
-        <header className="bg-indigo-600 p-8 text-white relative overflow-hidden">
-          <div className="absolute top-0 right-0 p-4 opacity-10 text-9xl -mr-12 -mt-12">
-            <i className="fas fa-brain"></i>
-          </div>
-          <div className="relative z-10">
-            <h1 className="text-2xl md:text-3xl font-bold flex items-center gap-3">
-              <i className="fas fa-compass-drafting animate-pulse"></i>
-              결정 어드바이저 20
-            </h1>
-            <p className="opacity-80 mt-2 text-sm md:text-base font-medium">당신의 답변을 데이터로 변환하여 최적의 선택을 제안합니다.</p>
-          </div>
-        </header>
-
-        {/* Error Alert */}
-        {error && (
-          <div className="mx-6 mt-6 p-4 bg-red-50 border border-red-100 rounded-2xl text-red-800 flex items-start gap-3 animate-shake">
-            <i className="fas fa-circle-exclamation mt-1"></i>
-            <div className="flex-1">
-              <p className="text-sm font-semibold">{error}</p>
+          {/* Top Header */}
+          <header className="bg-indigo-600 p-8 text-white relative overflow-hidden">
+            <div className="absolute top-0 right-0 p-4 opacity-10 text-9xl -mr-12 -mt-12">
+              <i className="fas fa-brain"></i>
             </div>
-            <button onClick={() => setError(null)} className="text-red-400 hover:text-red-600">
-              <i className="fas fa-times"></i>
-            </button>
-          </div>
-        )}
-
-        <main className="p-6 md:p-10">
-          
-          {/* STAGE: START */}
-          {stage === AppStage.START && (
-            <div className="space-y-8 animate-fadeIn">
-              <div className="space-y-4">
-                <div className="flex items-center gap-3">
-                  <div className="w-10 h-10 bg-indigo-100 text-indigo-600 rounded-xl flex items-center justify-center">
-                    <i className="fas fa-lightbulb"></i>
-                  </div>
-                  <h2 className="text-xl font-bold text-slate-800">어떤 고민이 있으신가요?</h2>
+            <div className="relative z-10">
+              <div className="flex items-start justify-between gap-4">
+                <h1 className="text-2xl md:text-3xl font-bold flex items-center gap-3">
+                  <i className="fas fa-compass-drafting animate-pulse"></i>
+                  {t.app.title}
+                </h1>
+                <div className="no-print flex items-center gap-1 p-1 bg-indigo-500/40 rounded-xl" role="group" aria-label={t.app.language}>
+                  {LOCALES.map(option => (
+                    <button
+                      key={option}
+                      onClick={() => changeLocale(option)}
+                      lang={option}
+                      aria-pressed={locale === option}
+                      className={`px-3 py-1 rounded-lg text-xs font-bold transition-all ${
+                        locale === option ? 'bg-white text-indigo-600' : 'text-indigo-100 hover:text-white'
+                      }`}
+                    >
+                      {LOCALE_LABELS[option]}
+                    </button>
+                  ))}
                 </div>
-                <textarea 
-                  className="w-full p-6 border-2 border-slate-100 bg-slate-50 rounded-3xl focus:border-indigo-500 focus:bg-white focus:ring-4 focus:ring-indigo-50/50 transition-all text-lg h-44 resize-none outline-none shadow-inner"
-                  placeholder="예: '나에게 가장 적합한 다음 여행지는?', '새로운 취미로 무엇을 시작할까?', '현재 직장에 남을지 이직할지 고민이야' 등"
-                  value={topic}
-                  onChange={(e) => setTopic(e.target.value)}
-                />
               </div>
-              <button 
-                onClick={startDecisionProcess}
-                disabled={!topic.trim()}
-                className="group w-full py-5 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-200 disabled:text-slate-400 text-white font-bold text-xl rounded-3xl shadow-xl transform transition active:scale-[0.98] flex items-center justify-center gap-3"
-              >
-                질문 리스트 생성 <i className="fas fa-wand-sparkles group-hover:rotate-12 transition-transform"></i>
+              <p className="opacity-80 mt-2 text-sm md:text-base font-medium">{t.app.tagline}</p>
+            </div>
+          </header>
+
+          <div className="sr-only" role="status" aria-live="polite">{announcement}</div>
+
+          {/* Error Alert */}
+          {error && (
+            <div role="alert" className="mx-6 mt-6 p-4 bg-red-50 border border-red-100 rounded-2xl text-red-800 flex items-start gap-3 animate-shake">
+              <i className="fas fa-circle-exclamation mt-1"></i>
+              <div className="flex-1">
+                <p className="text-sm font-semibold">{error}</p>
+              </div>
+              <button onClick={() => setError(null)} aria-label={t.app.dismissError} className="text-red-400 hover:text-red-600">
+                <i className="fas fa-times"></i>
               </button>
             </div>
           )}
 
-          {/* STAGE: LOADING */}
-          {(stage === AppStage.GENERATING_QUESTIONS || stage === AppStage.ANALYZING) && (
-            <div className="flex flex-col items-center justify-center py-20 space-y-8 animate-fadeIn">
-              <div className="relative">
-                <div className="w-28 h-28 border-[10px] border-indigo-50 border-t-indigo-600 rounded-full animate-spin"></div>
-                <div className="absolute inset-0 flex items-center justify-center text-indigo-600">
-                  <i className="fas fa-gears text-4xl animate-bounce"></i>
+          <main ref={mainRef} tabIndex={-1} className="p-6 md:p-10 outline-none">
+          
+            {/* STAGE: START */}
+            {stage === AppStage.START && (
+              <div className="space-y-8 animate-fadeIn">
+                <div className="space-y-4">
+                  <div className="flex items-center gap-3">
+                    <div className="w-10 h-10 bg-indigo-100 text-indigo-600 rounded-xl flex items-center justify-center">
+                      <i className="fas fa-lightbulb"></i>
+                    </div>
+                    <h2 className="text-xl font-bold text-slate-800">{t.start.heading}</h2>
+                  </div>
+                  <textarea 
+                    className="w-full p-6 border-2 border-slate-100 bg-slate-50 rounded-3xl focus:border-indigo-500 focus:bg-white focus:ring-4 focus:ring-indigo-50/50 transition-all text-lg h-44 resize-none outline-none shadow-inner"
+                    placeholder={t.start.topicPlaceholder}
+                    value={topic}
+                    onChange={(e) => setTopic(e.target.value)}
+                  />
                 </div>
+                <AlternativesInput alternatives={alternatives} onChange={setAlternatives} />
+                <AttachmentsInput attachments={attachments} onChange={setAttachments} />
+                <div className="grid grid-cols-3 gap-3 p-1.5 bg-slate-100 rounded-2xl">
+                  {([
+                    { value: 'fixed', label: t.start.fixedMode(settings.questionCount), icon: 'fa-list-ol' },
+                    { value: 'adaptive', label: t.start.adaptiveMode, icon: 'fa-route' },
+                    { value: 'group', label: t.start.groupMode, icon: 'fa-users' }
+                  ] as const).map(option => (
+                    <button
+                      key={option.icon}
+                      onClick={() => selectMode(option.value)}
+                      className={`py-3 rounded-xl font-bold text-sm transition-all flex items-center justify-center gap-2 ${
+                        mode === option.value ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'
+                      }`}
+                    >
+                      <i className={`fas ${option.icon}`}></i> {option.label}
+                    </button>
+                  ))}
+                </div>
+                {participants && (
+                  <ParticipantsInput
+                    names={participants.map(p => p.name)}
+                    onChange={names => setParticipants(withNames(participants, names))}
+                  />
+                )}
+                <SettingsPanel settings={settings} onChange={changeSettings} />
+                <button 
+                  onClick={startDecisionProcess}
+                  disabled={!canStart}
+                  className="group w-full py-5 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-200 disabled:text-slate-400 text-white font-bold text-xl rounded-3xl shadow-xl transform transition active:scale-[0.98] flex items-center justify-center gap-3"
+                >
+                  {t.start.submit} <i className="fas fa-wand-sparkles group-hover:rotate-12 transition-transform"></i>
+                </button>
+                <SessionImport onImport={importDecision} onError={setError} />
+                <TemplateLibrary
+                  key={`${locale}:${templatesRevision}`}
+                  disabled={participants !== null && participants.length < MIN_PARTICIPANTS}
+                  onUse={startFromTemplate}
+                  onEdit={template => setTemplateDraft({ template, isNew: false })}
+                />
+                <JournalDashboard onOpen={openDecision} />
+                <DecisionHistory onOpen={openDecision} />
               </div>
-              <div className="text-center space-y-3">
-                <p className="text-2xl font-black text-slate-800 tracking-tight">{loadingMessage}</p>
-                <p className="text-slate-400">Gemini AI가 고도의 추론 엔진을 가동 중입니다.</p>
-              </div>
-            </div>
-          )}
+            )}
 
-          {/* STAGE: ANSWERING */}
-          {stage === AppStage.ANSWERING && questions.length > 0 && (
-            <div className="space-y-8 animate-fadeIn">
-              <div className="flex justify-between items-end">
-                <div className="space-y-1">
-                  <span className="text-xs font-black text-indigo-500 uppercase tracking-widest">Question {currentIndex + 1} / 20</span>
-                  <h2 className="text-xl md:text-2xl font-bold text-slate-800 leading-tight">
-                    {questions[currentIndex].text}
-                  </h2>
+            {/* STAGE: LOADING */}
+            {(stage === AppStage.GENERATING_QUESTIONS || (stage === AppStage.ANALYZING && !analysisError && !partialAnalysis?.finalRecommendation)) && (
+              <div className="flex flex-col items-center justify-center py-20 space-y-8 animate-fadeIn">
+                <div className="relative">
+                  <div className="w-28 h-28 border-[10px] border-indigo-50 border-t-indigo-600 rounded-full animate-spin"></div>
+                  <div className="absolute inset-0 flex items-center justify-center text-indigo-600">
+                    <i className="fas fa-gears text-4xl animate-bounce"></i>
+                  </div>
                 </div>
+                <div className="text-center space-y-3">
+                  <p className="text-2xl font-black text-slate-800 tracking-tight">{loadingMessage}</p>
+                  <p className="text-slate-400">{t.loading.engine}</p>
+                </div>
+                {stage === AppStage.ANALYZING && cancelAnalysisButton}
               </div>
+            )}
 
-              <div className="h-2.5 w-full bg-slate-100 rounded-full overflow-hidden">
-                <div 
-                  className="h-full bg-gradient-to-r from-indigo-500 to-indigo-700 transition-all duration-1000 ease-out shadow-[0_0_10px_rgba(79,70,229,0.4)]"
-                  style={{ width: `${((currentIndex + 1) / questions.length) * 100}%` }}
-                ></div>
+            {/* STAGE: ANALYZING (streamed sections) */}
+            {stage === AppStage.ANALYZING && !analysisError && partialAnalysis?.finalRecommendation && (
+              <div className="space-y-10 animate-fadeIn">
+                <AnalysisView analysis={partialAnalysis} streaming attachments={attachments} />
+                <div className="flex justify-center">{cancelAnalysisButton}</div>
               </div>
+            )}
 
-              <div className="grid grid-cols-1 gap-4 mt-6">
-                {questions[currentIndex].options.map((option, idx) => (
+            {/* STAGE: ANALYZING (failed, answers kept) */}
+            {stage === AppStage.ANALYZING && analysisError && (
+              <div className="flex flex-col items-center justify-center py-16 space-y-8 text-center animate-fadeIn">
+                <div className="w-24 h-24 rounded-[2rem] bg-rose-50 text-rose-500 flex items-center justify-center text-4xl">
+                  <i className="fas fa-triangle-exclamation"></i>
+                </div>
+                <div className="space-y-3">
+                  <p className="text-2xl font-black text-slate-800 tracking-tight">{analysisError}</p>
+                  <p className="text-slate-400">{t.analysis.answersKept}</p>
+                </div>
+                <div className="flex flex-col md:flex-row gap-3">
                   <button
-                    key={idx}
-                    onClick={() => handleAnswer(option)}
-                    className={`p-6 text-left rounded-3xl border-2 transition-all duration-300 flex items-center gap-5 group hover:shadow-lg ${
-                      answers[questions[currentIndex].id] === option
-                        ? 'border-indigo-600 bg-indigo-50 ring-4 ring-indigo-50/50'
-                        : 'border-slate-100 hover:border-indigo-200 bg-white'
-                    }`}
+                    onClick={cancelAnalysis}
+                    className="px-6 py-4 rounded-2xl font-bold text-slate-500 bg-slate-50 hover:bg-slate-100 transition-all flex items-center justify-center gap-2"
                   >
-                    <span className={`flex-shrink-0 w-10 h-10 rounded-2xl flex items-center justify-center font-black text-lg transition-all ${
-                      answers[questions[currentIndex].id] === option
-                        ? 'bg-indigo-600 text-white shadow-md'
-                        : 'bg-slate-50 text-slate-400 group-hover:bg-indigo-100 group-hover:text-indigo-600'
-                    }`}>
-                      {String.fromCharCode(65 + idx)}
-                    </span>
-                    <span className={`font-bold text-lg md:text-xl ${
-                      answers[questions[currentIndex].id] === option ? 'text-indigo-900' : 'text-slate-600'
-                    }`}>{option}</span>
+                    <i className="fas fa-pen"></i> {t.analysis.editAnswers}
+                  </button>
+                  <button
+                    onClick={finishAnswering}
+                    className="px-10 py-4 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-2xl shadow-xl transition-all flex items-center justify-center gap-2 transform active:scale-95"
+                  >
+                    <i className="fas fa-rotate-right"></i> {t.analysis.retry}
                   </button>
-                ))}
+                </div>
               </div>
+            )}
 
-              <div className="flex items-center justify-between pt-8 border-t border-slate-100 mt-10">
-                <button
-                  onClick={handlePrev}
-                  disabled={currentIndex === 0}
-                  className="px-6 py-4 rounded-2xl font-bold text-slate-400 disabled:opacity-0 hover:bg-slate-50 transition-all flex items-center gap-2"
+            {/* STAGE: REVIEWING_QUESTIONS */}
+            {stage === AppStage.REVIEWING_QUESTIONS && (
+              <QuestionReview
+                context={decisionContext()}
+                questions={questions}
+                onChange={setQuestions}
+                onConfirm={confirmQuestions}
+                onSaveTemplate={saveQuestionsAsTemplate}
+              />
+            )}
+
+            {/* STAGE: ANSWERING */}
+            {stage === AppStage.ANSWERING && questions.length > 0 && (
+              <div className="space-y-8 animate-fadeIn">
+                {participants && activeParticipant && (
+                  <GroupParticipantsBar
+                    questions={questions}
+                    participants={participants}
+                    activeId={activeParticipant.id}
+                    onSelect={selectParticipant}
+                    onMerge={mergeAnswers}
+                    onError={setError}
+                  />
+                )}
+                <div className="flex justify-between items-end gap-4">
+                  <div className="space-y-1">
+                    <span className="text-xs font-black text-indigo-500 uppercase tracking-widest">
+                      {progressText}
+                    </span>
+                    <h2 id={QUESTION_HEADING_ID} ref={questionHeadingRef} tabIndex={-1} className="text-xl md:text-2xl font-bold text-slate-800 leading-tight outline-none">
+                      {questions[currentIndex].text}
+                    </h2>
+                  </div>
+                  {unansweredIndex !== -1 && unansweredIndex !== currentIndex && (
+                    <button
+                      onClick={jumpToUnanswered}
+                      disabled={fetchingMore}
+                      aria-keyshortcuts="U"
+                      className="flex-shrink-0 px-3 py-2 rounded-xl text-xs font-bold text-indigo-500 hover:bg-indigo-50 transition-all no-print"
+                    >
+                      <i className="fas fa-forward-step mr-1"></i> {t.answering.jumpToUnanswered(unansweredIndex + 1)}
+                    </button>
+                  )}
+                </div>
+
+                <div
+                  className="h-2.5 w-full bg-slate-100 rounded-full overflow-hidden"
+                  role="progressbar"
+                  aria-label={t.answering.progressLabel}
+                  aria-valuemin={0}
+                  aria-valuemax={progressTotal}
+                  aria-valuenow={currentIndex + 1}
+                  aria-valuetext={progressText}
                 >
-                  <i className="fas fa-chevron-left"></i> 이전
-                </button>
+                  <div 
+                    className="h-full bg-gradient-to-r from-indigo-500 to-indigo-700 transition-all duration-1000 ease-out shadow-[0_0_10px_rgba(79,70,229,0.4)]"
+                    style={{ width: `${((currentIndex + 1) / progressTotal) * 100}%` }}
+                  ></div>
+                </div>
+
+                <QuestionInput
+                  key={questions[currentIndex].id}
+                  question={questions[currentIndex]}
+                  answer={activeAnswers[questions[currentIndex].id]}
+                  onChange={handleAnswer}
+                  labelId={QUESTION_HEADING_ID}
+                />
+
+                <div className="flex items-center justify-between pt-8 border-t border-slate-100 mt-10">
+                  <button
+                    onClick={handlePrev}
+                    disabled={currentIndex === 0 || fetchingMore}
+                    aria-keyshortcuts="Backspace"
+                    className="px-6 py-4 rounded-2xl font-bold text-slate-400 disabled:opacity-0 hover:bg-slate-50 transition-all flex items-center gap-2"
+                  >
+                    <i className="fas fa-chevron-left"></i> {t.answering.prev}
+                  </button>
+                  <button
+                    onClick={handleNext}
+                    disabled={!canAdvance}
+                    aria-keyshortcuts="Enter"
+                    className="px-12 py-4 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-2xl shadow-xl disabled:bg-slate-200 disabled:text-slate-400 disabled:shadow-none transition-all flex items-center gap-2 transform active:scale-95"
+                  >
+                    {handingOff ? t.group.handOff(nextParticipant.name) : isFinalQuestion ? t.answering.finish : t.answering.next} 
+                    <i className={`fas ${fetchingMore ? 'fa-spinner animate-spin' : handingOff ? 'fa-people-arrows' : isFinalQuestion ? 'fa-chart-pie' : 'fa-chevron-right'}`}></i>
+                  </button>
+                </div>
+
+                <p className="text-xs text-slate-400 text-center no-print" aria-label={t.shortcuts.heading}>
+                  {shortcutKeys && <><kbd className="font-mono font-bold text-slate-500">{shortcutKeys}</kbd> {t.shortcuts.select} · </>}
+                  <kbd className="font-mono font-bold text-slate-500">Enter</kbd> {t.shortcuts.next} ·{' '}
+                  <kbd className="font-mono font-bold text-slate-500">Backspace</kbd> {t.shortcuts.prev} ·{' '}
+                  <kbd className="font-mono font-bold text-slate-500">U</kbd> {t.shortcuts.jump}
+                </p>
+
+                <ExportMenu session={snapshot()} />
+
                 <button
-                  onClick={handleNext}
-                  disabled={!answers[questions[currentIndex].id]}
-                  className="px-12 py-4 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-2xl shadow-xl disabled:bg-slate-200 disabled:text-slate-400 disabled:shadow-none transition-all flex items-center gap-2 transform active:scale-95"
+                  onClick={saveQuestionsAsTemplate}
+                  className="w-full py-3 rounded-2xl text-slate-400 font-bold text-sm hover:bg-slate-50 hover:text-indigo-600 transition-all flex items-center justify-center gap-2 no-print"
                 >
-                  {currentIndex === questions.length - 1 ? '데이터 분석 실행' : '다음 질문'} 
-                  <i className={`fas ${currentIndex === questions.length - 1 ? 'fa-chart-pie' : 'fa-chevron-right'}`}></i>
+                  <i className="fas fa-layer-group"></i> {t.templates.saveAs}
                 </button>
               </div>
-            </div>
-          )}
+            )}
 
-          {/* STAGE: RESULT (Beautified HTML) */}
-          {stage === AppStage.RESULT && analysis && (
-            <div className="space-y-10 animate-fadeIn">
+            {/* STAGE: RESULT (Beautified HTML) */}
+            {stage === AppStage.RESULT && analysis && (
+              <div className="space-y-10 animate-fadeIn">
               
-              {/* Final Choice Hero Card */}
-              <div className="bg-gradient-to-br from-indigo-600 to-indigo-800 text-white p-10 rounded-[2.5rem] shadow-2xl relative overflow-hidden text-center">
-                <div className="absolute top-0 left-0 w-full h-full opacity-10 pointer-events-none">
-                   <div className="absolute -top-10 -left-10 w-40 h-40 bg-white rounded-full blur-3xl"></div>
-                   <div className="absolute -bottom-10 -right-10 w-40 h-40 bg-white rounded-full blur-3xl"></div>
-                </div>
-                <div className="relative z-10 space-y-4">
-                  <span className="inline-block px-4 py-1.5 bg-indigo-400/30 rounded-full text-xs font-black uppercase tracking-[0.2em] border border-indigo-300/30">Final Recommendation</span>
-                  <h2 className="text-3xl md:text-4xl font-black leading-tight">
-                    {analysis.finalRecommendation}
-                  </h2>
-                  <p className="text-indigo-100 text-lg font-medium opacity-90 max-w-lg mx-auto leading-relaxed">
-                    {analysis.summary}
-                  </p>
-                </div>
-              </div>
+                <AnalysisView
+                  analysis={analysis}
+                  attachments={attachments}
+                  doneSteps={journal?.doneSteps}
+                  onToggleStep={step => updateJournal(toggleStep(journal ?? emptyJournal(), step))}
+                />
 
-              {/* Reasoning & Features Grid */}
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                {/* Reasoning Card */}
-                <div className="bg-white p-8 rounded-[2rem] border border-slate-100 shadow-sm space-y-5">
-                  <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
-                    <i className="fas fa-brain text-indigo-500"></i> 분석 결과 (Why?)
-                  </h3>
-                  <ul className="space-y-3">
-                    {analysis.reasoning.map((item, i) => (
-                      <li key={i} className="flex items-start gap-3 text-slate-600 leading-relaxed font-medium">
-                        <i className="fas fa-circle-check mt-1.5 text-indigo-400 text-[10px]"></i>
-                        <span>{item}</span>
-                      </li>
-                    ))}
-                  </ul>
-                </div>
+                {analysis.confidence && <ConfidencePanel confidence={analysis.confidence} questions={questions} />}
 
-                {/* Pros & Cons Card */}
-                <div className="space-y-4">
-                  <div className="bg-emerald-50 p-6 rounded-[2rem] border border-emerald-100 space-y-3">
-                    <h3 className="text-sm font-black text-emerald-700 uppercase tracking-tighter flex items-center gap-2">
-                      <i className="fas fa-plus-circle"></i> 강점 및 장점
-                    </h3>
-                    <ul className="space-y-2">
-                      {analysis.pros.map((item, i) => (
-                        <li key={i} className="text-emerald-800 text-sm font-semibold flex items-center gap-2">
-                           <span className="w-1 h-1 bg-emerald-400 rounded-full"></span> {item}
-                        </li>
-                      ))}
-                    </ul>
-                  </div>
-                  <div className="bg-rose-50 p-6 rounded-[2rem] border border-rose-100 space-y-3">
-                    <h3 className="text-sm font-black text-rose-700 uppercase tracking-tighter flex items-center gap-2">
-                      <i className="fas fa-minus-circle"></i> 고려해야 할 리스크
-                    </h3>
-                    <ul className="space-y-2">
-                      {analysis.cons.map((item, i) => (
-                        <li key={i} className="text-rose-800 text-sm font-semibold flex items-center gap-2">
-                           <span className="w-1 h-1 bg-rose-400 rounded-full"></span> {item}
-                        </li>
-                      ))}
-                    </ul>
-                  </div>
-                </div>
-              </div>
+                {analysis.confidence && analysis.confidence.score < LOW_CONFIDENCE && (
+                  <ClarifyingQuestions
+                    context={decisionContext()}
+                    decision={{ questions, answers, result: analysis }}
+                    onAnalyzed={applyClarifications}
+                    group={participants !== null}
+                  />
+                )}
 
-              {/* Action Plan Section */}
-              <div className="bg-slate-900 text-white p-8 rounded-[2rem] shadow-xl space-y-6">
-                <div className="flex items-center justify-between">
-                  <h3 className="text-xl font-bold flex items-center gap-3">
-                    <i className="fas fa-rocket text-indigo-400"></i> 실행 가이드 (Action Plan)
-                  </h3>
-                  <div className="h-px flex-1 bg-slate-800 mx-6 hidden md:block"></div>
-                </div>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  {analysis.nextSteps.map((step, i) => (
-                    <div key={i} className="flex items-center gap-4 bg-slate-800/50 p-4 rounded-2xl border border-slate-700 hover:border-indigo-500 transition-colors group">
-                      <span className="text-2xl font-black text-slate-700 group-hover:text-indigo-400 transition-colors">0{i+1}</span>
-                      <p className="font-semibold text-slate-300 leading-snug">{step}</p>
-                    </div>
-                  ))}
-                </div>
-              </div>
+                {participants && (
+                  <GroupSummary questions={questions} participants={participants} insights={analysis.group} />
+                )}
 
-              {/* Bottom Buttons */}
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 no-print">
-                <button 
-                  onClick={() => window.print()}
-                  className="py-5 bg-white border-2 border-slate-100 text-slate-600 font-bold rounded-3xl hover:bg-slate-50 transition-all flex items-center justify-center gap-3 shadow-sm"
-                >
-                  <i className="fas fa-file-pdf"></i> 리포트 PDF 저장
-                </button>
-                <button 
-                  onClick={resetApp}
-                  className="py-5 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-3xl shadow-xl transition-all flex items-center justify-center gap-3 transform active:scale-95"
+                {answerChange && (
+                  <AnalysisDiffView
+                    diff={diffAnalyses(answerChange.previous, analysis)}
+                    question={questions.find(q => q.id === answerChange.questionId)?.text ?? ''}
+                    fromCache={answerChange.fromCache}
+                    onUndo={answerChange.previousAnswer !== undefined && !reanalyzing ? undoAnswerChange : undefined}
+                    onDismiss={() => setAnswerChange(null)}
+                  />
+                )}
+
+                {!participants && (
+                  <AnswerSensitivity
+                    questions={questions}
+                    answers={answers}
+                    busy={reanalyzing}
+                    error={reanalysisError}
+                    onRerun={rerunWithAnswer}
+                  />
+                )}
+
+                <FollowUpChat
+                  context={decisionContext()}
+                  decision={{ questions, answers, participants: participants ?? undefined, result: analysis }}
+                  messages={followUps}
+                  onChange={updateFollowUps}
+                />
+
+                <JournalPanel key={sessionId} journal={journal ?? emptyJournal()} onChange={updateJournal} />
+
+                <ExportMenu session={snapshot()} />
+
+                <button
+                  onClick={saveQuestionsAsTemplate}
+                  className="w-full py-3 rounded-2xl text-slate-400 font-bold text-sm hover:bg-slate-50 hover:text-indigo-600 transition-all flex items-center justify-center gap-2 no-print"
                 >
-                  <i className="fas fa-rotate-left"></i> 새로운 결정 분석
+                  <i className="fas fa-layer-group"></i> {t.templates.saveAs}
                 </button>
+
+                {/* Bottom Buttons */}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 no-print">
+                  <button 
+                    onClick={() => window.print()}
+                    className="py-5 bg-white border-2 border-slate-100 text-slate-600 font-bold rounded-3xl hover:bg-slate-50 transition-all flex items-center justify-center gap-3 shadow-sm"
+                  >
+                    <i className="fas fa-file-pdf"></i> {t.result.print}
+                  </button>
+                  <button 
+                    onClick={resetApp}
+                    className="py-5 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-3xl shadow-xl transition-all flex items-center justify-center gap-3 transform active:scale-95"
+                  >
+                    <i className="fas fa-rotate-left"></i> {t.result.restart}
+                  </button>
+                </div>
               </div>
-            </div>
-          )}
+            )}
 
-        </main>
-      </div>
-      
-      {/* Enhanced Footer */}
-      <footer className="mt-12 text-slate-400 text-xs font-bold uppercase tracking-[0.2em] flex flex-col items-center gap-4 no-print">
-        <div className="flex items-center gap-6 opacity-60">
-          <span className="flex items-center gap-2"><i className="fas fa-fingerprint"></i> End-to-End Privacy</span>
-          <span className="flex items-center gap-2"><i className="fas fa-bolt-lightning"></i> Real-time Analysis</span>
+          </main>
         </div>
-        <p className="opacity-40">© 2024 AI DECISION SYSTEM. POWERED BY GEMINI 3 FLASH & PRO.</p>
-      </footer>
 
-      <style>{`
-        @keyframes fadeIn {
-          from { opacity: 0; transform: translateY(20px); }
-          to { opacity: 1; transform: translateY(0); }
-        }
-        @keyframes shake {
-          0%, 100% { transform: translateX(0); }
-          25% { transform: translateX(-5px); }
-          75% { transform: translateX(5px); }
-        }
-        .animate-fadeIn {
-          animation: fadeIn 0.8s cubic-bezier(0.16, 1, 0.3, 1) forwards;
-        }
-        .animate-shake {
-          animation: shake 0.4s ease-in-out;
-        }
-        .no-print { display: flex; }
-        @media print {
-          body { background: white; padding: 0; }
-          .min-h-screen { display: block; height: auto; padding: 0; }
-          .max-w-2xl { max-width: 100%; border: none; shadow: none; }
-          .no-print { display: none !important; }
-          .rounded-[2.5rem] { border-radius: 0; }
-        }
-      `}</style>
-    </div>
+        {templateDraft && (
+          <div className="fixed inset-0 z-50 bg-slate-900/40 overflow-y-auto p-4 md:p-8 no-print" role="dialog" aria-modal="true">
+            <div className="w-full max-w-2xl mx-auto bg-white rounded-[2.5rem] shadow-2xl p-6 md:p-10">
+              <TemplateEditor
+                template={templateDraft.template}
+                isNew={templateDraft.isNew}
+                onSaved={handleTemplateSaved}
+                onCancel={() => setTemplateDraft(null)}
+              />
+            </div>
+          </div>
+        )}
+      
+        {showDiagnostics && (
+          <div className="fixed inset-0 z-50 bg-slate-900/40 overflow-y-auto p-4 md:p-8 no-print" role="dialog" aria-modal="true">
+            <div className="w-full max-w-2xl mx-auto bg-white rounded-[2.5rem] shadow-2xl p-6 md:p-10">
+              <DiagnosticsPanel sessionId={sessionId} onClose={() => setShowDiagnostics(false)} />
+            </div>
+          </div>
+        )}
+
+        {/* Enhanced Footer */}
+        <footer className="mt-12 text-slate-400 text-xs font-bold uppercase tracking-[0.2em] flex flex-col items-center gap-4 no-print">
+          <div className="flex items-center gap-6 opacity-60">
+            <span className="flex items-center gap-2"><i className="fas fa-fingerprint"></i> End-to-End Privacy</span>
+            <span className="flex items-center gap-2"><i className="fas fa-bolt-lightning"></i> Real-time Analysis</span>
+          </div>
+          <p className="opacity-40">© 2024 AI DECISION SYSTEM. POWERED BY GEMINI 3 FLASH & PRO.</p>
+          <button onClick={() => setShowDiagnostics(true)} className="opacity-40 hover:opacity-80 flex items-center gap-2 transition-opacity">
+            <i className="fas fa-gauge-high"></i> {t.diagnostics.open}
+          </button>
+        </footer>
+
+        <style>{`
+          @keyframes fadeIn {
+            from { opacity: 0; transform: translateY(20px); }
+            to { opacity: 1; transform: translateY(0); }
+          }
+          @keyframes shake {
+            0%, 100% { transform: translateX(0); }
+            25% { transform: translateX(-5px); }
+            75% { transform: translateX(5px); }
+          }
+          .animate-fadeIn {
+            animation: fadeIn 0.8s cubic-bezier(0.16, 1, 0.3, 1) forwards;
+          }
+          .animate-shake {
+            animation: shake 0.4s ease-in-out;
+          }
+          .no-print { display: flex; }
+          @media print {
+            body { background: white; padding: 0; }
+            .min-h-screen { display: block; height: auto; padding: 0; }
+            .max-w-2xl { max-width: 100%; border: none; shadow: none; }
+            .no-print { display: none !important; }
+            .rounded-[2.5rem] { border-radius: 0; }
+          }
+        `}</style>
+      </div>
+    </I18nContext.Provider>
   );
 };
 
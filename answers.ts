@@ -0,0 +1,101 @@
+import { Answer, MultiSelectQuestion, Question } from "./types";
+
+/** Whether `answer` is a complete answer for `question`'s kind. */
+export const isAnswered = (question: Question, answer: Answer | undefined): boolean => {
+  switch (question.kind) {
+    case 'single':
+      return typeof answer === 'string' && question.options.includes(answer);
+    case 'text':
+      return typeof answer === 'string' && answer.trim() !== '';
+    case 'multi':
+      return Array.isArray(answer) && answer.length > 0;
+    case 'ranking':
+      return Array.isArray(answer) && answer.length === question.options.length;
+    case 'scale':
+      return typeof answer === 'number' && answer >= question.min && answer <= question.max;
+  }
+};
+
+/** Adds or removes a multi-select option, keeping the stored order that of the options. */
+export const toggleOption = (question: MultiSelectQuestion, answer: Answer | undefined, option: string): string[] => {
+  const selected = Array.isArray(answer) ? answer : [];
+  const next = selected.includes(option) ? selected.filter(o => o !== option) : [...selected, option];
+  return question.options.filter(o => next.includes(o));
+};
+
+/** Index of the first question without a complete answer, or -1 when all are answered. */
+export const firstUnanswered = (questions: Question[], answers: Record<number, Answer>) =>
+  questions.findIndex(q => !isAnswered(q, answers[q.id]));
+
+/** The letter shown on an option and accepted as its keyboard shortcut. */
+export const optionLetter = (index: number) => String.fromCharCode(65 + index);
+
+/**
+ * The answer a keyboard shortcut gives: a letter (A, B, ...) or digit (1, 2, ...) picks or toggles an option,
+ * and a digit picks a scale value. Undefined when the key means nothing for the question.
+ */
+export const answerForKey = (question: Question, answer: Answer | undefined, key: string): Answer | undefined => {
+  const digit = /^[0-9]$/.test(key) ? Number(key) : null;
+  if (question.kind === 'scale') {
+    return digit !== null && digit >= question.min && digit <= question.max ? digit : undefined;
+  }
+  if (question.kind !== 'single' && question.kind !== 'multi') return undefined;
+  const index = digit !== null ? digit - 1 : /^[a-z]$/i.test(key) ? key.toUpperCase().charCodeAt(0) - 65 : -1;
+  const option = question.options[index];
+  if (option === undefined) return undefined;
+  return question.kind === 'single' ? option : toggleOption(question, answer, option);
+};
+
+/** Renders an answer as plain text for prompts and reports. */
+export const formatAnswer = (question: Question, answer: Answer | undefined): string => {
+  if (!isAnswered(question, answer)) return '(no answer)';
+  switch (question.kind) {
+    case 'single':
+      return answer as string;
+    case 'text':
+      return `"${(answer as string).trim()}"`;
+    case 'multi':
+      return (answer as string[]).join(', ');
+    case 'ranking':
+      return (answer as string[]).map((item, i) => `${i + 1}. ${item}`).join(' > ');
+    case 'scale': {
+      const labels = [
+        question.minLabel && `${question.min} = ${question.minLabel}`,
+        question.maxLabel && `${question.max} = ${question.maxLabel}`
+      ].filter(Boolean).join(', ');
+      return `${answer} on a ${question.min}-${question.max} scale${labels ? ` (${labels})` : ''}`;
+    }
+  }
+};
+
+/** Compact, language-neutral rendering of an answer for the UI; empty when unanswered. */
+export const displayAnswer = (question: Question, answer: Answer | undefined): string => {
+  if (!isAnswered(question, answer)) return '';
+  switch (question.kind) {
+    case 'single':
+    case 'text':
+      return (answer as string).trim();
+    case 'multi':
+      return (answer as string[]).join(', ');
+    case 'ranking':
+      return (answer as string[]).join(' > ');
+    case 'scale':
+      return `${answer} / ${question.max}`;
+  }
+};
+
+/** Human-readable description of a question, including its kind and choices, for prompts. */
+export const describeQuestion = (question: Question): string => {
+  switch (question.kind) {
+    case 'single':
+      return `${question.text} [choose one: ${question.options.join(' / ')}]`;
+    case 'multi':
+      return `${question.text} [select all that apply: ${question.options.join(' / ')}]`;
+    case 'ranking':
+      return `${question.text} [rank by priority: ${question.options.join(' / ')}]`;
+    case 'scale':
+      return `${question.text} [rate ${question.min}-${question.max}]`;
+    case 'text':
+      return `${question.text} [free text]`;
+  }
+};
@@ -0,0 +1,100 @@
+import { Attachment, Locale } from "./types";
+import { createId } from "./storage";
+import { condenseAttachment } from "./geminiService";
+
+export const MAX_ATTACHMENTS = 5;
+/** PDFs travel inline with the request, which caps how large they can be. */
+export const MAX_FILE_BYTES = 10 * 1024 * 1024;
+/** Text longer than this is condensed before it is stored and quoted in prompts. */
+const CONDENSE_THRESHOLD = 12_000;
+/** Long text is condensed in pieces of this size, one model call each. */
+const CHUNK_CHARS = 12_000;
+
+export type AttachmentFailure = 'unsupported' | 'tooLarge' | 'empty';
+
+/** Raised when a file cannot be attached at all. The UI translates `reason`. */
+export class AttachmentError extends Error {
+  readonly reason: AttachmentFailure;
+
+  constructor(reason: AttachmentFailure, message: string) {
+    super(message);
+    this.name = 'AttachmentError';
+    this.reason = reason;
+  }
+}
+
+export const ACCEPTED_FILES = '.txt,.md,.markdown,.pdf,text/plain,text/markdown,application/pdf';
+
+const isPdf = (file: File) => file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+const isText = (file: File) => file.type.startsWith('text/') || /\.(txt|md|markdown)$/i.test(file.name);
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  // Converting in slices keeps String.fromCharCode under the engine's argument limit.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/** Splits text into pieces of at most `size` characters, breaking at paragraphs where possible. */
+export const splitIntoChunks = (text: string, size: number): string[] => {
+  const chunks: string[] = [];
+  let rest = text;
+  while (rest.length > size) {
+    const cut = rest.lastIndexOf('\n\n', size);
+    const at = cut > size / 2 ? cut : size;
+    chunks.push(rest.slice(0, at).trim());
+    rest = rest.slice(at).trim();
+  }
+  if (rest) chunks.push(rest);
+  return chunks;
+};
+
+const condenseText = async (name: string, text: string, locale: Locale, signal?: AbortSignal) => {
+  if (text.length <= CONDENSE_THRESHOLD) return { content: text, condensed: false };
+  const chunks = splitIntoChunks(text, CHUNK_CHARS);
+  const parts: string[] = [];
+  for (const [i, chunk] of chunks.entries()) {
+    const part = chunks.length > 1 ? { index: i + 1, total: chunks.length } : undefined;
+    parts.push(await condenseAttachment(name, { text: chunk, part }, locale, signal));
+  }
+  let content = parts.join('\n\n');
+  // Many condensed parts can still add up to too much, so they get one more pass together.
+  if (content.length > CONDENSE_THRESHOLD) {
+    content = await condenseAttachment(name, { text: content }, locale, signal);
+  }
+  return { content, condensed: true };
+};
+
+/**
+ * Reads a text, Markdown or PDF file into an attachment. PDFs are read by the model, and long
+ * text is condensed, so both may take a model call or several.
+ */
+export const readAttachment = async (file: File, locale: Locale, signal?: AbortSignal): Promise<Attachment> => {
+  if (file.size > MAX_FILE_BYTES) {
+    throw new AttachmentError('tooLarge', `${file.name} is larger than ${MAX_FILE_BYTES} bytes.`);
+  }
+  if (isPdf(file)) {
+    const data = toBase64(new Uint8Array(await file.arrayBuffer()));
+    const content = await condenseAttachment(file.name, { file: { name: file.name, mimeType: 'application/pdf', data } }, locale, signal);
+    return { id: createId(), name: file.name, source: 'file', content, originalSize: file.size, condensed: true };
+  }
+  if (!isText(file)) {
+    throw new AttachmentError('unsupported', `${file.name} is neither text, Markdown nor PDF.`);
+  }
+  const text = (await file.text()).trim();
+  if (!text) {
+    throw new AttachmentError('empty', `${file.name} is empty.`);
+  }
+  return { id: createId(), name: file.name, source: 'file', originalSize: text.length, ...await condenseText(file.name, text, locale, signal) };
+};
+
+/** Turns pasted notes into an attachment, condensing them when they are long. */
+export const createNote = async (name: string, text: string, locale: Locale, signal?: AbortSignal): Promise<Attachment> => {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    throw new AttachmentError('empty', "The note is empty.");
+  }
+  return { id: createId(), name, source: 'note', originalSize: trimmed.length, ...await condenseText(name, trimmed, locale, signal) };
+};
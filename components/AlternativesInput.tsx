@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { MAX_ALTERNATIVES, MIN_ALTERNATIVES } from '../matrix';
+import { useI18n } from '../i18n';
+
+interface AlternativesInputProps {
+  alternatives: string[];
+  onChange: (alternatives: string[]) => void;
+}
+
+const AlternativesInput: React.FC<AlternativesInputProps> = ({ alternatives, onChange }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState('');
+
+  const add = () => {
+    const value = draft.trim();
+    if (!value || alternatives.length >= MAX_ALTERNATIVES) return;
+    if (!alternatives.some(a => a.toLowerCase() === value.toLowerCase())) {
+      onChange([...alternatives, value]);
+    }
+    setDraft('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-bold text-slate-600 flex items-center gap-2">
+          <i className="fas fa-scale-balanced text-indigo-500"></i> {t.alternatives.heading} <span className="font-medium text-slate-400">{t.alternatives.optional}</span>
+        </h3>
+        <span className="text-xs font-bold text-slate-300">{alternatives.length} / {MAX_ALTERNATIVES}</span>
+      </div>
+      {alternatives.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {alternatives.map(alt => (
+            <span key={alt} className="pl-4 pr-2 py-1.5 bg-indigo-50 text-indigo-700 rounded-full text-sm font-bold flex items-center gap-2">
+              {alt}
+              <button
+                onClick={() => onChange(alternatives.filter(a => a !== alt))}
+                aria-label={t.alternatives.remove(alt)}
+                className="w-6 h-6 rounded-full hover:bg-indigo-100 text-indigo-400 hover:text-indigo-700"
+              >
+                <i className="fas fa-xmark text-xs"></i>
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <div className="flex gap-2">
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.nativeEvent.isComposing) {
+              e.preventDefault();
+              add();
+            }
+          }}
+          disabled={alternatives.length >= MAX_ALTERNATIVES}
+          placeholder={t.alternatives.placeholder}
+          className="flex-1 px-5 py-3 border-2 border-slate-100 bg-slate-50 rounded-2xl focus:border-indigo-500 focus:bg-white outline-none transition-all disabled:opacity-50"
+        />
+        <button
+          onClick={add}
+          disabled={!draft.trim() || alternatives.length >= MAX_ALTERNATIVES}
+          className="px-5 rounded-2xl bg-slate-100 text-slate-600 font-bold hover:bg-indigo-100 hover:text-indigo-700 disabled:opacity-40 transition-all"
+        >
+          {t.alternatives.add}
+        </button>
+      </div>
+      {alternatives.length === 1 && (
+        <p className="text-xs text-slate-400">{t.alternatives.hint(MIN_ALTERNATIVES)}</p>
+      )}
+    </div>
+  );
+};
+
+export default AlternativesInput;
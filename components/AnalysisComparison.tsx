@@ -0,0 +1,54 @@
+import React from 'react';
+import { AnalysisResult } from '../types';
+import { rankAlternatives } from '../matrix';
+import { useI18n } from '../i18n';
+
+interface AnalysisComparisonProps {
+  original: AnalysisResult;
+  revised: AnalysisResult;
+}
+
+const Column: React.FC<{ label: string; analysis: AnalysisResult; highlight?: boolean }> = ({ label, analysis, highlight }) => {
+  const { t } = useI18n();
+  const top = analysis.matrix ? rankAlternatives(analysis.matrix)[0] : null;
+  const sections = [
+    { title: t.result.reasoning, items: analysis.reasoning },
+    { title: t.result.pros, items: analysis.pros },
+    { title: t.result.cons, items: analysis.cons },
+    { title: t.result.nextSteps, items: analysis.nextSteps }
+  ];
+
+  return (
+    <div className={`p-5 rounded-3xl border-2 space-y-4 ${highlight ? 'border-indigo-200 bg-indigo-50/50' : 'border-slate-100 bg-white'}`}>
+      <span className="text-xs font-black uppercase tracking-widest text-indigo-500">{label}</span>
+      <p className="font-black text-slate-800 leading-snug">{analysis.finalRecommendation}</p>
+      <p className="text-sm text-slate-500 leading-relaxed">{analysis.summary}</p>
+      {top && (
+        <p className="text-xs font-bold text-slate-500">{t.followUp.topAlternative(top.name, top.total.toFixed(1))}</p>
+      )}
+      {sections.filter(section => section.items.length > 0).map(section => (
+        <div key={section.title} className="space-y-1">
+          <h4 className="text-xs font-black text-slate-400">{section.title}</h4>
+          <ul className="space-y-1">
+            {section.items.map((item, i) => (
+              <li key={i} className="text-sm text-slate-600 leading-snug">· {item}</li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+/** The original analysis and a revision of it, side by side. */
+const AnalysisComparison: React.FC<AnalysisComparisonProps> = ({ original, revised }) => {
+  const { t } = useI18n();
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <Column label={t.followUp.original} analysis={original} />
+      <Column label={t.followUp.revised} analysis={revised} highlight />
+    </div>
+  );
+};
+
+export default AnalysisComparison;
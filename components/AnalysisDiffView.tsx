@@ -0,0 +1,87 @@
+import React from 'react';
+import { AnalysisDiff, ListDiff } from '../sensitivity';
+import { useI18n } from '../i18n';
+
+interface AnalysisDiffViewProps {
+  diff: AnalysisDiff;
+  /** Text of the question whose answer was changed. */
+  question: string;
+  fromCache: boolean;
+  onUndo?: () => void;
+  onDismiss: () => void;
+}
+
+const ListChanges: React.FC<{ title: string; changes: ListDiff }> = ({ title, changes }) => (
+  <div className="space-y-1">
+    <h4 className="text-xs font-black text-slate-400">{title}</h4>
+    <ul className="space-y-1">
+      {changes.added.map((item, i) => (
+        <li key={`+${i}`} className="text-sm text-emerald-700 font-semibold flex gap-2">
+          <span className="font-black">+</span> {item}
+        </li>
+      ))}
+      {changes.removed.map((item, i) => (
+        <li key={`-${i}`} className="text-sm text-rose-600 line-through decoration-rose-300 flex gap-2">
+          <span className="font-black no-underline">−</span> {item}
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+/** What changed in the analysis after the user changed one answer. */
+const AnalysisDiffView: React.FC<AnalysisDiffViewProps> = ({ diff, question, fromCache, onUndo, onDismiss }) => {
+  const { t } = useI18n();
+  const lists = [
+    { title: t.sensitivity.reasoning, changes: diff.reasoning },
+    { title: t.sensitivity.pros, changes: diff.pros },
+    { title: t.sensitivity.cons, changes: diff.cons },
+    { title: t.sensitivity.nextSteps, changes: diff.nextSteps }
+  ].filter(list => list.changes.added.length > 0 || list.changes.removed.length > 0);
+
+  return (
+    <section className="p-8 rounded-[2rem] border-2 border-indigo-100 bg-indigo-50/40 space-y-5 no-print" aria-live="polite">
+      <div className="flex items-start justify-between gap-4">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <i className="fas fa-code-compare text-indigo-500"></i> {t.sensitivity.diffHeading(question)}
+        </h3>
+        <button onClick={onDismiss} className="text-slate-300 hover:text-slate-500" aria-label={t.sensitivity.dismiss}>
+          <i className="fas fa-times"></i>
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        <span className={`inline-block px-3 py-1 rounded-full text-xs font-black ${
+          diff.recommendationChanged ? 'bg-amber-100 text-amber-700' : 'bg-emerald-100 text-emerald-700'
+        }`}>
+          {diff.recommendationChanged ? t.sensitivity.recommendationChanged : t.sensitivity.recommendationSame}
+        </span>
+        {diff.before !== diff.after && (
+          <div className="space-y-1 text-sm">
+            <p className="text-slate-400 line-through">{diff.before}</p>
+            <p className="font-bold text-slate-800">{diff.after}</p>
+          </div>
+        )}
+      </div>
+
+      {lists.length > 0 ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {lists.map(list => <ListChanges key={list.title} title={list.title} changes={list.changes} />)}
+        </div>
+      ) : (
+        <p className="text-sm text-slate-500">{t.sensitivity.noListChanges}</p>
+      )}
+
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-xs text-slate-400">{fromCache && t.sensitivity.fromCache}</p>
+        {onUndo && (
+          <button onClick={onUndo} className="text-sm font-bold text-indigo-600 hover:text-indigo-800 flex items-center gap-2">
+            <i className="fas fa-rotate-left"></i> {t.sensitivity.undo}
+          </button>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default AnalysisDiffView;
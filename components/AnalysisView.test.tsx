@@ -0,0 +1,38 @@
+import React from 'react';
+import { afterEach, describe, expect, it } from 'vitest';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { AnalysisResult, DecisionMatrix } from '../types';
+import AnalysisView from './AnalysisView';
+
+afterEach(cleanup);
+
+const matrix = (weights: number[], criteria = ['Cost', 'Growth']): DecisionMatrix => ({
+  criteria: criteria.map((name, i) => ({ name, weight: weights[i], questionIds: [] })),
+  alternatives: [
+    { name: 'Stay', scores: [8, 3] },
+    { name: 'Move', scores: [4, 9] }
+  ]
+});
+
+const analysis = (m: DecisionMatrix): Partial<AnalysisResult> => ({ finalRecommendation: 'Move', matrix: m });
+
+const sliderValues = () => screen.getAllByRole('slider').map(s => (s as HTMLInputElement).value);
+
+describe('AnalysisView', () => {
+  it('keeps local re-weighting while the matrix is unchanged', () => {
+    const { rerender } = render(<AnalysisView analysis={analysis(matrix([3, 4]))} />);
+    fireEvent.change(screen.getAllByRole('slider')[0], { target: { value: '5' } });
+    rerender(<AnalysisView analysis={analysis(matrix([3, 4]))} />);
+    expect(sliderValues()).toEqual(['5', '4']);
+  });
+
+  it('starts over from the new weights when a re-analysis changes the criteria', () => {
+    const { rerender } = render(<AnalysisView analysis={analysis(matrix([3, 4]))} />);
+    fireEvent.change(screen.getAllByRole('slider')[0], { target: { value: '5' } });
+    rerender(<AnalysisView analysis={analysis(matrix([2, 5]))} />);
+    expect(sliderValues()).toEqual(['2', '5']);
+    fireEvent.change(screen.getAllByRole('slider')[0], { target: { value: '0' } });
+    rerender(<AnalysisView analysis={analysis(matrix([2, 5], ['Cost', 'Commute']))} />);
+    expect(sliderValues()).toEqual(['2', '5']);
+  });
+});
@@ -0,0 +1,151 @@
+import React from 'react';
+import { AnalysisResult, Attachment } from '../types';
+import { matrixKey } from '../matrix';
+import ScoringMatrix from './ScoringMatrix';
+import { useI18n } from '../i18n';
+
+interface AnalysisViewProps {
+  analysis: Partial<AnalysisResult>;
+  /** True while sections are still arriving; missing ones render as placeholders. */
+  streaming?: boolean;
+  /** Context the analysis may cite; cited ones are named under the reasoning they support. */
+  attachments?: Attachment[];
+  /** Next steps already done; together with `onToggleStep` the action plan becomes a checklist. */
+  doneSteps?: string[];
+  onToggleStep?: (step: string) => void;
+}
+
+const Placeholder: React.FC<{ dark?: boolean }> = ({ dark }) => (
+  <span className="block space-y-2 animate-pulse" aria-hidden="true">
+    <span className={`block h-4 rounded-full w-3/4 mx-auto ${dark ? 'bg-white/20' : 'bg-slate-100'}`}></span>
+    <span className={`block h-4 rounded-full w-1/2 mx-auto ${dark ? 'bg-white/20' : 'bg-slate-100'}`}></span>
+  </span>
+);
+
+const AnalysisView: React.FC<AnalysisViewProps> = ({ analysis, streaming = false, attachments = [], doneSteps = [], onToggleStep }) => {
+  const { t } = useI18n();
+  const sourcesOf = (i: number) => (analysis.reasoningSources?.[i] ?? [])
+    .flatMap(id => attachments.filter(a => a.id === id));
+  return (
+    <div className="space-y-10" aria-busy={streaming}>
+      {/* Final Choice Hero Card */}
+      <div className="bg-gradient-to-br from-indigo-600 to-indigo-800 text-white p-10 rounded-[2.5rem] shadow-2xl relative overflow-hidden text-center">
+        <div className="absolute top-0 left-0 w-full h-full opacity-10 pointer-events-none">
+           <div className="absolute -top-10 -left-10 w-40 h-40 bg-white rounded-full blur-3xl"></div>
+           <div className="absolute -bottom-10 -right-10 w-40 h-40 bg-white rounded-full blur-3xl"></div>
+        </div>
+        <div className="relative z-10 space-y-4">
+          <span className="inline-block px-4 py-1.5 bg-indigo-400/30 rounded-full text-xs font-black uppercase tracking-[0.2em] border border-indigo-300/30">{t.result.badge}</span>
+          <h2 className="text-3xl md:text-4xl font-black leading-tight">
+            {analysis.finalRecommendation ?? <Placeholder dark />}
+          </h2>
+          <p className="text-indigo-100 text-lg font-medium opacity-90 max-w-lg mx-auto leading-relaxed">
+            {analysis.summary ?? (streaming && <Placeholder dark />)}
+          </p>
+        </div>
+      </div>
+
+      {analysis.matrix && <ScoringMatrix key={matrixKey(analysis.matrix)} matrix={analysis.matrix} />}
+
+      {/* Reasoning & Features Grid */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {/* Reasoning Card */}
+        <div className="bg-white p-8 rounded-[2rem] border border-slate-100 shadow-sm space-y-5">
+          <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <i className="fas fa-brain text-indigo-500"></i> {t.result.reasoning}
+          </h3>
+          <ul className="space-y-3">
+            {(analysis.reasoning ?? []).map((item, i) => (
+              <li key={i} className="flex items-start gap-3 text-slate-600 leading-relaxed font-medium">
+                <i className="fas fa-circle-check mt-1.5 text-indigo-400 text-[10px]"></i>
+                <span className="space-y-1.5">
+                  <span className="block">{item}</span>
+                  {sourcesOf(i).length > 0 && (
+                    <span className="flex flex-wrap items-center gap-1.5 text-xs font-bold text-slate-400">
+                      {t.result.sources}
+                      {sourcesOf(i).map(a => (
+                        <span key={a.id} className="px-2 py-0.5 rounded-full bg-indigo-50 text-indigo-600">
+                          <i className="fas fa-paperclip mr-1"></i>{a.name}
+                        </span>
+                      ))}
+                    </span>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+          {streaming && !analysis.pros && <Placeholder />}
+        </div>
+
+        {/* Pros & Cons Card */}
+        <div className="space-y-4">
+          <div className="bg-emerald-50 p-6 rounded-[2rem] border border-emerald-100 space-y-3">
+            <h3 className="text-sm font-black text-emerald-700 uppercase tracking-tighter flex items-center gap-2">
+              <i className="fas fa-plus-circle"></i> {t.result.pros}
+            </h3>
+            <ul className="space-y-2">
+              {(analysis.pros ?? []).map((item, i) => (
+                <li key={i} className="text-emerald-800 text-sm font-semibold flex items-center gap-2">
+                   <span className="w-1 h-1 bg-emerald-400 rounded-full"></span> {item}
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div className="bg-rose-50 p-6 rounded-[2rem] border border-rose-100 space-y-3">
+            <h3 className="text-sm font-black text-rose-700 uppercase tracking-tighter flex items-center gap-2">
+              <i className="fas fa-minus-circle"></i> {t.result.cons}
+            </h3>
+            <ul className="space-y-2">
+              {(analysis.cons ?? []).map((item, i) => (
+                <li key={i} className="text-rose-800 text-sm font-semibold flex items-center gap-2">
+                   <span className="w-1 h-1 bg-rose-400 rounded-full"></span> {item}
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      </div>
+
+      {/* Action Plan Section */}
+      <div className="bg-slate-900 text-white p-8 rounded-[2rem] shadow-xl space-y-6">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-bold flex items-center gap-3">
+            <i className="fas fa-rocket text-indigo-400"></i> {t.result.nextSteps}
+          </h3>
+          <div className="h-px flex-1 bg-slate-800 mx-6 hidden md:block"></div>
+          {onToggleStep && analysis.nextSteps && (
+            <span className="text-xs font-bold text-slate-400">
+              {t.journal.stepsProgress(analysis.nextSteps.filter(s => doneSteps.includes(s)).length, analysis.nextSteps.length)}
+            </span>
+          )}
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {(analysis.nextSteps ?? []).map((step, i) => onToggleStep ? (
+            <button
+              key={i}
+              role="checkbox"
+              aria-checked={doneSteps.includes(step)}
+              onClick={() => onToggleStep(step)}
+              className="flex items-center gap-4 bg-slate-800/50 p-4 rounded-2xl border border-slate-700 hover:border-indigo-500 transition-colors group text-left"
+            >
+              <span className={`w-8 h-8 shrink-0 rounded-xl border-2 flex items-center justify-center transition-colors ${
+                doneSteps.includes(step) ? 'bg-indigo-500 border-indigo-500 text-white' : 'border-slate-600 text-transparent group-hover:border-indigo-400'
+              }`}>
+                <i className="fas fa-check text-sm"></i>
+              </span>
+              <p className={`font-semibold leading-snug ${doneSteps.includes(step) ? 'text-slate-500 line-through' : 'text-slate-300'}`}>{step}</p>
+            </button>
+          ) : (
+            <div key={i} className="flex items-center gap-4 bg-slate-800/50 p-4 rounded-2xl border border-slate-700 hover:border-indigo-500 transition-colors group">
+              <span className="text-2xl font-black text-slate-700 group-hover:text-indigo-400 transition-colors">0{i+1}</span>
+              <p className="font-semibold text-slate-300 leading-snug">{step}</p>
+            </div>
+          ))}
+        </div>
+        {streaming && <Placeholder dark />}
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisView;
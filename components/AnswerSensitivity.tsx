@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { Answer, Question } from '../types';
+import { displayAnswer, isAnswered } from '../answers';
+import { useI18n } from '../i18n';
+import QuestionInput from './QuestionInput';
+
+interface AnswerSensitivityProps {
+  questions: Question[];
+  answers: Record<number, Answer>;
+  /** True while a re-run is in flight; editing is locked meanwhile. */
+  busy: boolean;
+  error: string | null;
+  onRerun: (questionId: number, answer: Answer) => void;
+}
+
+/** Lists every answer on the result and lets the user change one to re-run the analysis. */
+const AnswerSensitivity: React.FC<AnswerSensitivityProps> = ({ questions, answers, busy, error, onRerun }) => {
+  const { t } = useI18n();
+  const [editing, setEditing] = useState<number | null>(null);
+  const [draft, setDraft] = useState<Answer | undefined>(undefined);
+
+  const startEditing = (question: Question) => {
+    setEditing(question.id);
+    setDraft(answers[question.id]);
+  };
+
+  const isUnchanged = (question: Question) => JSON.stringify(draft) === JSON.stringify(answers[question.id]);
+
+  const rerun = (question: Question) => {
+    if (draft === undefined || !isAnswered(question, draft)) return;
+    setEditing(null);
+    onRerun(question.id, draft);
+  };
+
+  return (
+    <section className="bg-white p-8 rounded-[2rem] border border-slate-100 shadow-sm space-y-6 no-print">
+      <div className="space-y-2">
+        <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+          <i className="fas fa-sliders text-indigo-500"></i> {t.sensitivity.heading}
+        </h3>
+        <p className="text-sm text-slate-400">{t.sensitivity.intro}</p>
+      </div>
+
+      {busy && (
+        <p className="text-sm font-bold text-indigo-600 flex items-center gap-2" aria-live="polite">
+          <i className="fas fa-spinner animate-spin"></i> {t.sensitivity.running}
+        </p>
+      )}
+      {error && <p className="text-sm font-semibold text-rose-600">{error}</p>}
+
+      <ol className="space-y-3">
+        {questions.map((question, i) => (
+          <li key={question.id} className="p-4 rounded-2xl border-2 border-slate-100 space-y-2">
+            <div className="flex items-start gap-3">
+              <span className="text-xs font-black text-slate-300 mt-1 w-6">{i + 1}</span>
+              <div className="flex-1 min-w-0">
+                <p id={`sensitivity-question-${question.id}`} className="font-bold text-slate-700 leading-snug">{question.text}</p>
+                {editing !== question.id && (
+                  <p className="text-sm text-indigo-600 font-semibold mt-1">{displayAnswer(question, answers[question.id])}</p>
+                )}
+              </div>
+              {editing !== question.id && (
+                <button
+                  onClick={() => startEditing(question)}
+                  disabled={busy}
+                  className="px-3 py-1.5 rounded-xl text-xs font-bold text-slate-400 hover:bg-indigo-50 hover:text-indigo-600 disabled:opacity-30 transition-all"
+                >
+                  <i className="fas fa-pen mr-1"></i> {t.sensitivity.change}
+                </button>
+              )}
+            </div>
+            {editing === question.id && (
+              <div className="space-y-4">
+                <QuestionInput key={question.id} question={question} answer={draft} onChange={setDraft} labelId={`sensitivity-question-${question.id}`} />
+                <div className="flex justify-end gap-2">
+                  <button
+                    onClick={() => setEditing(null)}
+                    className="px-4 py-2 rounded-xl font-bold text-sm text-slate-400 hover:bg-slate-50"
+                  >
+                    {t.sensitivity.cancel}
+                  </button>
+                  <button
+                    onClick={() => rerun(question)}
+                    disabled={busy || isUnchanged(question) || !isAnswered(question, draft)}
+                    className="px-5 py-2 rounded-xl font-bold text-sm bg-indigo-600 hover:bg-indigo-700 text-white disabled:bg-slate-200 disabled:text-slate-400 transition-all"
+                  >
+                    <i className="fas fa-arrows-rotate mr-1"></i> {t.sensitivity.rerun}
+                  </button>
+                </div>
+              </div>
+            )}
+          </li>
+        ))}
+      </ol>
+    </section>
+  );
+};
+
+export default AnswerSensitivity;
@@ -0,0 +1,34 @@
+import React, { useState } from 'react';
+import { afterEach, describe, expect, it } from 'vitest';
+import { act, cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { Attachment } from '../types';
+import { I18nContext } from '../i18n';
+import { en } from '../i18n/en';
+import AttachmentsInput from './AttachmentsInput';
+
+afterEach(cleanup);
+
+const existing: Attachment = { id: 'a1', name: 'Budget', source: 'note', content: 'Rent is 800.', originalSize: 12, condensed: false };
+
+const Harness: React.FC = () => {
+  const [attachments, setAttachments] = useState<Attachment[]>([existing]);
+  return (
+    <I18nContext.Provider value={{ locale: 'en', t: en }}>
+      <AttachmentsInput attachments={attachments} onChange={setAttachments} />
+    </I18nContext.Provider>
+  );
+};
+
+describe('AttachmentsInput', () => {
+  it('adds a note to the latest list when another attachment is removed while it is read', async () => {
+    render(<Harness />);
+    fireEvent.click(screen.getByRole('button', { name: en.attachments.addNote }));
+    fireEvent.change(screen.getByPlaceholderText(en.attachments.notePlaceholder), { target: { value: 'I work from home.' } });
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: en.attachments.saveNote }));
+      fireEvent.click(screen.getByRole('button', { name: en.attachments.remove('Budget') }));
+    });
+    expect(screen.queryByRole('button', { name: en.attachments.remove('Budget') })).toBeNull();
+    expect(screen.getByRole('button', { name: en.attachments.remove(en.attachments.noteName(2)) })).toBeTruthy();
+  });
+});
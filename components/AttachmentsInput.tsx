@@ -0,0 +1,151 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Attachment } from '../types';
+import { ACCEPTED_FILES, AttachmentError, createNote, MAX_ATTACHMENTS, MAX_FILE_BYTES, readAttachment } from '../attachments';
+import { describeError, useI18n } from '../i18n';
+
+interface AttachmentsInputProps {
+  attachments: Attachment[];
+  /** Takes an update of the latest list, since a file can finish reading after the list has changed. */
+  onChange: React.Dispatch<React.SetStateAction<Attachment[]>>;
+}
+
+const AttachmentsInput: React.FC<AttachmentsInputProps> = ({ attachments, onChange }) => {
+  const { locale, t } = useI18n();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [reading, setReading] = useState<string | null>(null);
+  const [note, setNote] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const full = attachments.length >= MAX_ATTACHMENTS;
+
+  // Files and long notes may need model calls, so only one is read at a time.
+  const add = async (name: string, read: (signal: AbortSignal) => Promise<Attachment>) => {
+    if (reading) return;
+    if (full) {
+      setError(t.attachments.tooMany(MAX_ATTACHMENTS));
+      return;
+    }
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setReading(name);
+    setError(null);
+    try {
+      const added = await read(controller.signal);
+      onChange(prev => [...prev, added]);
+      setNote(null);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      setError(err instanceof AttachmentError
+        ? err.reason === 'tooLarge' ? t.attachments.tooLarge(MAX_FILE_BYTES / 1024 / 1024) : t.attachments[err.reason]
+        : describeError(t, err, t.attachments.failed));
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setReading(null);
+    }
+  };
+
+  const addNote = () => {
+    if (note === null) return;
+    const name = t.attachments.noteName(attachments.filter(a => a.source === 'note').length + 1);
+    add(name, signal => createNote(name, note, locale, signal));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-bold text-slate-600 flex items-center gap-2">
+          <i className="fas fa-paperclip text-indigo-500"></i> {t.attachments.heading} <span className="font-medium text-slate-400">{t.attachments.optional}</span>
+        </h3>
+        <span className="text-xs font-bold text-slate-300">{attachments.length} / {MAX_ATTACHMENTS}</span>
+      </div>
+      {attachments.length === 0 && <p className="text-xs text-slate-400">{t.attachments.intro}</p>}
+
+      {attachments.length > 0 && (
+        <ul className="space-y-2">
+          {attachments.map(a => (
+            <li key={a.id} className="flex items-center gap-3 px-4 py-2.5 rounded-2xl bg-slate-50">
+              <i className={`fas ${a.source === 'note' ? 'fa-note-sticky' : 'fa-file-lines'} text-indigo-400`}></i>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-bold text-slate-700 truncate">{a.name}</p>
+                <p className="text-xs text-slate-400">
+                  {a.condensed ? t.attachments.condensed : t.attachments.characters(a.content.length)}
+                </p>
+              </div>
+              <button
+                onClick={() => onChange(prev => prev.filter(other => other.id !== a.id))}
+                aria-label={t.attachments.remove(a.name)}
+                className="w-8 h-8 rounded-full hover:bg-indigo-100 text-indigo-400 hover:text-indigo-700"
+              >
+                <i className="fas fa-xmark text-xs"></i>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {reading && (
+        <p className="text-sm font-bold text-indigo-600 flex items-center gap-2" aria-live="polite">
+          <i className="fas fa-spinner animate-spin"></i> {t.attachments.reading(reading)}
+        </p>
+      )}
+      {error && <p className="text-sm font-semibold text-rose-600">{error}</p>}
+
+      {note !== null ? (
+        <div className="space-y-2">
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder={t.attachments.notePlaceholder}
+            disabled={reading !== null}
+            className="w-full p-4 border-2 border-slate-100 bg-slate-50 rounded-2xl focus:border-indigo-500 focus:bg-white outline-none transition-all h-32 resize-none text-sm"
+          />
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setNote(null)} className="px-4 py-2 rounded-xl font-bold text-sm text-slate-400 hover:bg-slate-50">
+              {t.attachments.cancel}
+            </button>
+            <button
+              onClick={addNote}
+              disabled={!note.trim() || reading !== null}
+              className="px-5 py-2 rounded-xl font-bold text-sm bg-slate-100 text-slate-600 hover:bg-indigo-100 hover:text-indigo-700 disabled:opacity-40 transition-all"
+            >
+              {t.attachments.saveNote}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex flex-col md:flex-row gap-2">
+          <input
+            ref={inputRef}
+            type="file"
+            accept={ACCEPTED_FILES}
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) add(file.name, signal => readAttachment(file, locale, signal));
+            }}
+          />
+          <button
+            onClick={() => inputRef.current?.click()}
+            disabled={full || reading !== null}
+            className="flex-1 py-3 rounded-2xl bg-slate-100 text-slate-600 font-bold text-sm hover:bg-indigo-100 hover:text-indigo-700 disabled:opacity-40 transition-all flex items-center justify-center gap-2"
+          >
+            <i className="fas fa-file-arrow-up"></i> {t.attachments.addFile}
+          </button>
+          <button
+            onClick={() => setNote('')}
+            disabled={full || reading !== null}
+            className="flex-1 py-3 rounded-2xl bg-slate-100 text-slate-600 font-bold text-sm hover:bg-indigo-100 hover:text-indigo-700 disabled:opacity-40 transition-all flex items-center justify-center gap-2"
+          >
+            <i className="fas fa-note-sticky"></i> {t.attachments.addNote}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AttachmentsInput;
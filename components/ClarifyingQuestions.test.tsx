@@ -0,0 +1,38 @@
+import React from 'react';
+import { afterEach, describe, expect, it } from 'vitest';
+import { cleanup, render, screen } from '@testing-library/react';
+import { I18nContext } from '../i18n';
+import { en } from '../i18n/en';
+import { DecisionContext } from '../geminiService';
+import { DEFAULT_SETTINGS } from '../settings';
+import { MOCK_ANALYSIS, mockQuestions } from '../providers/mockFixtures';
+import { CLARIFYING_QUESTION_COUNT } from '../confidence';
+import ClarifyingQuestions from './ClarifyingQuestions';
+
+afterEach(cleanup);
+
+const context: DecisionContext = { topic: 'Where should we travel?', alternatives: [], locale: 'en', attachments: [], settings: DEFAULT_SETTINGS };
+
+const renderClarifying = (group: boolean) => render(
+  <I18nContext.Provider value={{ locale: 'en', t: en }}>
+    <ClarifyingQuestions
+      context={context}
+      decision={{ questions: mockQuestions('en', 20), answers: {}, result: MOCK_ANALYSIS.en }}
+      onAnalyzed={() => {}}
+      group={group}
+    />
+  </I18nContext.Provider>
+);
+
+describe('ClarifyingQuestions', () => {
+  it('offers clarifying questions on a decision made alone', () => {
+    renderClarifying(false);
+    expect(screen.getByRole('button', { name: en.clarify.start(CLARIFYING_QUESTION_COUNT) })).toBeTruthy();
+  });
+
+  it('explains to a group why they are not offered', () => {
+    renderClarifying(true);
+    expect(screen.getByText(en.clarify.groupUnavailable)).toBeTruthy();
+    expect(screen.queryByRole('button')).toBeNull();
+  });
+});
@@ -0,0 +1,139 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AnalysisResult, Answer, Question } from '../types';
+import { AnalyzedDecision, analyzeDecision, DecisionContext, generateClarifyingQuestions } from '../geminiService';
+import { isAnswered } from '../answers';
+import { CLARIFYING_QUESTION_COUNT } from '../confidence';
+import { describeError, useI18n } from '../i18n';
+import QuestionInput from './QuestionInput';
+
+interface ClarifyingQuestionsProps {
+  context: DecisionContext;
+  decision: AnalyzedDecision;
+  /** Receives the session's questions and answers with the clarifications added, and the analysis they produced. */
+  onAnalyzed: (questions: Question[], answers: Record<number, Answer>, result: AnalysisResult) => void;
+  /** Group decisions only get the reason they are not offered, since every participant would have to answer. */
+  group?: boolean;
+}
+
+type Phase = 'idle' | 'generating' | 'answering' | 'analyzing';
+
+/**
+ * Offered on a low-confidence result: asks a few questions aimed at what left it uncertain,
+ * then re-runs the analysis with their answers added to the session.
+ */
+const ClarifyingQuestions: React.FC<ClarifyingQuestionsProps> = ({ context, decision, onAnalyzed, group = false }) => {
+  const { t } = useI18n();
+  const [phase, setPhase] = useState<Phase>('idle');
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [answers, setAnswers] = useState<Record<number, Answer>>({});
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const run = async <T,>(next: Phase, task: (signal: AbortSignal) => Promise<T>, fallback: string): Promise<T | undefined> => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const previous = phase;
+    setPhase(next);
+    setError(null);
+    try {
+      return await task(controller.signal);
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        setError(describeError(t, err, fallback));
+        setPhase(previous);
+      }
+      return undefined;
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  };
+
+  const start = async () => {
+    const generated = await run('generating', signal => generateClarifyingQuestions(context, decision, signal), t.clarify.generateFailed);
+    if (!generated) return;
+    setQuestions(generated);
+    setAnswers({});
+    setPhase('answering');
+  };
+
+  const submit = async () => {
+    const allQuestions = [...decision.questions, ...questions];
+    const allAnswers = { ...decision.answers, ...answers };
+    const result = await run('analyzing', signal => analyzeDecision(context, allQuestions, allAnswers, { signal }), t.clarify.failed);
+    if (!result) return;
+    setPhase('idle');
+    setQuestions([]);
+    onAnalyzed(allQuestions, allAnswers, result);
+  };
+
+  const cancel = () => {
+    abortRef.current?.abort();
+    setPhase(questions.length > 0 ? 'answering' : 'idle');
+  };
+
+  const complete = questions.length > 0 && questions.every(q => isAnswered(q, answers[q.id]));
+  const busy = phase === 'generating' || phase === 'analyzing';
+
+  return (
+    <section className="bg-amber-50/60 p-8 rounded-[2rem] border border-amber-100 space-y-6 no-print">
+      <div className="space-y-2">
+        <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+          <i className="fas fa-magnifying-glass-plus text-amber-500"></i> {t.clarify.heading}
+        </h3>
+        <p className="text-sm text-slate-500">{group ? t.clarify.groupUnavailable : t.clarify.intro}</p>
+      </div>
+
+      {phase === 'idle' && !group && (
+        <button
+          onClick={start}
+          className="w-full py-4 rounded-2xl bg-white border-2 border-amber-200 text-amber-700 font-bold hover:bg-amber-100 transition-all flex items-center justify-center gap-2"
+        >
+          <i className="fas fa-list-check"></i> {t.clarify.start(CLARIFYING_QUESTION_COUNT)}
+        </button>
+      )}
+
+      {busy && (
+        <div className="flex items-center justify-between gap-4" aria-live="polite">
+          <p className="text-sm font-bold text-amber-700 flex items-center gap-2">
+            <i className="fas fa-spinner animate-spin"></i> {phase === 'generating' ? t.clarify.generating : t.clarify.analyzing}
+          </p>
+          <button onClick={cancel} className="px-4 py-2 rounded-xl text-sm font-bold text-slate-400 hover:bg-white hover:text-slate-600 transition-all">
+            {t.clarify.cancel}
+          </button>
+        </div>
+      )}
+      {error && <p className="text-sm font-semibold text-rose-600">{error}</p>}
+
+      {questions.length > 0 && phase !== 'generating' && (
+        <>
+          <ol className="space-y-6">
+            {questions.map((question, i) => (
+              <li key={question.id} className="p-5 rounded-2xl bg-white space-y-2">
+                <p id={`clarifying-question-${question.id}`} className="font-bold text-slate-700 leading-snug">
+                  <span className="text-xs font-black text-amber-500 mr-2">{i + 1}</span>{question.text}
+                </p>
+                <QuestionInput
+                  question={question}
+                  answer={answers[question.id]}
+                  onChange={answer => setAnswers(prev => ({ ...prev, [question.id]: answer }))}
+                  labelId={`clarifying-question-${question.id}`}
+                />
+              </li>
+            ))}
+          </ol>
+          <button
+            onClick={submit}
+            disabled={!complete || busy}
+            className="w-full py-4 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-2xl shadow-xl disabled:bg-slate-200 disabled:text-slate-400 disabled:shadow-none transition-all flex items-center justify-center gap-2"
+          >
+            <i className="fas fa-arrows-rotate"></i> {t.clarify.submit}
+          </button>
+        </>
+      )}
+    </section>
+  );
+};
+
+export default ClarifyingQuestions;
@@ -0,0 +1,122 @@
+import React from 'react';
+import { AnalysisConfidence, Question } from '../types';
+import { confidenceLevel, ConfidenceLevel, questionNumbers } from '../confidence';
+import { useI18n } from '../i18n';
+
+interface ConfidencePanelProps {
+  confidence: AnalysisConfidence;
+  /** The session's questions, so cited ids can be shown as the numbers the user answered. */
+  questions: Question[];
+}
+
+const LEVEL_STYLES: Record<ConfidenceLevel, { bar: string; text: string; icon: string }> = {
+  low: { bar: 'bg-rose-500', text: 'text-rose-600', icon: 'fa-circle-question' },
+  medium: { bar: 'bg-amber-400', text: 'text-amber-600', icon: 'fa-circle-half-stroke' },
+  high: { bar: 'bg-emerald-500', text: 'text-emerald-600', icon: 'fa-circle-check' }
+};
+
+/** The questions behind a finding, numbered as the user saw them, with the question text on hover. */
+const QuestionRefs: React.FC<{ ids: number[]; questions: Question[] }> = ({ ids, questions }) => {
+  const { t } = useI18n();
+  return (
+    <span className="inline-flex flex-wrap gap-1.5 ml-2 align-middle">
+      {questionNumbers(questions, ids).map(n => (
+        <span key={n} title={questions[n - 1].text} className="px-2 py-0.5 rounded-full bg-slate-100 text-[11px] font-bold text-slate-500">
+          {t.confidence.questionRef(n)}
+        </span>
+      ))}
+    </span>
+  );
+};
+
+/** How certain the recommendation is: the score, the runner-up, and the contradictions and biases that weaken it. */
+const ConfidencePanel: React.FC<ConfidencePanelProps> = ({ confidence, questions }) => {
+  const { t } = useI18n();
+  const c = t.confidence;
+  const level = confidenceLevel(confidence.score);
+  const style = LEVEL_STYLES[level];
+
+  return (
+    <section className="bg-white p-8 rounded-[2rem] border border-slate-100 shadow-sm space-y-6">
+      <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+        <i className="fas fa-scale-unbalanced text-indigo-500"></i> {c.heading}
+      </h3>
+
+      <div className="space-y-2">
+        <div className="flex items-end justify-between">
+          <span className="text-sm font-bold text-slate-400">{c.score}</span>
+          <span className={`font-black ${style.text}`}>
+            <i className={`fas ${style.icon} mr-1.5`}></i>
+            <span className="text-2xl">{confidence.score}</span>
+            <span className="text-sm text-slate-300"> / 100</span> · {c.levels[level]}
+          </span>
+        </div>
+        <div
+          className="h-2.5 w-full bg-slate-100 rounded-full overflow-hidden"
+          role="meter"
+          aria-label={c.score}
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={confidence.score}
+          aria-valuetext={`${confidence.score} / 100, ${c.levels[level]}`}
+        >
+          <div className={`h-full rounded-full ${style.bar}`} style={{ width: `${confidence.score}%` }}></div>
+        </div>
+        <p className="text-slate-600 leading-relaxed font-medium">{confidence.rationale}</p>
+      </div>
+
+      {confidence.runnerUp && (
+        <div className="p-5 rounded-2xl bg-slate-50 space-y-2">
+          <div className="flex items-center justify-between gap-4">
+            <span className="text-xs font-black uppercase tracking-widest text-slate-400">{c.runnerUp}</span>
+            <span className="text-xs font-bold text-slate-500">{c.closeness(confidence.runnerUp.closeness)}</span>
+          </div>
+          <p className="font-black text-slate-800">{confidence.runnerUp.name}</p>
+          <div className="h-1.5 w-full bg-slate-200 rounded-full overflow-hidden" aria-hidden="true">
+            <div className="h-full rounded-full bg-indigo-400" style={{ width: `${confidence.runnerUp.closeness}%` }}></div>
+          </div>
+          {confidence.runnerUp.explanation && <p className="text-sm text-slate-500 leading-relaxed">{confidence.runnerUp.explanation}</p>}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-3">
+          <h4 className="text-sm font-bold text-slate-600 flex items-center gap-2">
+            <i className="fas fa-code-compare text-amber-500"></i> {c.contradictions}
+          </h4>
+          {confidence.contradictions.length === 0 ? (
+            <p className="text-sm text-slate-400">{c.none}</p>
+          ) : (
+            <ul className="space-y-2">
+              {confidence.contradictions.map((item, i) => (
+                <li key={i} className="text-sm text-slate-600 leading-relaxed">
+                  {item.explanation}
+                  <QuestionRefs ids={item.questionIds} questions={questions} />
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <div className="space-y-3">
+          <h4 className="text-sm font-bold text-slate-600 flex items-center gap-2">
+            <i className="fas fa-eye-low-vision text-rose-400"></i> {c.biases}
+          </h4>
+          {confidence.biases.length === 0 ? (
+            <p className="text-sm text-slate-400">{c.none}</p>
+          ) : (
+            <ul className="space-y-2">
+              {confidence.biases.map((bias, i) => (
+                <li key={i} className="text-sm text-slate-600 leading-relaxed">
+                  <span className="font-bold text-slate-800">{c.biasNames[bias.kind]}</span> · {bias.explanation}
+                  <QuestionRefs ids={bias.questionIds} questions={questions} />
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default ConfidencePanel;
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { DecisionState } from '../types';
+import { deleteDecision, listDecisions, matchesTopic } from '../storage';
+import { useI18n } from '../i18n';
+
+interface DecisionHistoryProps {
+  onOpen: (decision: DecisionState) => void;
+}
+
+const DecisionHistory: React.FC<DecisionHistoryProps> = ({ onOpen }) => {
+  const { locale, t } = useI18n();
+  const [query, setQuery] = useState('');
+  const [decisions, setDecisions] = useState(() => listDecisions());
+
+  const visible = decisions.filter(d => matchesTopic(d, query));
+
+  const handleDelete = (decision: DecisionState) => {
+    if (!window.confirm(t.history.confirmDelete(decision.topic))) return;
+    deleteDecision(decision.id);
+    setDecisions(listDecisions());
+  };
+
+  if (decisions.length === 0) return null;
+
+  return (
+    <section className="space-y-4 pt-8 border-t border-slate-100">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <i className="fas fa-clock-rotate-left text-indigo-500"></i> {t.history.heading}
+        </h3>
+        <div className="relative flex-1 max-w-xs">
+          <i className="fas fa-magnifying-glass absolute left-4 top-1/2 -translate-y-1/2 text-slate-300 text-sm"></i>
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t.history.search}
+            className="w-full pl-10 pr-4 py-2.5 border-2 border-slate-100 bg-slate-50 rounded-2xl focus:border-indigo-500 focus:bg-white outline-none text-sm transition-all"
+          />
+        </div>
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-slate-400 text-center py-6">{t.history.empty}</p>
+      ) : (
+        <ul className="space-y-3">
+          {visible.map(decision => (
+            <li key={decision.id} className="flex items-center gap-3 p-4 rounded-2xl border-2 border-slate-100 hover:border-indigo-200 transition-all group">
+              <button onClick={() => onOpen(decision)} className="flex-1 text-left min-w-0">
+                <p className="font-bold text-slate-700 truncate group-hover:text-indigo-700">{decision.topic}</p>
+                <p className="text-xs text-slate-400 mt-1 truncate">
+                  {new Date(decision.updatedAt).toLocaleDateString(locale)} · {decision.result?.finalRecommendation}
+                </p>
+              </button>
+              {decision.journal?.status && (
+                <span className={`px-2.5 py-1 rounded-full text-xs font-bold whitespace-nowrap ${
+                  decision.journal.status === 'followed' ? 'bg-emerald-50 text-emerald-700' : 'bg-slate-100 text-slate-500'
+                }`}>
+                  {t.journal.status[decision.journal.status]}
+                </span>
+              )}
+              {decision.journal?.satisfaction !== undefined && (
+                <span className="text-xs font-bold text-indigo-500 whitespace-nowrap" title={t.journal.satisfaction}>
+                  <i className="fas fa-star mr-1"></i>{decision.journal.satisfaction}
+                </span>
+              )}
+              <button
+                onClick={() => handleDelete(decision)}
+                className="w-9 h-9 rounded-xl text-slate-300 hover:text-rose-500 hover:bg-rose-50 transition-all"
+                aria-label={t.history.delete}
+              >
+                <i className="fas fa-trash-can"></i>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default DecisionHistory;
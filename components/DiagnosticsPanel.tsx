@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { clearCalls, estimateCost, listCalls, summarizeByModel, summarizeCalls, UsageSummary } from '../telemetry';
+import { downloadFile } from '../sessionExport';
+import { useI18n } from '../i18n';
+
+interface DiagnosticsPanelProps {
+  sessionId: string;
+  onClose: () => void;
+}
+
+const RECENT_CALLS = 20;
+
+const formatCost = (usd: number) => `$${usd.toFixed(4)}`;
+const formatLatency = (ms: number | null) => (ms === null ? '–' : `${(ms / 1000).toFixed(1)}s`);
+
+/** Totals for one set of calls. */
+const UsageCard: React.FC<{ title: string; summary: UsageSummary }> = ({ title, summary }) => {
+  const { locale, t } = useI18n();
+  const d = t.diagnostics;
+  const count = (n: number) => n.toLocaleString(locale);
+  return (
+    <div className="p-5 rounded-2xl bg-slate-50 space-y-3">
+      <h4 className="text-sm font-black text-slate-700">{title}</h4>
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-xs">
+        <dt className="font-bold text-slate-400">{d.calls}</dt>
+        <dd className="font-bold text-slate-700 text-right">{count(summary.calls)}</dd>
+        <dt className="font-bold text-slate-400">{d.tokens}</dt>
+        <dd className="font-bold text-slate-700 text-right">{count(summary.promptTokens)} / {count(summary.responseTokens)}</dd>
+        <dt className="font-bold text-slate-400">{d.cost}</dt>
+        <dd className="font-bold text-slate-700 text-right" title={summary.unpriced ? d.unpriced(summary.unpriced) : undefined}>
+          {formatCost(summary.cost)}{summary.unpriced > 0 && '*'}
+        </dd>
+        <dt className="font-bold text-slate-400">{d.problems}</dt>
+        <dd className="font-bold text-slate-700 text-right">{summary.failed} / {summary.invalidOutput} / {summary.retries}</dd>
+        <dt className="font-bold text-slate-400">{d.latency}</dt>
+        <dd className="font-bold text-slate-700 text-right">{formatLatency(summary.averageLatencyMs)}</dd>
+      </dl>
+      {summary.unpriced > 0 && <p className="text-[11px] text-slate-400">* {d.unpriced(summary.unpriced)}</p>}
+    </div>
+  );
+};
+
+/** Developer view of the recorded model calls: usage, estimated cost and the raw log. */
+const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ sessionId, onClose }) => {
+  const { locale, t } = useI18n();
+  const d = t.diagnostics;
+  const [calls, setCalls] = useState(() => listCalls());
+
+  const count = (n: number) => n.toLocaleString(locale);
+
+  const handleClear = () => {
+    if (!window.confirm(d.confirmClear)) return;
+    clearCalls();
+    setCalls([]);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+          <i className="fas fa-gauge-high text-indigo-500"></i> {d.heading}
+        </h3>
+        <button onClick={onClose} aria-label={d.close} className="w-9 h-9 rounded-xl text-slate-400 hover:text-slate-700 hover:bg-slate-100 transition-all">
+          <i className="fas fa-xmark"></i>
+        </button>
+      </div>
+
+      {calls.length === 0 ? (
+        <p className="text-sm text-slate-400 text-center py-6">{d.empty}</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <UsageCard title={d.session} summary={summarizeCalls(calls.filter(c => c.sessionId === sessionId))} />
+            <UsageCard title={d.total} summary={summarizeCalls(calls)} />
+          </div>
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-bold text-slate-600">{d.byModel}</h4>
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-slate-400">
+                  <th className="py-2 font-bold"></th>
+                  <th className="py-2 font-bold text-right">{d.calls}</th>
+                  <th className="py-2 font-bold text-right">{d.tokens}</th>
+                  <th className="py-2 font-bold text-right">{d.cost}</th>
+                  <th className="py-2 font-bold text-right">{d.latency}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summarizeByModel(calls).map(({ model, summary }) => (
+                  <tr key={model ?? ''} className="border-t border-slate-100 text-slate-600">
+                    <td className="py-2 font-bold font-mono">{model ?? d.noModel}</td>
+                    <td className="py-2 text-right">{count(summary.calls)}</td>
+                    <td className="py-2 text-right">{count(summary.promptTokens)} / {count(summary.responseTokens)}</td>
+                    <td className="py-2 text-right">{summary.unpriced === summary.calls ? '–' : formatCost(summary.cost)}</td>
+                    <td className="py-2 text-right">{formatLatency(summary.averageLatencyMs)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-bold text-slate-600">{d.recent}</h4>
+            <ul className="space-y-1.5">
+              {calls.slice(-RECENT_CALLS).reverse().map(call => {
+                const cost = estimateCost(call);
+                return (
+                  <li key={call.id} className="flex flex-wrap items-center gap-x-3 gap-y-1 px-3 py-2 rounded-xl bg-slate-50 text-xs text-slate-500">
+                    <span className="font-mono text-slate-400">{new Date(call.startedAt).toLocaleTimeString(locale)}</span>
+                    <span className="font-bold text-slate-700">{call.task}</span>
+                    <span className="font-mono">{call.model ?? call.tier}{call.streamed && ` · ${d.streamed}`}</span>
+                    <span>{count(call.promptTokens ?? 0)} / {count(call.responseTokens ?? 0)}</span>
+                    <span>{formatLatency(call.latencyMs)}</span>
+                    {cost !== null && <span>{formatCost(cost)}</span>}
+                    <span
+                      className={`ml-auto px-2 py-0.5 rounded-full font-bold ${
+                        call.outcome === 'success' ? 'bg-emerald-50 text-emerald-700' : call.outcome === 'cancelled' ? 'bg-slate-100 text-slate-500' : 'bg-rose-50 text-rose-600'
+                      }`}
+                      title={call.error ?? call.issues?.join('\n')}
+                    >
+                      {d.outcomes[call.outcome]}{call.retries > 0 && ` ↻${call.retries}`}
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        </>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={handleClear}
+          disabled={calls.length === 0}
+          className="px-4 py-2.5 rounded-xl font-bold text-sm text-slate-400 hover:text-rose-600 hover:bg-rose-50 disabled:opacity-40 transition-all"
+        >
+          <i className="fas fa-trash-can mr-2"></i>{d.clear}
+        </button>
+        <button
+          onClick={() => downloadFile(`model-calls-${new Date().toISOString().slice(0, 10)}.json`, JSON.stringify(calls, null, 2), 'application/json')}
+          disabled={calls.length === 0}
+          className="px-4 py-2.5 rounded-xl font-bold text-sm bg-slate-100 text-slate-600 hover:bg-indigo-100 hover:text-indigo-700 disabled:opacity-40 transition-all"
+        >
+          <i className="fas fa-file-export mr-2"></i>{d.export}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DiagnosticsPanel;
@@ -0,0 +1,49 @@
+import React, { useState } from 'react';
+import { DecisionState } from '../types';
+import { downloadFile, exportFileName, toMarkdown, toSessionFile, toShareUrl } from '../sessionExport';
+import { useI18n } from '../i18n';
+
+interface ExportMenuProps {
+  session: DecisionState;
+}
+
+const buttonClass = "flex-1 py-3 px-4 rounded-2xl border-2 border-slate-100 text-slate-500 font-bold text-sm hover:border-indigo-200 hover:text-indigo-600 transition-all flex items-center justify-center gap-2";
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ session }) => {
+  const { t } = useI18n();
+  const [linkState, setLinkState] = useState<'idle' | 'copied' | 'failed'>('idle');
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(await toShareUrl(session));
+      setLinkState('copied');
+    } catch (e) {
+      console.error("Failed to copy share link", e);
+      setLinkState('failed');
+    }
+    setTimeout(() => setLinkState('idle'), 2500);
+  };
+
+  return (
+    <div className="flex flex-col md:flex-row gap-3 no-print">
+      <button
+        onClick={() => downloadFile(`${exportFileName(session)}.md`, toMarkdown(session), 'text/markdown')}
+        className={buttonClass}
+      >
+        <i className="fab fa-markdown"></i> Markdown
+      </button>
+      <button
+        onClick={() => downloadFile(`${exportFileName(session)}.json`, JSON.stringify(toSessionFile(session), null, 2), 'application/json')}
+        className={buttonClass}
+      >
+        <i className="fas fa-file-code"></i> JSON
+      </button>
+      <button onClick={copyLink} className={buttonClass}>
+        <i className={`fas ${linkState === 'copied' ? 'fa-check text-emerald-500' : linkState === 'failed' ? 'fa-xmark text-rose-500' : 'fa-link'}`}></i>
+        {linkState === 'copied' ? t.exportMenu.copied : linkState === 'failed' ? t.exportMenu.copyFailed : t.exportMenu.copyLink}
+      </button>
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,181 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AnalysisResult, FollowUpMessage } from '../types';
+import { AnalyzedDecision, askFollowUp, DecisionContext, reviseAnalysis } from '../geminiService';
+import { describeError, useI18n } from '../i18n';
+import AnalysisComparison from './AnalysisComparison';
+
+interface FollowUpChatProps {
+  context: DecisionContext;
+  decision: AnalyzedDecision;
+  messages: FollowUpMessage[];
+  onChange: (messages: FollowUpMessage[]) => void;
+}
+
+type Mode = 'ask' | 'revise';
+
+/** A question awaiting its reply; `history` is the conversation to restore if it is stopped. */
+interface Pending {
+  mode: Mode;
+  question: string;
+  history: FollowUpMessage[];
+  /** The reply, or for revisions the new recommendation, received so far. */
+  text: string;
+}
+
+const FollowUpChat: React.FC<FollowUpChatProps> = ({ context, decision, messages, onChange }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState('');
+  const [pending, setPending] = useState<Pending | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [comparing, setComparing] = useState<number | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const send = async (mode: Mode) => {
+    const text = draft.trim();
+    if (!text || pending) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const history = messages;
+    const withQuestion: FollowUpMessage[] = [...messages, { role: 'user', text }];
+    onChange(withQuestion);
+    setDraft('');
+    setError(null);
+    const update = (soFar: string) => setPending({ mode, question: text, history, text: soFar });
+    update('');
+
+    try {
+      let reply: FollowUpMessage;
+      if (mode === 'ask') {
+        const answer = await askFollowUp(context, decision, history, text, {
+          signal: controller.signal,
+          onText: update
+        });
+        reply = { role: 'assistant', text: answer };
+      } else {
+        const revision = await reviseAnalysis(context, decision, history, text, {
+          signal: controller.signal,
+          onPartial: (partial: Partial<AnalysisResult>) => update(partial.finalRecommendation ?? '')
+        });
+        reply = { role: 'assistant', text: revision.summary, revision };
+        setComparing(withQuestion.length);
+      }
+      onChange([...withQuestion, reply]);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      // Put the question back so it can be sent again as is.
+      onChange(history);
+      setDraft(text);
+      setError(describeError(t, err, t.followUp.failed));
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setPending(null);
+    }
+  };
+
+  // Stopping takes the question back out of the conversation and returns it to the input.
+  const stop = () => {
+    if (!pending) return;
+    abortRef.current?.abort();
+    onChange(pending.history);
+    setDraft(pending.question);
+    setPending(null);
+  };
+
+  return (
+    <section className="bg-white p-8 rounded-[2rem] border border-slate-100 shadow-sm space-y-6 no-print">
+      <div className="space-y-2">
+        <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+          <i className="fas fa-comments text-indigo-500"></i> {t.followUp.heading}
+        </h3>
+        <p className="text-sm text-slate-400">{t.followUp.intro}</p>
+      </div>
+
+      {(messages.length > 0 || pending) && (
+        <ol className="space-y-4" aria-live="polite">
+          {messages.map((message, i) => message.role === 'user' ? (
+            <li key={i} className="flex justify-end">
+              <p className="max-w-[85%] px-5 py-3 rounded-3xl rounded-br-lg bg-indigo-600 text-white font-medium whitespace-pre-wrap">{message.text}</p>
+            </li>
+          ) : (
+            <li key={i} className="space-y-3">
+              <div className="max-w-[85%] px-5 py-3 rounded-3xl rounded-bl-lg bg-slate-50 text-slate-700 space-y-2">
+                {message.revision && (
+                  <>
+                    <span className="text-xs font-black uppercase tracking-widest text-indigo-500">{t.followUp.revisedBadge}</span>
+                    <p className="font-black text-slate-800">{message.revision.finalRecommendation}</p>
+                  </>
+                )}
+                <p className="leading-relaxed whitespace-pre-wrap">{message.text}</p>
+                {message.revision && (
+                  <button
+                    onClick={() => setComparing(comparing === i ? null : i)}
+                    className="text-xs font-bold text-indigo-500 hover:text-indigo-700 flex items-center gap-1"
+                  >
+                    <i className="fas fa-code-compare"></i> {comparing === i ? t.followUp.hideCompare : t.followUp.compare}
+                  </button>
+                )}
+              </div>
+              {message.revision && comparing === i && (
+                <AnalysisComparison original={decision.result} revised={message.revision} />
+              )}
+            </li>
+          ))}
+          {pending && (
+            <li className="max-w-[85%] px-5 py-3 rounded-3xl rounded-bl-lg bg-slate-50 text-slate-500 flex items-start gap-3">
+              <i className="fas fa-spinner animate-spin mt-1"></i>
+              <p className="leading-relaxed whitespace-pre-wrap">{pending.text || (pending.mode === 'revise' ? t.followUp.revising : '')}</p>
+            </li>
+          )}
+        </ol>
+      )}
+
+      {error && <p className="text-sm font-semibold text-rose-600">{error}</p>}
+
+      <div className="space-y-3">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+              e.preventDefault();
+              send('ask');
+            }
+          }}
+          placeholder={t.followUp.placeholder}
+          className="w-full p-4 border-2 border-slate-100 bg-slate-50 rounded-2xl focus:border-indigo-500 focus:bg-white outline-none transition-all h-24 resize-none"
+        />
+        <div className="flex flex-col md:flex-row gap-3">
+          {pending ? (
+            <button
+              onClick={stop}
+              className="flex-1 py-3 rounded-2xl border-2 border-slate-100 text-slate-500 font-bold hover:bg-slate-50 transition-all flex items-center justify-center gap-2"
+            >
+              <i className="fas fa-stop"></i> {t.followUp.stop}
+            </button>
+          ) : (
+            <>
+              <button
+                onClick={() => send('ask')}
+                disabled={!draft.trim()}
+                className="flex-1 py-3 rounded-2xl bg-indigo-600 hover:bg-indigo-700 text-white font-bold disabled:bg-slate-200 disabled:text-slate-400 transition-all flex items-center justify-center gap-2"
+              >
+                <i className="fas fa-paper-plane"></i> {t.followUp.ask}
+              </button>
+              <button
+                onClick={() => send('revise')}
+                disabled={!draft.trim()}
+                className="flex-1 py-3 rounded-2xl border-2 border-indigo-100 text-indigo-600 font-bold hover:bg-indigo-50 disabled:border-slate-100 disabled:text-slate-300 transition-all flex items-center justify-center gap-2"
+              >
+                <i className="fas fa-arrows-rotate"></i> {t.followUp.revise}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default FollowUpChat;
@@ -0,0 +1,55 @@
+import React from 'react';
+import { DecisionState, Participant, Question } from '../types';
+import { answeredCount, hasFinished, sameQuestions } from '../group';
+import { useI18n } from '../i18n';
+import SessionImport from './SessionImport';
+
+interface GroupParticipantsBarProps {
+  questions: Question[];
+  participants: Participant[];
+  activeId: string;
+  onSelect: (participant: Participant) => void;
+  /** Receives the participants of an exported session that asks the same questions. */
+  onMerge: (incoming: Participant[]) => void;
+  onError: (message: string) => void;
+}
+
+/** Shows whose turn it is and how far everyone got, for passing one device around the group. */
+const GroupParticipantsBar: React.FC<GroupParticipantsBarProps> = ({ questions, participants, activeId, onSelect, onMerge, onError }) => {
+  const { t } = useI18n();
+
+  const merge = (session: DecisionState) => {
+    if (!session.participants) {
+      onError(t.group.mergeNotGroup);
+    } else if (!sameQuestions(questions, session.questions)) {
+      onError(t.group.mergeMismatch);
+    } else {
+      onMerge(session.participants);
+    }
+  };
+
+  return (
+    <div className="space-y-2 no-print">
+      <div className="flex flex-wrap gap-2" role="group" aria-label={t.group.heading}>
+        {participants.map(p => (
+          <button
+            key={p.id}
+            onClick={() => onSelect(p)}
+            aria-pressed={p.id === activeId}
+            aria-label={p.id === activeId ? t.group.turn(p.name) : t.group.switchTo(p.name)}
+            className={`px-4 py-2 rounded-full text-sm font-bold transition-all flex items-center gap-2 ${
+              p.id === activeId ? 'bg-indigo-600 text-white shadow-sm' : 'bg-slate-100 text-slate-500 hover:bg-indigo-50 hover:text-indigo-600'
+            }`}
+          >
+            {hasFinished(questions, p) && <i className="fas fa-check text-xs"></i>}
+            {p.name}
+            <span className="text-xs opacity-70">{answeredCount(questions, p)}/{questions.length}</span>
+          </button>
+        ))}
+      </div>
+      <SessionImport onImport={merge} onError={onError} label={t.group.merge} />
+    </div>
+  );
+};
+
+export default GroupParticipantsBar;
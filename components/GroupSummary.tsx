@@ -0,0 +1,127 @@
+import React from 'react';
+import { GroupInsights, Participant, Question } from '../types';
+import { agreementOn, QuestionTally, tallyQuestion } from '../group';
+import { useI18n } from '../i18n';
+
+interface GroupSummaryProps {
+  questions: Question[];
+  participants: Participant[];
+  /** The model's reading of the group; absent while the analysis streams in. */
+  insights?: GroupInsights;
+}
+
+const Tally: React.FC<{ tally: QuestionTally; voters: number }> = ({ tally, voters }) => {
+  const { t } = useI18n();
+  switch (tally.kind) {
+    case 'choice':
+      return (
+        <ul className="space-y-1.5">
+          {tally.options.map(({ option, voters: names }) => (
+            <li key={option} className="text-sm space-y-1">
+              <div className="flex justify-between gap-3">
+                <span className="font-semibold text-slate-600">{option}</span>
+                <span className="text-xs font-bold text-slate-400" title={names.join(', ')}>{t.group.votes(names.length)}</span>
+              </div>
+              <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                <div className="h-full bg-indigo-400" style={{ width: `${voters > 0 ? (names.length / voters) * 100 : 0}%` }}></div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      );
+    case 'scale':
+      return (
+        <div className="text-sm space-y-1">
+          <p className="font-bold text-indigo-600">{t.group.average(tally.average.toFixed(1))} <span className="text-slate-300">({tally.min}–{tally.max})</span></p>
+          <p className="text-slate-500">{tally.values.map(v => `${v.name} ${v.value}`).join(' · ')}</p>
+        </div>
+      );
+    case 'ranking':
+      return (
+        <ol className="text-sm space-y-1">
+          {tally.options.map(({ option, averageRank }, i) => (
+            <li key={option} className="flex justify-between gap-3">
+              <span className="font-semibold text-slate-600">{i + 1}. {option}</span>
+              <span className="text-xs font-bold text-slate-400">{t.group.averageRank(averageRank.toFixed(1))}</span>
+            </li>
+          ))}
+        </ol>
+      );
+    case 'text':
+      return (
+        <ul className="text-sm space-y-1">
+          {tally.answers.map(a => (
+            <li key={a.name} className="text-slate-600"><span className="font-bold">{a.name}:</span> {a.text}</li>
+          ))}
+        </ul>
+      );
+  }
+};
+
+/** Where the group agrees and differs, followed by how everyone answered each question. */
+const GroupSummary: React.FC<GroupSummaryProps> = ({ questions, participants, insights }) => {
+  const { t } = useI18n();
+  return (
+    <section className="space-y-6">
+      {insights && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="bg-emerald-50 p-6 rounded-[2rem] border border-emerald-100 space-y-3">
+            <h3 className="text-sm font-black text-emerald-700 uppercase tracking-tighter flex items-center gap-2">
+              <i className="fas fa-handshake"></i> {t.group.agreements}
+            </h3>
+            <ul className="space-y-2">
+              {insights.agreements.map((item, i) => (
+                <li key={i} className="text-emerald-800 text-sm font-semibold">{item}</li>
+              ))}
+            </ul>
+          </div>
+          <div className="bg-amber-50 p-6 rounded-[2rem] border border-amber-100 space-y-3">
+            <h3 className="text-sm font-black text-amber-700 uppercase tracking-tighter flex items-center gap-2">
+              <i className="fas fa-code-branch"></i> {t.group.disagreements}
+            </h3>
+            <ul className="space-y-2">
+              {insights.disagreements.map((item, i) => (
+                <li key={i} className="text-amber-800 text-sm font-semibold">{item}</li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white p-8 rounded-[2rem] border border-slate-100 shadow-sm space-y-5">
+        <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+          <i className="fas fa-users text-indigo-500"></i> {t.group.summaryHeading}
+        </h3>
+        <ol className="space-y-4">
+          {questions.map((question, i) => {
+            const tally = tallyQuestion(question, participants);
+            const agreement = agreementOn(question, participants);
+            const voters = tally.kind === 'choice'
+              ? participants.filter(p => tally.options.some(o => o.voters.includes(p.name))).length
+              : 0;
+            return (
+              <li key={question.id} className="p-4 rounded-2xl border-2 border-slate-100 space-y-3">
+                <div className="flex items-start gap-3">
+                  <span className="text-xs font-black text-slate-300 mt-1 w-6">{i + 1}</span>
+                  <p className="flex-1 font-bold text-slate-700 leading-snug">{question.text}</p>
+                  {agreement && (
+                    <span className={`px-2.5 py-1 rounded-full text-xs font-black ${
+                      agreement === 'unanimous' ? 'bg-emerald-100 text-emerald-700' : 'bg-amber-100 text-amber-700'
+                    }`}>
+                      {agreement === 'unanimous' ? t.group.unanimous : t.group.split}
+                    </span>
+                  )}
+                </div>
+                {participants.some(p => p.answers[question.id] !== undefined)
+                  ? <Tally tally={tally} voters={voters} />
+                  : <p className="text-sm text-slate-400">{t.group.noAnswers}</p>}
+              </li>
+            );
+          })}
+        </ol>
+      </div>
+    </section>
+  );
+};
+
+export default GroupSummary;
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { DecisionState } from '../types';
+import { archiveDecision, listDecisions } from '../storage';
+import { daysSince, emptyJournal, isDueForReflection, snoozeReminder, summarizeJournal } from '../journal';
+import { useI18n } from '../i18n';
+
+interface JournalDashboardProps {
+  onOpen: (decision: DecisionState) => void;
+}
+
+/** Sums up past decisions and asks about the ones whose outcome is due. */
+const JournalDashboard: React.FC<JournalDashboardProps> = ({ onOpen }) => {
+  const { t } = useI18n();
+  const [decisions, setDecisions] = useState(() => listDecisions());
+
+  const summary = summarizeJournal(decisions);
+  const due = decisions.filter(d => isDueForReflection(d));
+
+  const snooze = (decision: DecisionState) => {
+    archiveDecision({ ...decision, journal: snoozeReminder(decision.journal ?? emptyJournal()) });
+    setDecisions(listDecisions());
+  };
+
+  if (summary.decisions === 0) return null;
+
+  const score = (value: number | null) => (value === null ? '–' : value.toFixed(1));
+  const stats = [
+    { label: t.dashboard.decisions, value: String(summary.decisions) },
+    {
+      label: t.dashboard.followRate,
+      value: summary.followRate === null ? t.dashboard.notYet : `${Math.round(summary.followRate * 100)}%`,
+      detail: summary.tracked ? `${summary.followed} / ${summary.tracked}` : undefined
+    },
+    {
+      label: t.dashboard.satisfaction,
+      value: summary.satisfaction.all === null ? t.dashboard.notYet : `${score(summary.satisfaction.all)} / 5`,
+      detail: summary.satisfaction.all === null
+        ? undefined
+        : t.dashboard.satisfactionSplit(score(summary.satisfaction.followed), score(summary.satisfaction.notFollowed))
+    },
+    { label: t.dashboard.stepsDone, value: `${summary.stepsDone} / ${summary.steps}` }
+  ];
+
+  return (
+    <section className="space-y-4 pt-8 border-t border-slate-100">
+      <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+        <i className="fas fa-chart-line text-indigo-500"></i> {t.dashboard.heading}
+      </h3>
+      <dl className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {stats.map(stat => (
+          <div key={stat.label} className="p-4 rounded-2xl bg-slate-50 space-y-1">
+            <dt className="text-xs font-bold text-slate-400">{stat.label}</dt>
+            <dd className="text-lg font-black text-slate-700">{stat.value}</dd>
+            {stat.detail && <dd className="text-xs text-slate-400">{stat.detail}</dd>}
+          </div>
+        ))}
+      </dl>
+
+      {due.length > 0 && (
+        <div className="p-5 rounded-2xl bg-amber-50 border border-amber-100 space-y-3">
+          <p className="text-sm font-bold text-amber-800 flex items-center gap-2">
+            <i className="fas fa-bell"></i> {t.dashboard.remindersHeading}
+          </p>
+          <ul className="space-y-2">
+            {due.map(decision => (
+              <li key={decision.id} className="flex flex-col md:flex-row md:items-center gap-2 md:gap-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-bold text-slate-700 truncate">{decision.topic}</p>
+                  <p className="text-xs text-amber-700">
+                    {t.dashboard.decidedAgo(daysSince(decision.createdAt))}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => onOpen(decision)}
+                    className="px-4 py-2 rounded-xl bg-white text-amber-800 font-bold text-xs hover:bg-amber-100 transition-all"
+                  >
+                    {t.dashboard.reflect}
+                  </button>
+                  <button
+                    onClick={() => snooze(decision)}
+                    className="px-4 py-2 rounded-xl text-amber-700 font-bold text-xs hover:bg-amber-100 transition-all"
+                  >
+                    {t.dashboard.snooze}
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default JournalDashboard;
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { DecisionStatus, JournalEntry } from '../types';
+import { SATISFACTION_LEVELS } from '../journal';
+import { useI18n } from '../i18n';
+
+interface JournalPanelProps {
+  journal: JournalEntry;
+  onChange: (journal: JournalEntry) => void;
+}
+
+const STATUSES: { value: DecisionStatus; icon: string }[] = [
+  { value: 'followed', icon: 'fa-thumbs-up' },
+  { value: 'notFollowed', icon: 'fa-code-branch' }
+];
+
+/** Records whether the recommendation was followed and, later, how it turned out. */
+const JournalPanel: React.FC<JournalPanelProps> = ({ journal, onChange }) => {
+  const { locale, t } = useI18n();
+  const [outcome, setOutcome] = useState(journal.outcome ?? '');
+  const [satisfaction, setSatisfaction] = useState(journal.satisfaction);
+
+  const changed = outcome.trim() !== (journal.outcome ?? '') || satisfaction !== journal.satisfaction;
+
+  const save = () => {
+    onChange({
+      ...journal,
+      outcome: outcome.trim() || undefined,
+      satisfaction,
+      reflectedAt: Date.now()
+    });
+  };
+
+  return (
+    <section className="bg-white p-8 rounded-[2rem] border border-slate-100 shadow-sm space-y-6 no-print">
+      <div className="space-y-1">
+        <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+          <i className="fas fa-book-open text-indigo-500"></i> {t.journal.heading}
+        </h3>
+        <p className="text-sm text-slate-400">{t.journal.intro}</p>
+      </div>
+
+      <div className="space-y-3">
+        <p className="text-sm font-bold text-slate-600">{t.journal.statusLabel}</p>
+        <div className="grid grid-cols-2 gap-3 p-1.5 bg-slate-100 rounded-2xl" role="radiogroup" aria-label={t.journal.statusLabel}>
+          {STATUSES.map(option => (
+            <button
+              key={option.value}
+              role="radio"
+              aria-checked={journal.status === option.value}
+              onClick={() => onChange({ ...journal, status: option.value })}
+              className={`py-3 rounded-xl font-bold text-sm transition-all flex items-center justify-center gap-2 ${
+                journal.status === option.value ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'
+              }`}
+            >
+              <i className={`fas ${option.icon}`}></i> {t.journal.status[option.value]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <label className="block space-y-3">
+        <span className="text-sm font-bold text-slate-600">{t.journal.outcome}</span>
+        <textarea
+          value={outcome}
+          onChange={(e) => setOutcome(e.target.value)}
+          placeholder={t.journal.outcomePlaceholder}
+          className="w-full p-4 border-2 border-slate-100 bg-slate-50 rounded-2xl focus:border-indigo-500 focus:bg-white outline-none transition-all h-28 resize-none text-sm"
+        />
+      </label>
+
+      <div className="space-y-3">
+        <p className="text-sm font-bold text-slate-600">{t.journal.satisfaction}</p>
+        <div className="flex items-center gap-3">
+          <span className="text-xs font-bold text-slate-400">{t.journal.satisfactionMin}</span>
+          <div className="flex gap-2" role="radiogroup" aria-label={t.journal.satisfaction}>
+            {SATISFACTION_LEVELS.map(level => (
+              <button
+                key={level}
+                role="radio"
+                aria-checked={satisfaction === level}
+                aria-label={t.journal.satisfactionLevel(level)}
+                onClick={() => setSatisfaction(level)}
+                className={`w-10 h-10 rounded-xl font-black text-sm transition-all ${
+                  satisfaction !== undefined && level <= satisfaction ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-400 hover:bg-indigo-100 hover:text-indigo-700'
+                }`}
+              >
+                {level}
+              </button>
+            ))}
+          </div>
+          <span className="text-xs font-bold text-slate-400">{t.journal.satisfactionMax}</span>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-end gap-4">
+        {journal.reflectedAt !== undefined && (
+          <span className="text-xs font-bold text-slate-400">
+            {t.journal.saved(new Date(journal.reflectedAt).toLocaleDateString(locale))}
+          </span>
+        )}
+        <button
+          onClick={save}
+          disabled={!changed}
+          className="px-6 py-3 rounded-2xl bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-200 disabled:text-slate-400 text-white font-bold text-sm transition-all"
+        >
+          {t.journal.save}
+        </button>
+      </div>
+    </section>
+  );
+};
+
+export default JournalPanel;
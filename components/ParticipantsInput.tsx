@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { MAX_PARTICIPANTS, MIN_PARTICIPANTS } from '../group';
+import { useI18n } from '../i18n';
+
+interface ParticipantsInputProps {
+  names: string[];
+  onChange: (names: string[]) => void;
+}
+
+const ParticipantsInput: React.FC<ParticipantsInputProps> = ({ names, onChange }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState('');
+
+  const add = () => {
+    const value = draft.trim();
+    if (!value || names.length >= MAX_PARTICIPANTS) return;
+    if (!names.some(n => n.toLowerCase() === value.toLowerCase())) {
+      onChange([...names, value]);
+    }
+    setDraft('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-bold text-slate-600 flex items-center gap-2">
+          <i className="fas fa-users text-indigo-500"></i> {t.group.heading}
+        </h3>
+        <span className="text-xs font-bold text-slate-300">{names.length} / {MAX_PARTICIPANTS}</span>
+      </div>
+      {names.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {names.map(name => (
+            <span key={name} className="pl-4 pr-2 py-1.5 bg-indigo-50 text-indigo-700 rounded-full text-sm font-bold flex items-center gap-2">
+              {name}
+              <button
+                onClick={() => onChange(names.filter(n => n !== name))}
+                aria-label={t.group.remove(name)}
+                className="w-6 h-6 rounded-full hover:bg-indigo-100 text-indigo-400 hover:text-indigo-700"
+              >
+                <i className="fas fa-xmark text-xs"></i>
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <div className="flex gap-2">
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.nativeEvent.isComposing) {
+              e.preventDefault();
+              add();
+            }
+          }}
+          disabled={names.length >= MAX_PARTICIPANTS}
+          placeholder={t.group.placeholder}
+          className="flex-1 px-5 py-3 border-2 border-slate-100 bg-slate-50 rounded-2xl focus:border-indigo-500 focus:bg-white outline-none transition-all disabled:opacity-50"
+        />
+        <button
+          onClick={add}
+          disabled={!draft.trim() || names.length >= MAX_PARTICIPANTS}
+          className="px-5 rounded-2xl bg-slate-100 text-slate-600 font-bold hover:bg-indigo-100 hover:text-indigo-700 disabled:opacity-40 transition-all"
+        >
+          {t.group.add}
+        </button>
+      </div>
+      {names.length < MIN_PARTICIPANTS && (
+        <p className="text-xs text-slate-400">{t.group.hint(MIN_PARTICIPANTS)}</p>
+      )}
+    </div>
+  );
+};
+
+export default ParticipantsInput;
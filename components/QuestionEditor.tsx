@@ -0,0 +1,139 @@
+import React from 'react';
+import { Question, QuestionKind } from '../types';
+import { changeKind, isUsableQuestion } from '../templates';
+import { useI18n } from '../i18n';
+
+interface QuestionEditorProps {
+  question: Question;
+  /** 1-based position shown next to the question. */
+  position: number;
+  onChange: (question: Question) => void;
+  onRemove: () => void;
+  /** Omitted at the top or bottom of the list. */
+  onMoveUp?: () => void;
+  onMoveDown?: () => void;
+  /** Asks the model for a different question in this place; omitted where that is unavailable. */
+  onRegenerate?: () => void;
+  /** True while this question is being regenerated; editing is locked meanwhile. */
+  regenerating?: boolean;
+}
+
+const KINDS: QuestionKind[] = ['single', 'multi', 'scale', 'ranking', 'text'];
+
+const inputClass = 'w-full px-4 py-2.5 border-2 border-slate-100 bg-slate-50 rounded-xl focus:border-indigo-500 focus:bg-white outline-none text-sm transition-all';
+
+const iconButtonClass = 'w-8 h-8 rounded-lg text-slate-300 hover:text-indigo-600 hover:bg-indigo-50 disabled:opacity-30 disabled:hover:bg-transparent transition-all';
+
+/** Edits one question's wording, kind and options in place. */
+const QuestionEditor: React.FC<QuestionEditorProps> = ({ question, position, onChange, onRemove, onMoveUp, onMoveDown, onRegenerate, regenerating = false }) => {
+  const { t } = useI18n();
+  const e = t.questionEditor;
+
+  const setOption = (index: number, value: string) => {
+    if (!('options' in question)) return;
+    onChange({ ...question, options: question.options.map((o, i) => (i === index ? value : o)) });
+  };
+
+  return (
+    <li className={`p-4 rounded-2xl border-2 space-y-3 ${isUsableQuestion(question) ? 'border-slate-100' : 'border-amber-200'}`} aria-busy={regenerating}>
+      <div className="flex items-start gap-3">
+        <span className="text-xs font-black text-slate-300 mt-3 w-6">{position}</span>
+        <textarea
+          value={question.text}
+          onChange={(ev) => onChange({ ...question, text: ev.target.value })}
+          aria-label={e.text}
+          disabled={regenerating}
+          rows={2}
+          className={`${inputClass} resize-none font-bold text-slate-700`}
+        />
+        <div className="flex flex-col">
+          <button onClick={onMoveUp} disabled={!onMoveUp} aria-label={e.moveUp} className={iconButtonClass}>
+            <i className="fas fa-chevron-up"></i>
+          </button>
+          <button onClick={onMoveDown} disabled={!onMoveDown} aria-label={e.moveDown} className={iconButtonClass}>
+            <i className="fas fa-chevron-down"></i>
+          </button>
+        </div>
+        {onRegenerate && (
+          <button onClick={onRegenerate} disabled={regenerating} aria-label={t.review.regenerate} title={t.review.regenerate} className={iconButtonClass}>
+            <i className={`fas fa-arrows-rotate ${regenerating ? 'animate-spin' : ''}`}></i>
+          </button>
+        )}
+        <button onClick={onRemove} aria-label={e.remove} className="w-8 h-8 rounded-lg text-slate-300 hover:text-rose-500 hover:bg-rose-50 transition-all">
+          <i className="fas fa-trash-can"></i>
+        </button>
+      </div>
+
+      <fieldset disabled={regenerating} className="pl-9 space-y-3">
+        <label className="flex items-center gap-3 text-xs font-bold text-slate-400">
+          {e.kind}
+          <select
+            value={question.kind}
+            onChange={(ev) => onChange(changeKind(question, ev.target.value as QuestionKind))}
+            className="px-3 py-1.5 border-2 border-slate-100 bg-slate-50 rounded-xl text-sm text-slate-600 outline-none focus:border-indigo-500"
+          >
+            {KINDS.map(kind => <option key={kind} value={kind}>{e.kinds[kind]}</option>)}
+          </select>
+        </label>
+
+        {'options' in question && (
+          <div className="space-y-2">
+            {question.options.map((option, i) => (
+              <div key={i} className="flex gap-2">
+                <input
+                  value={option}
+                  onChange={(ev) => setOption(i, ev.target.value)}
+                  aria-label={e.option(i + 1)}
+                  placeholder={e.option(i + 1)}
+                  className={inputClass}
+                />
+                <button
+                  onClick={() => onChange({ ...question, options: question.options.filter((_, j) => j !== i) })}
+                  aria-label={e.removeOption(i + 1)}
+                  className="w-9 rounded-xl text-slate-300 hover:text-rose-500 hover:bg-rose-50 transition-all"
+                >
+                  <i className="fas fa-xmark"></i>
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => onChange({ ...question, options: [...question.options, ''] })}
+              className="text-xs font-bold text-indigo-500 hover:text-indigo-700 flex items-center gap-1"
+            >
+              <i className="fas fa-plus"></i> {e.addOption}
+            </button>
+          </div>
+        )}
+
+        {question.kind === 'scale' && (
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-xs font-bold text-slate-400 space-y-1">
+              <span>{e.min}</span>
+              <input type="number" value={question.min} onChange={(ev) => onChange({ ...question, min: Number(ev.target.value) })} className={inputClass} />
+            </label>
+            <label className="text-xs font-bold text-slate-400 space-y-1">
+              <span>{e.max}</span>
+              <input type="number" value={question.max} onChange={(ev) => onChange({ ...question, max: Number(ev.target.value) })} className={inputClass} />
+            </label>
+            <input
+              value={question.minLabel ?? ''}
+              onChange={(ev) => onChange({ ...question, minLabel: ev.target.value })}
+              aria-label={e.minLabel}
+              placeholder={e.minLabel}
+              className={inputClass}
+            />
+            <input
+              value={question.maxLabel ?? ''}
+              onChange={(ev) => onChange({ ...question, maxLabel: ev.target.value })}
+              aria-label={e.maxLabel}
+              placeholder={e.maxLabel}
+              className={inputClass}
+            />
+          </div>
+        )}
+      </fieldset>
+    </li>
+  );
+};
+
+export default QuestionEditor;
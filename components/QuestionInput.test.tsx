@@ -0,0 +1,67 @@
+import React from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import axe from 'axe-core';
+import { Answer, Question } from '../types';
+import QuestionInput from './QuestionInput';
+
+afterEach(cleanup);
+
+const single: Question = { id: 1, kind: 'single', text: 'Pick one', options: ['Red', 'Green', 'Blue'] };
+const multi: Question = { id: 2, kind: 'multi', text: 'Pick any', options: ['Red', 'Green', 'Blue'] };
+const scale: Question = { id: 3, kind: 'scale', text: 'Rate it', min: 1, max: 5, minLabel: 'Low', maxLabel: 'High' };
+
+/** Renders the input under a heading that names it, the way the answering stage does. */
+const renderInput = (question: Question, answer?: Answer, onChange = vi.fn()) => {
+  const view = render(
+    <div>
+      <h2 id="label">{question.text}</h2>
+      <QuestionInput question={question} answer={answer} onChange={onChange} labelId="label" />
+    </div>
+  );
+  return { ...view, onChange };
+};
+
+const violations = async (container: HTMLElement) =>
+  (await axe.run(container, { rules: { 'color-contrast': { enabled: false } } })).violations.map(v => v.id);
+
+describe('QuestionInput', () => {
+  it('renders single choice as a named radio group with one tab stop', async () => {
+    const { container } = renderInput(single, 'Green');
+    expect(screen.getByRole('radiogroup', { name: 'Pick one' })).toBeTruthy();
+    const radios = screen.getAllByRole('radio');
+    expect(radios.map(r => r.getAttribute('aria-checked'))).toEqual(['false', 'true', 'false']);
+    expect(radios.map(r => r.tabIndex)).toEqual([-1, 0, -1]);
+    expect(await violations(container)).toEqual([]);
+  });
+
+  it('moves the choice and focus with the arrow keys, wrapping around', () => {
+    const { onChange } = renderInput(single, 'Blue');
+    const radios = screen.getAllByRole('radio');
+    fireEvent.keyDown(radios[2], { key: 'ArrowDown' });
+    expect(onChange).toHaveBeenLastCalledWith('Red');
+    expect(document.activeElement).toBe(radios[0]);
+    fireEvent.keyDown(radios[2], { key: 'ArrowUp' });
+    expect(onChange).toHaveBeenLastCalledWith('Green');
+    fireEvent.keyDown(radios[2], { key: 'Home' });
+    expect(onChange).toHaveBeenLastCalledWith('Red');
+  });
+
+  it('renders multi-select as checkboxes in a named group', async () => {
+    const { container, onChange } = renderInput(multi, ['Blue']);
+    expect(screen.getByRole('group', { name: 'Pick any' })).toBeTruthy();
+    const boxes = screen.getAllByRole('checkbox');
+    expect(boxes.map(b => b.getAttribute('aria-checked'))).toEqual(['false', 'false', 'true']);
+    fireEvent.click(boxes[0]);
+    expect(onChange).toHaveBeenLastCalledWith(['Red', 'Blue']);
+    expect(await violations(container)).toEqual([]);
+  });
+
+  it('renders a scale as a radio group whose ends carry their labels', async () => {
+    const { container } = renderInput(scale, 4);
+    expect(screen.getByRole('radiogroup', { name: 'Rate it' })).toBeTruthy();
+    expect(screen.getByRole('radio', { name: '1 (Low)' })).toBeTruthy();
+    expect(screen.getByRole('radio', { name: '4' }).getAttribute('aria-checked')).toBe('true');
+    expect(await violations(container)).toEqual([]);
+  });
+});
@@ -0,0 +1,199 @@
+import React, { useRef } from 'react';
+import { Answer, Question } from '../types';
+import { optionLetter, toggleOption } from '../answers';
+import { useI18n } from '../i18n';
+
+interface QuestionInputProps {
+  question: Question;
+  answer: Answer | undefined;
+  onChange: (answer: Answer) => void;
+  /** Id of the element holding the question text, which names the input group. */
+  labelId: string;
+}
+
+const ARROW_STEPS: Record<string, number> = { ArrowDown: 1, ArrowRight: 1, ArrowUp: -1, ArrowLeft: -1 };
+
+const optionClass = (selected: boolean) =>
+  `p-6 text-left rounded-3xl border-2 transition-all duration-300 flex items-center gap-5 group hover:shadow-lg ${
+    selected
+      ? 'border-indigo-600 bg-indigo-50 ring-4 ring-indigo-50/50'
+      : 'border-slate-100 hover:border-indigo-200 bg-white'
+  }`;
+
+const badgeClass = (selected: boolean) =>
+  `flex-shrink-0 w-10 h-10 rounded-2xl flex items-center justify-center font-black text-lg transition-all ${
+    selected
+      ? 'bg-indigo-600 text-white shadow-md'
+      : 'bg-slate-50 text-slate-400 group-hover:bg-indigo-100 group-hover:text-indigo-600'
+  }`;
+
+const labelClass = (selected: boolean) =>
+  `font-bold text-lg md:text-xl ${selected ? 'text-indigo-900' : 'text-slate-600'}`;
+
+const QuestionInput: React.FC<QuestionInputProps> = ({ question, answer, onChange, labelId }) => {
+  const { t } = useI18n();
+  const radiosRef = useRef<(HTMLButtonElement | null)[]>([]);
+
+  // Radio groups keep a single tab stop; the arrow keys move the choice within the group, as native radios do.
+  const radioGroupKeys = <T extends Answer>(values: T[], selected: number) => (e: React.KeyboardEvent) => {
+    const target = e.key === 'Home' ? 0 : e.key === 'End' ? values.length - 1
+      : e.key in ARROW_STEPS ? (Math.max(selected, 0) + ARROW_STEPS[e.key] + values.length) % values.length : null;
+    if (target === null) return;
+    e.preventDefault();
+    onChange(values[target]);
+    radiosRef.current[target]?.focus();
+  };
+  const tabStop = (idx: number, selected: number) => (idx === Math.max(selected, 0) ? 0 : -1);
+
+  switch (question.kind) {
+    case 'single': {
+      const selected = question.options.findIndex(o => o === answer);
+      return (
+        <div className="grid grid-cols-1 gap-4 mt-6" role="radiogroup" aria-labelledby={labelId} onKeyDown={radioGroupKeys(question.options, selected)}>
+          {question.options.map((option, idx) => (
+            <button
+              key={idx}
+              ref={el => { radiosRef.current[idx] = el; }}
+              role="radio"
+              aria-checked={idx === selected}
+              tabIndex={tabStop(idx, selected)}
+              aria-keyshortcuts={`${optionLetter(idx)} ${idx + 1}`}
+              onClick={() => onChange(option)}
+              className={optionClass(idx === selected)}
+            >
+              <span className={badgeClass(idx === selected)} aria-hidden="true">{optionLetter(idx)}</span>
+              <span className={labelClass(idx === selected)}>{option}</span>
+            </button>
+          ))}
+        </div>
+      );
+    }
+
+    case 'multi': {
+      const selected = Array.isArray(answer) ? answer : [];
+      const hintId = `${labelId}-hint`;
+      return (
+        <div className="grid grid-cols-1 gap-4 mt-6" role="group" aria-labelledby={labelId} aria-describedby={hintId}>
+          <p id={hintId} className="text-sm font-semibold text-slate-400">{t.questionInput.multiHint}</p>
+          {question.options.map((option, idx) => {
+            const isOn = selected.includes(option);
+            return (
+              <button
+                key={idx}
+                role="checkbox"
+                aria-checked={isOn}
+                aria-keyshortcuts={`${optionLetter(idx)} ${idx + 1}`}
+                onClick={() => onChange(toggleOption(question, answer, option))}
+                className={optionClass(isOn)}
+              >
+                <span className={badgeClass(isOn)} aria-hidden="true">
+                  <i className={`fas ${isOn ? 'fa-check' : 'fa-plus'} text-base`}></i>
+                </span>
+                <span className={labelClass(isOn)}>{option}</span>
+              </button>
+            );
+          })}
+        </div>
+      );
+    }
+
+    case 'scale': {
+      const values = Array.from({ length: question.max - question.min + 1 }, (_, i) => question.min + i);
+      const selected = values.indexOf(answer as number);
+      const valueLabel = (value: number) =>
+        value === question.min && question.minLabel ? `${value} (${question.minLabel})`
+          : value === question.max && question.maxLabel ? `${value} (${question.maxLabel})` : undefined;
+      return (
+        <div className="space-y-4 mt-6">
+          <div className="flex gap-3" role="radiogroup" aria-labelledby={labelId} onKeyDown={radioGroupKeys(values, selected)}>
+            {values.map((value, idx) => (
+              <button
+                key={value}
+                ref={el => { radiosRef.current[idx] = el; }}
+                role="radio"
+                aria-checked={idx === selected}
+                aria-label={valueLabel(value)}
+                tabIndex={tabStop(idx, selected)}
+                onClick={() => onChange(value)}
+                className={`flex-1 py-6 rounded-3xl border-2 font-black text-2xl transition-all duration-300 ${
+                  answer === value
+                    ? 'border-indigo-600 bg-indigo-600 text-white shadow-lg'
+                    : 'border-slate-100 text-slate-400 hover:border-indigo-200 hover:text-indigo-600'
+                }`}
+              >
+                {value}
+              </button>
+            ))}
+          </div>
+          {(question.minLabel || question.maxLabel) && (
+            <div className="flex justify-between text-sm font-semibold text-slate-400" aria-hidden="true">
+              <span>{question.minLabel}</span>
+              <span>{question.maxLabel}</span>
+            </div>
+          )}
+        </div>
+      );
+    }
+
+    case 'ranking': {
+      const ranked = Array.isArray(answer) && answer.length === question.options.length ? answer : null;
+      const order = ranked ?? question.options;
+      const move = (from: number, to: number) => {
+        const next = [...order];
+        const [item] = next.splice(from, 1);
+        next.splice(to, 0, item);
+        onChange(next);
+      };
+      return (
+        <div className="space-y-4 mt-6">
+          <p id={`${labelId}-hint`} className="text-sm font-semibold text-slate-400">{t.questionInput.rankingHint}</p>
+          <ol className="space-y-3" aria-labelledby={labelId} aria-describedby={`${labelId}-hint`}>
+            {order.map((option, idx) => (
+              <li key={option} className={`${optionClass(!!ranked)} p-4 hover:shadow-none`}>
+                <span className={badgeClass(!!ranked)}>{idx + 1}</span>
+                <span className={`flex-1 ${labelClass(!!ranked)}`}>{option}</span>
+                <button
+                  onClick={() => move(idx, idx - 1)}
+                  disabled={idx === 0}
+                  aria-label={t.questionInput.moveUp}
+                  className="w-10 h-10 rounded-xl text-slate-400 hover:bg-indigo-100 hover:text-indigo-600 disabled:opacity-20"
+                >
+                  <i className="fas fa-chevron-up"></i>
+                </button>
+                <button
+                  onClick={() => move(idx, idx + 1)}
+                  disabled={idx === order.length - 1}
+                  aria-label={t.questionInput.moveDown}
+                  className="w-10 h-10 rounded-xl text-slate-400 hover:bg-indigo-100 hover:text-indigo-600 disabled:opacity-20"
+                >
+                  <i className="fas fa-chevron-down"></i>
+                </button>
+              </li>
+            ))}
+          </ol>
+          {!ranked && (
+            <button
+              onClick={() => onChange([...question.options])}
+              className="w-full py-3 rounded-2xl border-2 border-dashed border-slate-200 text-slate-500 font-bold hover:border-indigo-300 hover:text-indigo-600 transition-all"
+            >
+              <i className="fas fa-check mr-2"></i> {t.questionInput.confirmOrder}
+            </button>
+          )}
+        </div>
+      );
+    }
+
+    case 'text':
+      return (
+        <textarea
+          className="w-full mt-6 p-6 border-2 border-slate-100 bg-slate-50 rounded-3xl focus:border-indigo-500 focus:bg-white focus:ring-4 focus:ring-indigo-50/50 transition-all text-lg h-36 resize-none outline-none shadow-inner"
+          placeholder={t.questionInput.textPlaceholder}
+          aria-labelledby={labelId}
+          value={typeof answer === 'string' ? answer : ''}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      );
+  }
+};
+
+export default QuestionInput;
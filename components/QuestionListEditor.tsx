@@ -0,0 +1,59 @@
+import React from 'react';
+import { Question } from '../types';
+import { blankQuestion } from '../templates';
+import { useI18n } from '../i18n';
+import QuestionEditor from './QuestionEditor';
+
+interface QuestionListEditorProps {
+  questions: Question[];
+  onChange: (questions: Question[]) => void;
+  /** When given, each question offers to be regenerated by the model. */
+  onRegenerate?: (index: number) => void;
+  /** Id of the question being regenerated, if any. */
+  regeneratingId?: number | null;
+}
+
+/** Add, remove, reorder and reword a whole question set. */
+const QuestionListEditor: React.FC<QuestionListEditorProps> = ({ questions, onChange, onRegenerate, regeneratingId = null }) => {
+  const { t } = useI18n();
+
+  const replace = (index: number, question: Question) =>
+    onChange(questions.map((q, i) => (i === index ? question : q)));
+
+  const move = (index: number, delta: number) => {
+    const next = [...questions];
+    [next[index], next[index + delta]] = [next[index + delta], next[index]];
+    onChange(next);
+  };
+
+  // New questions take an id past every existing one so answers never collide.
+  const add = () => onChange([...questions, blankQuestion(Math.max(0, ...questions.map(q => q.id)) + 1)]);
+
+  return (
+    <div className="space-y-3">
+      <ol className="space-y-3">
+        {questions.map((question, i) => (
+          <QuestionEditor
+            key={question.id}
+            question={question}
+            position={i + 1}
+            onChange={(q) => replace(i, q)}
+            onRemove={() => onChange(questions.filter((_, j) => j !== i))}
+            onMoveUp={i > 0 ? () => move(i, -1) : undefined}
+            onMoveDown={i < questions.length - 1 ? () => move(i, 1) : undefined}
+            onRegenerate={onRegenerate && (() => onRegenerate(i))}
+            regenerating={regeneratingId === question.id}
+          />
+        ))}
+      </ol>
+      <button
+        onClick={add}
+        className="w-full py-3 rounded-2xl border-2 border-dashed border-slate-200 text-slate-400 font-bold text-sm hover:border-indigo-300 hover:text-indigo-600 transition-all flex items-center justify-center gap-2"
+      >
+        <i className="fas fa-plus"></i> {t.questionEditor.addQuestion}
+      </button>
+    </div>
+  );
+};
+
+export default QuestionListEditor;
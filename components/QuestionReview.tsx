@@ -0,0 +1,96 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Question } from '../types';
+import { DecisionContext, regenerateQuestion } from '../geminiService';
+import { isUsableQuestion } from '../templates';
+import { describeError, useI18n } from '../i18n';
+import QuestionListEditor from './QuestionListEditor';
+
+interface QuestionReviewProps {
+  context: DecisionContext;
+  questions: Question[];
+  onChange: (questions: Question[]) => void;
+  onConfirm: () => void;
+  onSaveTemplate: () => void;
+}
+
+/** Lets the user tidy up the generated questions before answering them. */
+const QuestionReview: React.FC<QuestionReviewProps> = ({ context, questions, onChange, onConfirm, onSaveTemplate }) => {
+  const { t } = useI18n();
+  const [regeneratingId, setRegeneratingId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // Edits made while a question regenerates must survive its replacement landing.
+  const latestRef = useRef(questions);
+  latestRef.current = questions;
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const regenerate = async (index: number) => {
+    if (regeneratingId !== null) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const id = questions[index].id;
+    setRegeneratingId(id);
+    setError(null);
+    try {
+      const replacement = await regenerateQuestion(context, questions, index, controller.signal);
+      // The list may have been reordered meanwhile, so the question is found again by id.
+      onChange(latestRef.current.map(q => (q.id === id ? replacement : q)));
+    } catch (err) {
+      if (!controller.signal.aborted) setError(describeError(t, err, t.review.regenerateFailed));
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setRegeneratingId(null);
+    }
+  };
+
+  const complete = questions.length > 0 && questions.every(isUsableQuestion);
+
+  return (
+    <div className="space-y-8 animate-fadeIn">
+      <div className="space-y-2">
+        <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+          <i className="fas fa-list-check text-indigo-500"></i> {t.review.heading}
+        </h2>
+        <p className="text-sm text-slate-400">{t.review.intro(questions.length)}</p>
+      </div>
+
+      {regeneratingId !== null && (
+        <p className="text-sm font-bold text-indigo-600 flex items-center gap-2" aria-live="polite">
+          <i className="fas fa-spinner animate-spin"></i> {t.review.regenerating}
+        </p>
+      )}
+      {error && <p className="text-sm font-semibold text-rose-600">{error}</p>}
+
+      <QuestionListEditor
+        questions={questions}
+        onChange={onChange}
+        onRegenerate={regenerate}
+        regeneratingId={regeneratingId}
+      />
+
+      {!complete && (
+        <p className="text-sm font-semibold text-amber-600">{questions.length > 0 ? t.review.incomplete : t.review.empty}</p>
+      )}
+
+      <div className="space-y-3">
+        <button
+          onClick={onConfirm}
+          disabled={!complete || regeneratingId !== null}
+          className="w-full py-5 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-200 disabled:text-slate-400 text-white font-bold text-xl rounded-3xl shadow-xl transform transition active:scale-[0.98] flex items-center justify-center gap-3"
+        >
+          {t.review.start} <i className="fas fa-chevron-right"></i>
+        </button>
+        <button
+          onClick={onSaveTemplate}
+          disabled={!complete}
+          className="w-full py-3 rounded-2xl text-slate-400 font-bold text-sm hover:bg-slate-50 hover:text-indigo-600 disabled:opacity-40 transition-all flex items-center justify-center gap-2"
+        >
+          <i className="fas fa-layer-group"></i> {t.templates.saveAs}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default QuestionReview;
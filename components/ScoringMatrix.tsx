@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { DecisionMatrix } from '../types';
+import { MAX_WEIGHT, MIN_WEIGHT, rankAlternatives } from '../matrix';
+import { useI18n } from '../i18n';
+
+interface ScoringMatrixProps {
+  matrix: DecisionMatrix;
+}
+
+const ScoringMatrix: React.FC<ScoringMatrixProps> = ({ matrix }) => {
+  const { t } = useI18n();
+  const initialWeights = matrix.criteria.map(c => c.weight);
+  const [weights, setWeights] = useState(initialWeights);
+
+  const ranking = rankAlternatives(matrix, weights);
+  const changed = weights.some((w, i) => w !== initialWeights[i]);
+
+  const setWeight = (index: number, value: number) => {
+    setWeights(prev => prev.map((w, i) => (i === index ? value : w)));
+  };
+
+  return (
+    <div className="bg-white p-8 rounded-[2rem] border border-slate-100 shadow-sm space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+          <i className="fas fa-table-cells text-indigo-500"></i> {t.matrix.heading}
+        </h3>
+        {changed && (
+          <button
+            onClick={() => setWeights(initialWeights)}
+            className="text-xs font-bold text-slate-400 hover:text-indigo-600 flex items-center gap-1"
+          >
+            <i className="fas fa-rotate-left"></i> {t.matrix.resetWeights}
+          </button>
+        )}
+      </div>
+
+      <ol className="space-y-2">
+        {ranking.map((alt, i) => (
+          <li key={alt.name} className="flex items-center gap-4">
+            <span className={`w-8 h-8 rounded-xl flex items-center justify-center font-black ${
+              i === 0 ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-400'
+            }`}>{i + 1}</span>
+            <span className="w-32 font-bold text-slate-700 truncate">{alt.name}</span>
+            <div className="flex-1 h-2.5 bg-slate-100 rounded-full overflow-hidden">
+              <div
+                className={`h-full transition-all duration-500 ${i === 0 ? 'bg-indigo-600' : 'bg-indigo-300'}`}
+                style={{ width: `${alt.total * 10}%` }}
+              ></div>
+            </div>
+            <span className="w-10 text-right font-black text-slate-600">{alt.total.toFixed(1)}</span>
+          </li>
+        ))}
+      </ol>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-slate-400 text-xs uppercase tracking-wider">
+              <th className="text-left font-black py-2">{t.matrix.criterion}</th>
+              <th className="text-left font-black py-2 w-40">{t.matrix.weight}</th>
+              {matrix.alternatives.map(alt => (
+                <th key={alt.name} className="text-center font-black py-2 px-2">{alt.name}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {matrix.criteria.map((criterion, ci) => (
+              <tr key={criterion.name} className="border-t border-slate-100">
+                <td className="py-3 pr-2">
+                  <p className="font-bold text-slate-700">{criterion.name}</p>
+                  {criterion.questionIds.length > 0 && (
+                    <p className="text-xs text-slate-400">{criterion.questionIds.map(id => `Q${id}`).join(', ')}</p>
+                  )}
+                </td>
+                <td className="py-3">
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="range"
+                      min={MIN_WEIGHT}
+                      max={MAX_WEIGHT}
+                      value={weights[ci]}
+                      onChange={(e) => setWeight(ci, Number(e.target.value))}
+                      aria-label={t.matrix.weightOf(criterion.name)}
+                      className="flex-1 accent-indigo-600"
+                    />
+                    <span className="w-4 font-black text-indigo-600">{weights[ci]}</span>
+                  </div>
+                </td>
+                {matrix.alternatives.map(alt => (
+                  <td key={alt.name} className="py-3 text-center font-bold text-slate-600">{alt.scores[ci]}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-slate-400">{t.matrix.hint}</p>
+    </div>
+  );
+};
+
+export default ScoringMatrix;
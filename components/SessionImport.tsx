@@ -0,0 +1,48 @@
+import React, { useRef } from 'react';
+import { DecisionState } from '../types';
+import { parseSessionText, SessionImportError } from '../sessionExport';
+import { useI18n } from '../i18n';
+
+interface SessionImportProps {
+  onImport: (session: DecisionState) => void;
+  onError: (message: string) => void;
+  /** Button text; defaults to importing a whole session. */
+  label?: string;
+}
+
+const SessionImport: React.FC<SessionImportProps> = ({ onImport, onError, label }) => {
+  const { t } = useI18n();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File) => {
+    try {
+      onImport(parseSessionText(await file.text()));
+    } catch (e) {
+      onError(e instanceof SessionImportError ? t.importErrors[e.reason] : t.importSession.fileFailed);
+    }
+  };
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".json,.md,application/json,text/markdown"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) handleFile(file);
+        }}
+      />
+      <button
+        onClick={() => inputRef.current?.click()}
+        className="w-full py-3 rounded-2xl text-slate-400 font-bold text-sm hover:bg-slate-50 hover:text-indigo-600 transition-all flex items-center justify-center gap-2"
+      >
+        <i className="fas fa-file-import"></i> {label ?? t.importSession.button}
+      </button>
+    </>
+  );
+};
+
+export default SessionImport;
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { AnalysisDepth, GenerationSettings } from '../types';
+import { ModelTier } from '../providers';
+import { ANALYSIS_DEPTHS, matchPreset, MODEL_TIERS, normalizeSettings, PRESET_NAMES, PRESETS, SETTING_LIMITS } from '../settings';
+import { useI18n } from '../i18n';
+
+interface SettingsPanelProps {
+  settings: GenerationSettings;
+  onChange: (settings: GenerationSettings) => void;
+}
+
+const fieldClass = 'w-full px-3 py-2 border-2 border-slate-100 bg-slate-50 rounded-xl text-sm text-slate-600 outline-none focus:border-indigo-500 focus:bg-white transition-all';
+
+/** Picks a generation preset for the session, or fine-tunes the individual settings. */
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange }) => {
+  const { t } = useI18n();
+  const s = t.settings;
+  const preset = matchPreset(settings);
+  const [expanded, setExpanded] = useState(preset === null);
+
+  // Number fields call this on blur, so a half-typed value is not clamped while it is being entered.
+  const update = (changes: Partial<GenerationSettings>) => onChange(normalizeSettings({ ...settings, ...changes }));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-bold text-slate-600 flex items-center gap-2">
+          <i className="fas fa-sliders text-indigo-500"></i> {s.heading}
+        </h3>
+        <span className="text-xs font-bold text-slate-400">
+          {preset === null ? s.custom : s.summary(settings.questionCount, s.models[settings.analysisModel], s.depths[settings.depth])}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 p-1.5 bg-slate-100 rounded-2xl" role="radiogroup" aria-label={s.heading}>
+        {PRESET_NAMES.map(name => (
+          <button
+            key={name}
+            role="radio"
+            aria-checked={preset === name}
+            onClick={() => onChange(PRESETS[name])}
+            className={`py-2.5 rounded-xl font-bold text-sm transition-all ${
+              preset === name ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'
+            }`}
+          >
+            {s.presets[name]}
+          </button>
+        ))}
+      </div>
+
+      <button
+        onClick={() => setExpanded(!expanded)}
+        aria-expanded={expanded}
+        className="text-xs font-bold text-indigo-500 hover:text-indigo-700 flex items-center gap-1"
+      >
+        <i className={`fas fa-chevron-${expanded ? 'up' : 'down'}`}></i> {s.customize}
+      </button>
+
+      {expanded && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 rounded-2xl border-2 border-slate-100">
+          {([['questionModel', s.questionModel], ['analysisModel', s.analysisModel]] as const).map(([key, label]) => (
+            <label key={key} className="text-xs font-bold text-slate-400 space-y-1">
+              <span>{label}</span>
+              <select value={settings[key]} onChange={(e) => update({ [key]: e.target.value as ModelTier })} className={fieldClass}>
+                {MODEL_TIERS.map(tier => <option key={tier} value={tier}>{s.models[tier]}</option>)}
+              </select>
+            </label>
+          ))}
+
+          <label className="text-xs font-bold text-slate-400 space-y-1">
+            <span>{s.questionCount}</span>
+            <input
+              key={settings.questionCount}
+              type="number"
+              min={SETTING_LIMITS.questionCount.min}
+              max={SETTING_LIMITS.questionCount.max}
+              defaultValue={settings.questionCount}
+              onBlur={(e) => update({ questionCount: Number(e.target.value) })}
+              className={fieldClass}
+            />
+          </label>
+
+          <fieldset className="text-xs font-bold text-slate-400 space-y-1">
+            <legend>{s.options}</legend>
+            <div className="grid grid-cols-2 gap-2">
+              {([['minOptions', s.minOptions], ['maxOptions', s.maxOptions]] as const).map(([key, label]) => (
+                <input
+                  key={`${key}:${settings[key]}`}
+                  type="number"
+                  aria-label={`${s.options}: ${label}`}
+                  placeholder={label}
+                  min={SETTING_LIMITS.options.min}
+                  max={SETTING_LIMITS.options.max}
+                  defaultValue={settings[key]}
+                  onBlur={(e) => update({ [key]: Number(e.target.value) })}
+                  className={fieldClass}
+                />
+              ))}
+            </div>
+          </fieldset>
+
+          <label className="text-xs font-bold text-slate-400 space-y-1">
+            <span>{s.depth}</span>
+            <select value={settings.depth} onChange={(e) => update({ depth: e.target.value as AnalysisDepth })} className={fieldClass}>
+              {ANALYSIS_DEPTHS.map(depth => <option key={depth} value={depth}>{s.depths[depth]}</option>)}
+            </select>
+          </label>
+
+          <label className="text-xs font-bold text-slate-400 space-y-1">
+            <span className="flex justify-between">{s.temperature} <span className="text-slate-600">{settings.temperature.toFixed(1)}</span></span>
+            <input
+              type="range"
+              min={SETTING_LIMITS.temperature.min}
+              max={SETTING_LIMITS.temperature.max}
+              step={0.1}
+              value={settings.temperature}
+              onChange={(e) => update({ temperature: Number(e.target.value) })}
+              className="w-full accent-indigo-600"
+            />
+            <span className="block font-medium">{s.temperatureHint}</span>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { QuestionTemplate, TemplateCategory } from '../types';
+import { isUsableQuestion, saveTemplate, TEMPLATE_CATEGORIES } from '../templates';
+import { useI18n } from '../i18n';
+import QuestionListEditor from './QuestionListEditor';
+
+interface TemplateEditorProps {
+  template: QuestionTemplate;
+  /** True when the template has not been saved before. */
+  isNew: boolean;
+  onSaved: (template: QuestionTemplate) => void;
+  onCancel: () => void;
+}
+
+const TemplateEditor: React.FC<TemplateEditorProps> = ({ template, isNew, onSaved, onCancel }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState(template);
+
+  const complete = draft.name.trim() !== '' && draft.questions.length > 0 && draft.questions.every(isUsableQuestion);
+
+  const save = () => {
+    if (!complete) return;
+    const saved = saveTemplate(draft);
+    if (saved) onSaved(saved);
+  };
+
+  return (
+    <section className="space-y-6 animate-fadeIn">
+      <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+        <i className="fas fa-layer-group text-indigo-500"></i> {isNew ? t.templates.newHeading : t.templates.editHeading}
+      </h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <label className="md:col-span-2 text-xs font-bold text-slate-400 space-y-1">
+          <span>{t.templates.name}</span>
+          <input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder={t.templates.namePlaceholder}
+            className="w-full px-4 py-3 border-2 border-slate-100 bg-slate-50 rounded-2xl focus:border-indigo-500 focus:bg-white outline-none text-base text-slate-700 transition-all"
+          />
+        </label>
+        <label className="text-xs font-bold text-slate-400 space-y-1">
+          <span>{t.templates.category}</span>
+          <select
+            value={draft.category}
+            onChange={(e) => setDraft({ ...draft, category: e.target.value as TemplateCategory })}
+            className="w-full px-4 py-3 border-2 border-slate-100 bg-slate-50 rounded-2xl focus:border-indigo-500 outline-none text-base text-slate-700"
+          >
+            {TEMPLATE_CATEGORIES.map(c => <option key={c} value={c}>{t.templates.categories[c]}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <QuestionListEditor questions={draft.questions} onChange={(questions) => setDraft({ ...draft, questions })} />
+
+      {!complete && draft.questions.length > 0 && (
+        <p className="text-sm font-semibold text-amber-600">{t.templates.incomplete}</p>
+      )}
+
+      <div className="flex flex-col md:flex-row gap-3">
+        <button
+          onClick={onCancel}
+          className="flex-1 py-4 rounded-2xl border-2 border-slate-100 text-slate-500 font-bold hover:bg-slate-50 transition-all"
+        >
+          {t.templates.cancel}
+        </button>
+        <button
+          onClick={save}
+          disabled={!complete}
+          className="flex-1 py-4 rounded-2xl bg-indigo-600 hover:bg-indigo-700 text-white font-bold disabled:bg-slate-200 disabled:text-slate-400 transition-all flex items-center justify-center gap-2"
+        >
+          <i className="fas fa-floppy-disk"></i> {template.builtIn ? t.templates.saveCopy : t.templates.save}
+        </button>
+      </div>
+    </section>
+  );
+};
+
+export default TemplateEditor;
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { QuestionTemplate } from '../types';
+import { deleteTemplate, listTemplates } from '../templates';
+import { useI18n } from '../i18n';
+
+interface TemplateLibraryProps {
+  /** True while starting is not possible yet, e.g. a group still lacks participants. */
+  disabled: boolean;
+  onUse: (template: QuestionTemplate) => void;
+  onEdit: (template: QuestionTemplate) => void;
+}
+
+const TemplateLibrary: React.FC<TemplateLibraryProps> = ({ disabled, onUse, onEdit }) => {
+  const { locale, t } = useI18n();
+  const [templates, setTemplates] = useState(() => listTemplates(locale));
+
+  const handleDelete = (template: QuestionTemplate) => {
+    if (!window.confirm(t.templates.confirmDelete(template.name))) return;
+    deleteTemplate(template.id);
+    setTemplates(listTemplates(locale));
+  };
+
+  return (
+    <section className="space-y-4 pt-8 border-t border-slate-100">
+      <div className="space-y-1">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <i className="fas fa-layer-group text-indigo-500"></i> {t.templates.heading}
+        </h3>
+        <p className="text-sm text-slate-400">{t.templates.intro}</p>
+      </div>
+
+      {templates.length === 0 ? (
+        <p className="text-sm text-slate-400 text-center py-6">{t.templates.empty}</p>
+      ) : (
+        <ul className="space-y-3">
+          {templates.map(template => (
+            <li key={template.id} className="flex items-center gap-3 p-4 rounded-2xl border-2 border-slate-100 hover:border-indigo-200 transition-all">
+              <div className="flex-1 min-w-0">
+                <p className="font-bold text-slate-700 truncate">{template.name}</p>
+                <p className="text-xs text-slate-400 mt-1 flex items-center gap-2">
+                  <span className="px-2 py-0.5 rounded-full bg-slate-100 font-bold">{t.templates.categories[template.category]}</span>
+                  {template.builtIn && <span className="px-2 py-0.5 rounded-full bg-indigo-50 text-indigo-500 font-bold">{t.templates.builtIn}</span>}
+                  {t.templates.questionCount(template.questions.length)}
+                </p>
+              </div>
+              <button
+                onClick={() => onEdit(template)}
+                className="w-9 h-9 rounded-xl text-slate-300 hover:text-indigo-600 hover:bg-indigo-50 transition-all"
+                aria-label={t.templates.edit}
+              >
+                <i className="fas fa-pen"></i>
+              </button>
+              {!template.builtIn && (
+                <button
+                  onClick={() => handleDelete(template)}
+                  className="w-9 h-9 rounded-xl text-slate-300 hover:text-rose-500 hover:bg-rose-50 transition-all"
+                  aria-label={t.templates.delete}
+                >
+                  <i className="fas fa-trash-can"></i>
+                </button>
+              )}
+              <button
+                onClick={() => onUse(template)}
+                disabled={disabled}
+                className="px-4 py-2 rounded-xl bg-indigo-50 text-indigo-600 font-bold text-sm hover:bg-indigo-100 disabled:opacity-40 transition-all"
+              >
+                {t.templates.use}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default TemplateLibrary;
@@ -0,0 +1,19 @@
+import { BiasKind, Question } from "./types";
+
+export const BIAS_KINDS: BiasKind[] = ['sunkCost', 'statusQuo', 'lossAversion', 'confirmation', 'anchoring', 'overconfidence', 'socialProof', 'other'];
+
+/** Below this score the result offers clarifying questions. */
+export const LOW_CONFIDENCE = 60;
+const HIGH_CONFIDENCE = 80;
+
+/** How many clarifying questions are asked at a time. */
+export const CLARIFYING_QUESTION_COUNT = 3;
+
+export type ConfidenceLevel = 'low' | 'medium' | 'high';
+
+export const confidenceLevel = (score: number): ConfidenceLevel =>
+  score < LOW_CONFIDENCE ? 'low' : score < HIGH_CONFIDENCE ? 'medium' : 'high';
+
+/** 1-based positions of the questions with `ids`, the numbers the user sees; unknown ids are skipped. */
+export const questionNumbers = (questions: Question[], ids: number[]) =>
+  ids.map(id => questions.findIndex(q => q.id === id) + 1).filter(n => n > 0).sort((a, b) => a - b);
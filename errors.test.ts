@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { AuthError, ConfigError, errorFromStatus, RateLimitError, RequestError, ServiceUnavailableError, TimeoutError, toServiceError } from './errors';
+import { withRetry } from './retry';
+
+describe('errorFromStatus', () => {
+  it.each([
+    [401, AuthError],
+    [403, AuthError],
+    [404, ConfigError],
+    [408, TimeoutError],
+    [429, RateLimitError],
+    [400, RequestError],
+    [422, RequestError],
+    [500, ServiceUnavailableError],
+    [503, ServiceUnavailableError],
+    [504, TimeoutError]
+  ])('maps %i to %o', (status, type) => {
+    expect(errorFromStatus(status)).toBeInstanceOf(type);
+  });
+
+  it('only treats 5xx responses as retryable outages', () => {
+    expect(errorFromStatus(400).retryable).toBe(false);
+    expect(errorFromStatus(502).retryable).toBe(true);
+  });
+});
+
+describe('toServiceError', () => {
+  it('maps SDK errors by their status', () => {
+    expect(toServiceError(Object.assign(new Error('INVALID_ARGUMENT'), { status: 400 }))).toBeInstanceOf(RequestError);
+  });
+
+  it('treats network failures as the service being unavailable', () => {
+    expect(toServiceError(new TypeError('Failed to fetch'))).toBeInstanceOf(ServiceUnavailableError);
+  });
+});
+
+describe('withRetry', () => {
+  it('does not retry a rejected request', async () => {
+    let calls = 0;
+    const call = async () => {
+      calls++;
+      throw Object.assign(new Error('Bad Request'), { status: 400 });
+    };
+    await expect(withRetry(call, { timeoutMs: 1000, policy: { attempts: 3, baseDelayMs: 0, maxDelayMs: 0 } })).rejects.toBeInstanceOf(RequestError);
+    expect(calls).toBe(1);
+  });
+});
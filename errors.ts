@@ -0,0 +1,123 @@
+import { LLMTask } from "./providers/types";
+
+export type ErrorKind = 'config' | 'auth' | 'request' | 'rateLimit' | 'timeout' | 'unavailable' | 'safety' | 'malformedOutput';
+
+/**
+ * Base class for every failure the decision service reports. `message` is for logs; the UI
+ * shows a translated message for `kind` instead. `retryable` marks transient failures that
+ * are retried automatically with backoff.
+ */
+export class DecisionServiceError extends Error {
+  readonly kind: ErrorKind;
+  readonly retryable: boolean;
+
+  constructor(kind: ErrorKind, message: string, retryable: boolean, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'DecisionServiceError';
+    this.kind = kind;
+    this.retryable = retryable;
+  }
+}
+
+/** The backend is not configured, e.g. no API key or endpoint, or the endpoint or model does not exist. */
+export class ConfigError extends DecisionServiceError {
+  constructor(options?: { cause?: unknown }) {
+    super('config', "The service is not configured (missing API key or endpoint, or unknown endpoint or model).", false, options);
+    this.name = 'ConfigError';
+  }
+}
+
+/** The API key was rejected or the selected project cannot use the model. */
+export class AuthError extends DecisionServiceError {
+  constructor(options?: { cause?: unknown }) {
+    super('auth', "The service rejected the credentials.", false, options);
+    this.name = 'AuthError';
+  }
+}
+
+/** The service refused the request itself (a 4xx other than auth, not-found, timeout or rate limit); sending it again will not help. */
+export class RequestError extends DecisionServiceError {
+  constructor(options?: { cause?: unknown }) {
+    super('request', "The service rejected the request.", false, options);
+    this.name = 'RequestError';
+  }
+}
+
+export class RateLimitError extends DecisionServiceError {
+  constructor(options?: { cause?: unknown }) {
+    super('rateLimit', "The service is rate limiting requests.", true, options);
+    this.name = 'RateLimitError';
+  }
+}
+
+export class TimeoutError extends DecisionServiceError {
+  constructor(options?: { cause?: unknown }) {
+    super('timeout', "The service did not respond in time.", true, options);
+    this.name = 'TimeoutError';
+  }
+}
+
+/** Network failures and 5xx responses. */
+export class ServiceUnavailableError extends DecisionServiceError {
+  constructor(options?: { cause?: unknown }) {
+    super('unavailable', "The service is unreachable or failing.", true, options);
+    this.name = 'ServiceUnavailableError';
+  }
+}
+
+/** The model refused to answer because the prompt or response tripped a safety filter. */
+export class SafetyBlockedError extends DecisionServiceError {
+  constructor(options?: { cause?: unknown }) {
+    super('safety', "The response was blocked by a safety filter.", false, options);
+    this.name = 'SafetyBlockedError';
+  }
+}
+
+/**
+ * Thrown when the model's output cannot be parsed or repaired into the expected shape,
+ * even after re-prompting. `issues` lists what was wrong with the last attempt.
+ */
+export class ModelOutputError extends DecisionServiceError {
+  readonly task: LLMTask;
+  readonly issues: string[];
+
+  constructor(task: LLMTask, issues: string[]) {
+    super('malformedOutput', `The model returned invalid ${task} output: ${issues.join(' ')}`, false);
+    this.name = 'ModelOutputError';
+    this.task = task;
+    this.issues = issues;
+  }
+}
+
+export const isAbortError = (err: unknown) =>
+  err instanceof DOMException && err.name === 'AbortError';
+
+/**
+ * Maps an HTTP status from any backend onto the taxonomy. A 404 means a wrong base URL or model
+ * name, not bad credentials; AI Studio's own not-found message is caught in `toServiceError`.
+ * Only 5xx responses count as the service being down; other 4xx responses are not retried.
+ */
+export const errorFromStatus = (status: number, cause?: unknown): DecisionServiceError => {
+  if (status === 401 || status === 403) return new AuthError({ cause });
+  if (status === 404) return new ConfigError({ cause });
+  if (status === 429) return new RateLimitError({ cause });
+  if (status === 408 || status === 504) return new TimeoutError({ cause });
+  if (status >= 400 && status < 500) return new RequestError({ cause });
+  return new ServiceUnavailableError({ cause });
+};
+
+/**
+ * Normalizes anything a provider throws into a `DecisionServiceError`. Abort errors are
+ * passed through untouched so cancellation is never mistaken for a failure.
+ */
+export const toServiceError = (err: unknown): unknown => {
+  if (err instanceof DecisionServiceError || isAbortError(err)) return err;
+  const status = typeof (err as { status?: unknown })?.status === 'number' ? (err as { status: number }).status : null;
+  const message = err instanceof Error ? err.message : String(err);
+  // AI Studio reports a missing or revoked key selection this way rather than with a 401.
+  if (message.includes("Requested entity was not found.")) return new AuthError({ cause: err });
+  if (/RESOURCE_EXHAUSTED|quota/i.test(message)) return new RateLimitError({ cause: err });
+  if (status !== null) return errorFromStatus(status, err);
+  // fetch() rejects with a TypeError when the network is down; treat the rest the same way.
+  return new ServiceUnavailableError({ cause: err });
+};
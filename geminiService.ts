@@ -1,108 +1,797 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { Question } from "./types";
+import { Schema, Type } from "@google/genai";
+import { AnalysisDepth, AnalysisResult, Answer, Attachment, FollowUpMessage, GenerationSettings, Locale, Participant, Question, QuestionBatch } from "./types";
+import { describeQuestion, formatAnswer } from "./answers";
+import { GenerateRequest, getProvider, InlineFile, ModelTier } from "./providers";
+import { ModelOutputError } from "./errors";
+import { withRetry } from "./retry";
+import { trackCall } from "./telemetry";
+import { LANGUAGE_NAMES } from "./i18n";
+import { BIAS_KINDS, CLARIFYING_QUESTION_COUNT } from "./confidence";
+import {
+  parseModelJson,
+  parsePartialJson,
+  toPartialAnalysis,
+  validateAnalysis,
+  validateAttachmentText,
+  validateClarifyingQuestions,
+  validateFollowUp,
+  validateQuestionBatch,
+  validateQuestions,
+  validateReplacementQuestion,
+  ValidationResult
+} from "./validation";
 
-const createAI = () => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey || apiKey === 'undefined' || apiKey.trim() === '') {
-    throw new Error("서비스 구성이 완료되지 않았습니다. 잠시 후 다시 시도해주세요.");
+const ADAPTIVE_BATCH_SIZE = 3;
+/** Adaptive interviews may stop after this many questions, or at the configured count if lower. */
+const ADAPTIVE_MIN_QUESTIONS = 6;
+const MAX_ATTEMPTS = 2;
+/** Upper bound on the length of a condensed attachment. */
+const ATTACHMENT_SUMMARY_WORDS = 800;
+/** Only the most recent follow-up turns are replayed to the model. */
+const FOLLOW_UP_HISTORY_LIMIT = 12;
+
+/** Per-attempt timeout; for streamed calls it is the longest allowed gap between chunks. */
+const TIMEOUT_MS: Record<ModelTier, number> = {
+  fast: 45_000,
+  pro: 120_000
+};
+
+// Multi-select and ranking questions get one option more than single-choice ones.
+const questionSchema = ({ minOptions, maxOptions }: GenerationSettings): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    id: { type: Type.INTEGER },
+    kind: { type: Type.STRING, enum: ["single", "multi", "scale", "ranking", "text"] },
+    text: { type: Type.STRING },
+    options: { 
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      minItems: String(minOptions),
+      maxItems: String(maxOptions + 1),
+      description: "Choices for single, multi and ranking questions. Omit for scale and text."
+    },
+    min: { type: Type.INTEGER, description: "Lowest value of a scale question, usually 1." },
+    max: { type: Type.INTEGER, description: "Highest value of a scale question, usually 5." },
+    minLabel: { type: Type.STRING, description: "What the lowest scale value means." },
+    maxLabel: { type: Type.STRING, description: "What the highest scale value means." }
+  },
+  required: ["id", "kind", "text"],
+  propertyOrdering: ["id", "kind", "text", "options", "min", "max", "minLabel", "maxLabel"]
+});
+
+const questionKindsGuide = ({ minOptions, maxOptions }: GenerationSettings) => `Use the question kind that fits each question best:
+  - "single": pick one of ${minOptions} to ${maxOptions} clear options (the default; use it for most questions).
+  - "multi": select all that apply from ${minOptions} to ${maxOptions + 1} options.
+  - "scale": rate from "min" to "max" (normally 1 to 5), with "minLabel" and "maxLabel" explaining both ends.
+  - "ranking": order ${minOptions} to ${maxOptions + 1} options by priority.
+  - "text": a short free-text answer; use at most two of these.`;
+
+const checkOutput = <T>(text: string, validate: (raw: unknown) => ValidationResult<T>): ValidationResult<T> => {
+  if (!text) {
+    return { ok: false, issues: ["The response was empty."] };
+  }
+  let parsed: unknown;
+  try {
+    parsed = parseModelJson(text);
+  } catch (e) {
+    return { ok: false, issues: ["The response was not valid JSON."] };
   }
-  return new GoogleGenAI({ apiKey });
+  return validate(parsed);
 };
 
-export const generateQuestions = async (topic: string): Promise<Question[]> => {
-  const ai = createAI();
+/**
+ * Every provider call is recorded for the diagnostics panel. The caller finishes the returned
+ * tracker once it knows whether the output was usable; failures are recorded here.
+ */
+const callProvider = async (request: GenerateRequest) => {
+  const call = trackCall(request, false);
+  try {
+    const text = await withRetry(
+      signal => getProvider().generate({ ...request, signal, onUsage: call.usage }),
+      { timeoutMs: TIMEOUT_MS[request.tier], signal: request.signal, onRetry: call.retry }
+    );
+    return { text, call };
+  } catch (err) {
+    call.fail(err, request.signal);
+    throw err;
+  }
+};
 
-  const prompt = `I want to make a decision about: "${topic}". 
-  Please generate exactly 20 multiple-choice questions to help me narrow down the best decision. 
-  Each question should have 3 to 4 clear options. 
-  The questions should range from practical needs, personal preferences, budget, long-term goals, and situational context relevant to "${topic}".`;
-
-  const response = await ai.models.generateContent({
-    model: "gemini-3-flash-preview",
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            id: { type: Type.INTEGER },
-            text: { type: Type.STRING },
-            options: { 
-              type: Type.ARRAY,
-              items: { type: Type.STRING }
-            }
-          },
-          required: ["id", "text", "options"],
-          propertyOrdering: ["id", "text", "options"]
+/** Streams the response text, reporting the accumulated text after every chunk. */
+const streamProvider = async (request: GenerateRequest, onText: (text: string) => void) => {
+  const call = trackCall(request, true);
+  try {
+    const text = await withRetry(
+      async (signal, touch) => {
+        let text = '';
+        for await (const chunk of getProvider().generateStream({ ...request, signal, onUsage: call.usage })) {
+          touch();
+          text += chunk;
+          onText(text);
         }
+        return text;
+      },
+      { timeoutMs: TIMEOUT_MS[request.tier], signal: request.signal, onRetry: call.retry }
+    );
+    return { text, call };
+  } catch (err) {
+    call.fail(err, request.signal);
+    throw err;
+  }
+};
+
+/**
+ * Calls the active provider and validates the parsed output. If it cannot be repaired,
+ * the model is re-prompted with the list of problems before giving up.
+ */
+const generateValidated = async <T>(
+  request: GenerateRequest,
+  validate: (raw: unknown) => ValidationResult<T>
+): Promise<T> => {
+  let prompt = request.prompt;
+  let issues: string[] = [];
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const { text, call } = await callProvider({ ...request, prompt });
+    const result = checkOutput(text, validate);
+    call.finish(result.ok ? 'success' : 'invalidOutput', result.ok ? undefined : result.issues);
+    if (result.ok) {
+      if (result.repairs.length > 0) {
+        console.warn(`Repaired ${request.task} output`, result.repairs);
       }
+      return result.value;
     }
-  });
 
-  const responseText = response.text;
-  if (!responseText) {
-    throw new Error("분석을 위한 질문을 생성하지 못했습니다.");
+    issues = result.issues;
+    console.error(`Invalid ${request.task} output (attempt ${attempt})`, issues);
+    prompt = `${request.prompt}
+
+  Your previous response was rejected for these reasons:
+  ${issues.map(issue => `- ${issue}`).join('\n  ')}
+  Return a corrected response that strictly follows the schema.`;
   }
 
-  try {
-    return JSON.parse(responseText);
-  } catch (e) {
-    throw new Error("데이터 해석 중 오류가 발생했습니다.");
+  throw new ModelOutputError(request.task, issues);
+};
+
+/**
+ * Streams the response and reports each parseable prefix through `onPartial`. The complete
+ * text is validated like `generateValidated`; if it fails, that path takes over and re-prompts.
+ */
+const streamValidated = async <T>(
+  request: GenerateRequest,
+  validate: (raw: unknown) => ValidationResult<T>,
+  onPartial: (raw: unknown) => void
+): Promise<T> => {
+  const { text, call } = await streamProvider(request, soFar => {
+    const partial = parsePartialJson(soFar);
+    if (partial !== undefined) onPartial(partial);
+  });
+
+  const result = checkOutput(text, validate);
+  call.finish(result.ok ? 'success' : 'invalidOutput', result.ok ? undefined : result.issues);
+  if (result.ok) {
+    if (result.repairs.length > 0) {
+      console.warn(`Repaired ${request.task} output`, result.repairs);
+    }
+    return result.value;
   }
+  console.error(`Invalid streamed ${request.task} output`, result.issues);
+  return generateValidated(request, validate);
 };
 
-export interface AnalysisResult {
-  finalRecommendation: string;
-  summary: string;
-  reasoning: string[];
-  pros: string[];
-  cons: string[];
-  nextSteps: string[];
+/** What every prompt about a session is built from. */
+export interface DecisionContext {
+  topic: string;
+  /** Options the user wants compared; empty when they only gave a topic. */
+  alternatives: string[];
+  /** Language the questions, options and analysis must be written in. */
+  locale: Locale;
+  /** Background documents and notes, quoted in every prompt. */
+  attachments: Attachment[];
+  settings: GenerationSettings;
 }
 
-export const analyzeDecision = async (topic: string, questions: Question[], answers: Record<number, string>): Promise<AnalysisResult> => {
-  const ai = createAI();
+const describeAlternatives = (alternatives: string[]) =>
+  alternatives.length > 0
+    ? `I am choosing between these alternatives: ${alternatives.map(a => `"${a}"`).join(', ')}.`
+    : '';
 
-  const context = questions.map(q => `Q: ${q.text} | A: ${answers[q.id]}`).join('\n');
-  const prompt = `The user wants to decide on: "${topic}".
-  Here are 20 questions and the user's answers:
-  ${context}
-  
-  Based on these specific answers, provide a comprehensive and helpful final decision in Korean.
-  The output MUST be in JSON format matching the specified schema.`;
+/** Quotes the attachments under the labels A1, A2, ... that analyses cite them by. */
+const describeAttachments = (attachments: Attachment[]) =>
+  attachments.length > 0
+    ? `I attached the following material. Treat it as background facts about my situation:
+  ${attachments.map((a, i) => `[A${i + 1}] "${a.name}"${a.condensed ? ' (condensed)' : ''}:
+  <<<
+  ${a.content}
+  >>>`).join('\n  ')}`
+    : '';
+
+const citationInstructions = (attachments: Attachment[]) =>
+  attachments.length > 0
+    ? `End every reasoning item that relies on the attached material with the labels of the attachments behind it,
+  for example "... [A1]" or "... [A1][A2]". Leave the labels out of items that do not use the material.`
+    : '';
+
+const languageInstruction = (locale: Locale) =>
+  `Write every piece of text in ${LANGUAGE_NAMES[locale]}, whatever language the topic is written in.`;
 
-  const response = await ai.models.generateContent({
-    model: "gemini-3-pro-preview",
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
+export const generateQuestions = async ({ topic, alternatives, locale, attachments, settings }: DecisionContext): Promise<Question[]> => {
+  const prompt = `I want to make a decision about: "${topic}". 
+  ${describeAlternatives(alternatives)}
+  ${describeAttachments(attachments)}
+  Please generate exactly ${settings.questionCount} questions to help me narrow down the best decision. 
+  ${questionKindsGuide(settings)}
+  The questions should range from practical needs, personal preferences, budget, long-term goals, and situational context relevant to "${topic}".
+  ${languageInstruction(locale)} This includes the question text, options and scale labels.`;
+
+  return generateValidated({
+    task: 'questions',
+    tier: settings.questionModel,
+    temperature: settings.temperature,
+    prompt,
+    context: { count: settings.questionCount, alternatives, locale, attachments: attachments.length },
+    schema: {
+      type: Type.ARRAY,
+      items: questionSchema(settings),
+      minItems: String(settings.questionCount),
+      maxItems: String(settings.questionCount)
+    }
+  }, raw => validateQuestions(raw, settings.questionCount));
+};
+
+/**
+ * Writes a new question to take the place of `questions[index]`, for a user reviewing the
+ * generated set. The replacement keeps the old id and avoids repeating the others.
+ */
+export const regenerateQuestion = async (
+  { topic, alternatives, locale, attachments, settings }: DecisionContext,
+  questions: Question[],
+  index: number,
+  signal?: AbortSignal
+): Promise<Question> => {
+  const replaced = questions[index];
+  const others = questions.filter((_, i) => i !== index);
+  const prompt = `I want to make a decision about: "${topic}".
+  ${describeAlternatives(alternatives)}
+  ${describeAttachments(attachments)}
+  These are the questions I will answer to narrow it down:
+  ${questions.map((q, i) => `${i + 1}. ${describeQuestion(q)}`).join('\n  ')}
+
+  I do not want question ${index + 1} ("${replaced.text}"). Write one new question to replace it.
+  It should help the decision from an angle the other questions do not already cover.
+  ${questionKindsGuide(settings)}
+  ${languageInstruction(locale)} This includes the question text, options and scale labels.`;
+
+  return generateValidated({
+    task: 'replacementQuestion',
+    tier: settings.questionModel,
+    temperature: settings.temperature,
+    prompt,
+    context: { offset: index, alternatives, locale, attachments: attachments.length },
+    signal,
+    schema: questionSchema(settings)
+  }, raw => validateReplacementQuestion(raw, replaced.id, others));
+};
+
+const formatAnswers = (questions: Question[], answers: Record<number, Answer>) =>
+  questions.map(q => `[#${q.id}] Q: ${describeQuestion(q)} | A: ${formatAnswer(q, answers[q.id])}`).join('\n');
+
+/**
+ * Adaptive mode: asks for the next few questions given everything answered so far.
+ * The model may return `done` once it has enough to recommend, ending the session early.
+ */
+export const generateNextQuestions = async (
+  { topic, alternatives, locale, attachments, settings }: DecisionContext,
+  asked: Question[],
+  answers: Record<number, Answer>
+): Promise<QuestionBatch> => {
+  const remaining = settings.questionCount - asked.length;
+  if (remaining <= 0) {
+    return { questions: [], done: true };
+  }
+  const batchSize = Math.min(ADAPTIVE_BATCH_SIZE, remaining);
+  const allowDone = asked.length >= Math.min(ADAPTIVE_MIN_QUESTIONS, settings.questionCount);
+  const history = asked.length > 0
+    ? `Questions asked so far and the user's answers:
+  ${formatAnswers(asked, answers)}`
+    : "No questions have been asked yet.";
+
+  const prompt = `I want to make a decision about: "${topic}".
+  ${describeAlternatives(alternatives)}
+  ${describeAttachments(attachments)}
+  You are interviewing me, a few questions at a time, to find the best decision.
+  ${history}
+
+  Generate the next ${batchSize} questions.
+  ${questionKindsGuide(settings)}
+  Build on my previous answers: dig into what matters most to me and skip anything they already settle.
+  Do not repeat earlier questions.
+  ${languageInstruction(locale)} This includes the question text, options and scale labels.
+  ${allowDone
+    ? 'If my answers already make the best decision clear, set "done" to true and return no questions.'
+    : 'Set "done" to false.'}`;
+
+  return generateValidated({
+    task: 'nextQuestions',
+    tier: settings.questionModel,
+    temperature: settings.temperature,
+    prompt,
+    context: { offset: asked.length, count: batchSize, alternatives, locale, attachments: attachments.length },
+    schema: {
+      type: Type.OBJECT,
+      properties: {
+        done: { type: Type.BOOLEAN, description: "True when no further questions are needed." },
+        questions: {
+          type: Type.ARRAY,
+          items: questionSchema(settings)
+        }
+      },
+      required: ["done", "questions"],
+      propertyOrdering: ["done", "questions"]
+    }
+  }, raw => validateQuestionBatch(raw, asked, batchSize, allowDone));
+};
+
+const MATRIX_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  description: "Weighted scoring matrix comparing the user's alternatives.",
+  properties: {
+    criteria: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING, description: "Short name of the criterion." },
+          weight: { type: Type.INTEGER, description: "Importance to the user from 1 (minor) to 5 (decisive)." },
+          questionIds: { type: Type.ARRAY, items: { type: Type.INTEGER }, description: "Ids of the questions this criterion comes from." }
+        },
+        required: ["name", "weight", "questionIds"]
+      }
+    },
+    alternatives: {
+      type: Type.ARRAY,
+      items: {
         type: Type.OBJECT,
         properties: {
-          finalRecommendation: { type: Type.STRING, description: "The single best choice in one clear sentence." },
-          summary: { type: Type.STRING, description: "A brief 2-sentence summary of the overall direction." },
-          reasoning: { type: Type.ARRAY, items: { type: Type.STRING }, description: "3-4 key reasons for this decision." },
-          pros: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Benefits of this choice." },
-          cons: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Potential risks or drawbacks." },
-          nextSteps: { type: Type.ARRAY, items: { type: Type.STRING }, description: "3-4 actionable steps to take next." }
+          name: { type: Type.STRING, description: "The alternative, exactly as the user wrote it." },
+          scores: { type: Type.ARRAY, items: { type: Type.INTEGER }, description: "Score from 1 to 10 for each criterion, in criteria order." }
         },
-        required: ["finalRecommendation", "summary", "reasoning", "pros", "cons", "nextSteps"]
+        required: ["name", "scores"]
       }
     }
-  });
+  },
+  required: ["criteria", "alternatives"]
+};
 
-  const resultText = response.text;
-  if (!resultText) {
-    throw new Error("분석 결과를 생성하지 못했습니다.");
-  }
+export interface AnalysisOptions {
+  signal?: AbortSignal;
+  /** Called with the sections received so far while the analysis streams in. */
+  onPartial?: (partial: Partial<AnalysisResult>) => void;
+}
 
-  try {
-    return JSON.parse(resultText);
-  } catch (e) {
-    console.error("Analysis JSON parse error", e);
-    throw new Error("결과 데이터를 처리하는 중 오류가 발생했습니다.");
+const GROUP_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    agreements: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Points the participants agree on." },
+    disagreements: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Points where participants differ, naming who wants what." }
+  },
+  required: ["agreements", "disagreements"]
+};
+
+const CONFIDENCE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  description: "How certain the recommendation is, and what undermines it.",
+  properties: {
+    score: { type: Type.INTEGER, description: "Confidence from 0 (a guess) to 100 (clear-cut)." },
+    rationale: { type: Type.STRING, description: "One sentence on what the score rests on." },
+    contradictions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          questionIds: { type: Type.ARRAY, items: { type: Type.INTEGER }, description: "Ids of the clashing questions, at least two." },
+          explanation: { type: Type.STRING, description: "How the answers contradict each other." }
+        },
+        required: ["questionIds", "explanation"]
+      }
+    },
+    biases: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          kind: { type: Type.STRING, enum: BIAS_KINDS },
+          explanation: { type: Type.STRING, description: "What in the answers suggests the bias." },
+          questionIds: { type: Type.ARRAY, items: { type: Type.INTEGER }, description: "Ids of the questions that show it." }
+        },
+        required: ["kind", "explanation", "questionIds"]
+      }
+    },
+    runnerUp: {
+      type: Type.OBJECT,
+      properties: {
+        name: { type: Type.STRING, description: "The option that came second." },
+        closeness: { type: Type.INTEGER, description: "How close it came, from 0 (far behind) to 100 (a near tie)." },
+        explanation: { type: Type.STRING, description: "What would have to change for it to win." }
+      },
+      required: ["name", "closeness", "explanation"]
+    }
+  },
+  required: ["score", "rationale", "contradictions", "biases"],
+  propertyOrdering: ["score", "rationale", "contradictions", "biases", "runnerUp"]
+};
+
+const DEPTH: Record<AnalysisDepth, { reasons: [number, number]; steps: [number, number]; guide: string }> = {
+  brief: {
+    reasons: [2, 3],
+    steps: [2, 3],
+    guide: "Keep the analysis brief: short sentences, and only the points that settle the decision."
+  },
+  standard: { reasons: [3, 4], steps: [3, 4], guide: '' },
+  deep: {
+    reasons: [5, 7],
+    steps: [4, 6],
+    guide: `Analyse in depth: weigh the trade-offs explicitly, point out second-order effects,
+  and say what would have to change for a different recommendation.`
   }
 };
+
+const countedList = ([min, max]: [number, number], description: string): Schema => ({
+  type: Type.ARRAY,
+  items: { type: Type.STRING },
+  minItems: String(min),
+  maxItems: String(max),
+  description: `${min}-${max} ${description}`
+});
+
+/** Response schema shared by the first analysis and every revision of it. */
+const analysisSchema = (alternatives: string[], depth: AnalysisDepth, group = false): Schema => {
+  const fields = ["finalRecommendation", "summary", "reasoning", "pros", "cons", "nextSteps"];
+  if (alternatives.length > 0) fields.push("matrix");
+  if (group) fields.push("group");
+  fields.push("confidence");
+  return {
+    type: Type.OBJECT,
+    properties: {
+      finalRecommendation: { type: Type.STRING, description: "The single best choice in one clear sentence." },
+      summary: { type: Type.STRING, description: "A brief 2-sentence summary of the overall direction." },
+      reasoning: countedList(DEPTH[depth].reasons, "key reasons for this decision."),
+      pros: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Benefits of this choice." },
+      cons: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Potential risks or drawbacks." },
+      nextSteps: countedList(DEPTH[depth].steps, "actionable steps to take next."),
+      ...(alternatives.length > 0 && { matrix: MATRIX_SCHEMA }),
+      ...(group && { group: GROUP_SCHEMA }),
+      confidence: CONFIDENCE_SCHEMA
+    },
+    required: fields,
+    // Fixed ordering lets the headline sections stream in first.
+    propertyOrdering: fields
+  };
+};
+
+const matrixInstructions = (alternatives: string[], locale: Locale) =>
+  alternatives.length > 0
+    ? `The user is choosing between: ${alternatives.map(a => `"${a}"`).join(', ')}.
+  Also fill "matrix": derive 4 to 6 criteria from the answered questions (cite their #ids), weight each from 1 to 5
+  by how much the user's answers say it matters, and score every alternative from 1 to 10 on every criterion.
+  Keep the alternative names exactly as the user wrote them, but write the criteria names in ${LANGUAGE_NAMES[locale]}.
+  The finalRecommendation must be consistent with the highest weighted score.`
+    : '';
+
+const confidenceInstructions = (alternatives: string[]) => `Also fill "confidence" to say how certain the recommendation is:
+  - "score" from 0 to 100: high when the answers point clearly one way, low when they are thin, vague or contradict each other.
+  - "rationale": one sentence on what the score rests on.
+  - "contradictions": answers that pull in opposite directions, citing their question #ids. Leave it empty when there are none.
+  - "biases": signs of cognitive biases in the answers, such as sunk cost (holding on because of what was already spent)
+    or status quo (preferring the current state because it is current), citing the question #ids that show them.
+    Only list a bias the answers actually suggest.
+  - "runnerUp": the option that came second${alternatives.length > 0 ? ', named exactly as the user wrote it' : ''},
+    how close it came from 0 (far behind) to 100 (a near tie), and what would have to change for it to win.
+    Omit it when nothing else was seriously in the running.`;
+
+/** Runs an analysis request, streaming partial sections when `onPartial` is given. */
+const runAnalysis = (
+  request: GenerateRequest,
+  { alternatives, attachments }: DecisionContext,
+  questions: Question[],
+  onPartial?: AnalysisOptions['onPartial'],
+  group = false
+): Promise<AnalysisResult> => {
+  const attachmentIds = attachments.map(a => a.id);
+  // Saved analyses may predate the confidence report, but fresh ones must include it.
+  const validate = (raw: unknown): ValidationResult<AnalysisResult> => {
+    const checked = validateAnalysis(raw, alternatives, questions.map(q => q.id), group, attachmentIds);
+    return checked.ok && !checked.value.confidence ? { ok: false, issues: ["Missing `confidence`."] } : checked;
+  };
+  return onPartial
+    ? streamValidated(request, validate, raw => onPartial(toPartialAnalysis(raw)))
+    : generateValidated(request, validate);
+};
+
+export const analyzeDecision = async (
+  ctx: DecisionContext,
+  questions: Question[],
+  answers: Record<number, Answer>,
+  { signal, onPartial }: AnalysisOptions = {}
+): Promise<AnalysisResult> => {
+  const { topic, alternatives, locale, attachments, settings } = ctx;
+  const context = formatAnswers(questions, answers);
+  const prompt = `The user wants to decide on: "${topic}".
+  ${describeAttachments(attachments)}
+  Here are ${questions.length} questions and the user's answers:
+  ${context}
+  ${matrixInstructions(alternatives, locale)}
+  ${confidenceInstructions(alternatives)}
+  ${citationInstructions(attachments)}
+  ${DEPTH[settings.depth].guide}
+  
+  Based on these specific answers, provide a comprehensive and helpful final decision in ${LANGUAGE_NAMES[locale]}.
+  The output MUST be in JSON format matching the specified schema.`;
+
+  return runAnalysis({
+    task: 'analysis',
+    tier: settings.analysisModel,
+    temperature: settings.temperature,
+    prompt,
+    context: { alternatives, locale, attachments: attachments.length },
+    signal,
+    schema: analysisSchema(alternatives, settings.depth)
+  }, ctx, questions, onPartial);
+};
+
+const formatGroupAnswers = (questions: Question[], participants: Participant[]) =>
+  questions.map(q => `[#${q.id}] Q: ${describeQuestion(q)}
+  ${participants.map(p => `- ${p.name}: ${formatAnswer(q, p.answers[q.id])}`).join('\n  ')}`).join('\n  ');
+
+const groupInstructions = (names: string[]) =>
+  `This is a group decision made together by ${names.length} people: ${names.map(n => `"${n}"`).join(', ')}.
+  Recommend the option the whole group can best live with, weighing every participant equally.
+  Also fill "group": list what the participants agree on in "agreements" and where they differ in "disagreements",
+  naming who wants what. Address the group, not a single user.`;
+
+/**
+ * Group mode: analyses everyone's answers to the same questions together and reports where the
+ * participants agree and disagree alongside the recommendation.
+ */
+export const analyzeGroupDecision = async (
+  ctx: DecisionContext,
+  questions: Question[],
+  participants: Participant[],
+  { signal, onPartial }: AnalysisOptions = {}
+): Promise<AnalysisResult> => {
+  const { topic, alternatives, locale, attachments, settings } = ctx;
+  const names = participants.map(p => p.name);
+  const prompt = `A group wants to decide on: "${topic}".
+  ${describeAttachments(attachments)}
+  Here are ${questions.length} questions and each participant's answers:
+  ${formatGroupAnswers(questions, participants)}
+  ${groupInstructions(names)}
+  ${matrixInstructions(alternatives, locale)}
+  ${confidenceInstructions(alternatives)}
+  ${citationInstructions(attachments)}
+  ${DEPTH[settings.depth].guide}
+
+  Based on these specific answers, provide a comprehensive and helpful final decision in ${LANGUAGE_NAMES[locale]}.
+  The output MUST be in JSON format matching the specified schema.`;
+
+  return runAnalysis({
+    task: 'analysis',
+    tier: settings.analysisModel,
+    temperature: settings.temperature,
+    prompt,
+    context: { alternatives, locale, participants: names, attachments: attachments.length },
+    signal,
+    schema: analysisSchema(alternatives, settings.depth, true)
+  }, ctx, questions, onPartial, true);
+};
+
+/** A finished analysis together with the answers it was based on. */
+export interface AnalyzedDecision {
+  questions: Question[];
+  answers: Record<number, Answer>;
+  /** Set for group decisions, whose answers live on each participant instead. */
+  participants?: Participant[];
+  result: AnalysisResult;
+}
+
+const formatConversation = (history: FollowUpMessage[]) =>
+  history.length > 0
+    ? `Our conversation about the recommendation so far:
+  ${history.slice(-FOLLOW_UP_HISTORY_LIMIT).map(m => m.role === 'user'
+    ? `User: ${m.text}`
+    : `Advisor: ${m.revision ? `(revised recommendation) ${m.revision.finalRecommendation} ${m.revision.summary}` : m.text}`
+  ).join('\n  ')}`
+    : '';
+
+/** The full background of a finished decision, shared by every follow-up prompt. */
+const describeDecision = ({ topic, attachments }: DecisionContext, { questions, answers, participants, result }: AnalyzedDecision, history: FollowUpMessage[]) =>
+  `${describeAttachments(attachments)}
+  ${participants
+    ? `A group of ${participants.length} people wanted to decide on: "${topic}".
+  Each of them answered these questions:
+  ${formatGroupAnswers(questions, participants)}`
+    : `The user wanted to decide on: "${topic}".
+  They answered these questions:
+  ${formatAnswers(questions, answers)}`}
+
+  You recommended the following (as JSON):
+  ${JSON.stringify(result)}
+
+  ${formatConversation(history)}`;
+
+export interface FollowUpOptions {
+  signal?: AbortSignal;
+  /** Called with the reply received so far while it streams in. */
+  onText?: (text: string) => void;
+}
+
+/**
+ * Answers a follow-up question ("what if my budget were doubled?") about a finished analysis
+ * without changing it. Streams the reply through `onText` when given.
+ */
+export const askFollowUp = async (
+  context: DecisionContext,
+  decision: AnalyzedDecision,
+  history: FollowUpMessage[],
+  message: string,
+  { signal, onText }: FollowUpOptions = {}
+): Promise<string> => {
+  const prompt = `${describeDecision(context, decision, history)}
+
+  The user now asks: "${message}"
+  Answer as their decision advisor in ${LANGUAGE_NAMES[context.locale]}, in a few short paragraphs.
+  Ground the answer in their answers and your recommendation; if a hypothetical would change the recommendation, say how.
+  Put the answer in "reply".`;
+
+  const request: GenerateRequest = {
+    task: 'followUp',
+    tier: 'fast',
+    temperature: context.settings.temperature,
+    prompt,
+    context: { alternatives: context.alternatives, locale: context.locale, attachments: context.attachments.length },
+    signal,
+    schema: {
+      type: Type.OBJECT,
+      properties: {
+        reply: { type: Type.STRING, description: "The answer to the user's follow-up question." }
+      },
+      required: ["reply"]
+    }
+  };
+
+  return onText
+    ? streamValidated(request, validateFollowUp, raw => {
+      const reply = (raw as { reply?: unknown } | null)?.reply;
+      if (typeof reply === 'string') onText(reply);
+    })
+    : generateValidated(request, validateFollowUp);
+};
+
+/**
+ * Re-runs the recommendation as if `change` applied ("my budget is doubled"), keeping every
+ * answer that the change does not contradict. The original result is left untouched.
+ */
+export const reviseAnalysis = async (
+  context: DecisionContext,
+  decision: AnalyzedDecision,
+  history: FollowUpMessage[],
+  change: string,
+  { signal, onPartial }: AnalysisOptions = {}
+): Promise<AnalysisResult> => {
+  const { alternatives, locale, attachments, settings } = context;
+  const names = decision.participants?.map(p => p.name);
+  const prompt = `${describeDecision(context, decision, history)}
+
+  Re-run the analysis as if this change applied: "${change}"
+  Where the change contradicts an earlier answer, the change wins; keep every other answer as it was.
+  ${names ? groupInstructions(names) : ''}
+  ${matrixInstructions(alternatives, locale)}
+  ${confidenceInstructions(alternatives)}
+  ${citationInstructions(attachments)}
+  ${DEPTH[settings.depth].guide}
+
+  Provide the complete revised decision in ${LANGUAGE_NAMES[locale]}. It may keep or change the recommendation;
+  make the reasoning say what the change did.
+  The output MUST be in JSON format matching the specified schema.`;
+
+  return runAnalysis({
+    task: 'revision',
+    tier: settings.analysisModel,
+    temperature: settings.temperature,
+    prompt,
+    context: { alternatives, locale, participants: names, attachments: attachments.length },
+    signal,
+    schema: analysisSchema(alternatives, settings.depth, Boolean(names))
+  }, context, decision.questions, onPartial, Boolean(names));
+};
+
+/**
+ * Asks a few questions aimed at what made a finished analysis uncertain: the contradictions,
+ * the closeness of the runner-up and anything the answers left open. New ids continue after
+ * the existing questions, so the answers can be added to the session and analysed again.
+ */
+export const generateClarifyingQuestions = async (
+  context: DecisionContext,
+  decision: AnalyzedDecision,
+  signal?: AbortSignal
+): Promise<Question[]> => {
+  const { alternatives, locale, attachments, settings } = context;
+  const prompt = `${describeDecision(context, decision, [])}
+
+  Your confidence in this recommendation is low. Write ${CLARIFYING_QUESTION_COUNT} new questions that would settle it:
+  resolve the contradictions you found, tell the recommendation apart from the runner-up, or fill the gaps the answers leave.
+  Each question should target one specific uncertainty. Do not repeat questions that were already asked.
+  ${questionKindsGuide(settings)}
+  ${languageInstruction(locale)} This includes the question text, options and scale labels.`;
+
+  return generateValidated({
+    task: 'clarifyingQuestions',
+    tier: settings.questionModel,
+    temperature: settings.temperature,
+    prompt,
+    context: { offset: decision.questions.length, count: CLARIFYING_QUESTION_COUNT, alternatives, locale, attachments: attachments.length },
+    signal,
+    schema: {
+      type: Type.OBJECT,
+      properties: {
+        questions: {
+          type: Type.ARRAY,
+          items: questionSchema(settings),
+          minItems: String(CLARIFYING_QUESTION_COUNT),
+          maxItems: String(CLARIFYING_QUESTION_COUNT)
+        }
+      },
+      required: ["questions"]
+    }
+  }, raw => validateClarifyingQuestions(raw, decision.questions, CLARIFYING_QUESTION_COUNT));
+};
+
+/** Where the text to condense comes from: a chunk of plain text, or a whole file such as a PDF. */
+export type AttachmentSource =
+  | { text: string; part?: { index: number; total: number } }
+  | { file: InlineFile };
+
+/**
+ * Turns attached material into compact plain text for later prompts. Plain text is condensed;
+ * a file is read by the model and transcribed, or condensed when it is long. Names, figures,
+ * dates and conditions are kept because the analysis may rely on them.
+ */
+export const condenseAttachment = async (
+  name: string,
+  source: AttachmentSource,
+  locale: Locale,
+  signal?: AbortSignal
+): Promise<string> => {
+  const material = 'file' in source
+    ? `The attached file "${name}".`
+    : `${source.part ? `Part ${source.part.index} of ${source.part.total} of` : 'The'} document "${name}":
+  <<<
+  ${source.text}
+  >>>`;
+  const prompt = `Someone is making a decision and attached this material as background.
+  ${material}
+
+  Rewrite it as plain text of at most ${ATTACHMENT_SUMMARY_WORDS} words for a decision advisor to read.
+  Keep every name, figure, date, price and condition that could matter; drop boilerplate and repetition.
+  If the material is already shorter than that, transcribe it faithfully instead of summarising.
+  ${languageInstruction(locale)}
+  Put the result in "text".`;
+
+  return generateValidated({
+    task: 'attachment',
+    tier: 'fast',
+    prompt,
+    context: { locale },
+    files: 'file' in source ? [source.file] : undefined,
+    signal,
+    schema: {
+      type: Type.OBJECT,
+      properties: {
+        text: { type: Type.STRING, description: "The condensed or transcribed material." }
+      },
+      required: ["text"]
+    }
+  }, validateAttachmentText);
+};
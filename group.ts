@@ -0,0 +1,111 @@
+import { Answer, Participant, Question } from "./types";
+import { isAnswered } from "./answers";
+import { createId } from "./storage";
+
+export const MIN_PARTICIPANTS = 2;
+export const MAX_PARTICIPANTS = 12;
+
+export const createParticipant = (name: string): Participant => ({ id: createId(), name, answers: {} });
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const answeredCount = (questions: Question[], participant: Participant) =>
+  questions.filter(q => isAnswered(q, participant.answers[q.id])).length;
+
+export const hasFinished = (questions: Question[], participant: Participant) =>
+  answeredCount(questions, participant) === questions.length;
+
+/** Where a participant picks up: their first unanswered question, or the last one when done. */
+export const resumeIndex = (questions: Question[], participant: Participant) => {
+  const index = questions.findIndex(q => !isAnswered(q, participant.answers[q.id]));
+  return index === -1 ? Math.max(questions.length - 1, 0) : index;
+};
+
+/** Rebuilds the group from an edited list of names, keeping anyone already in it along with their answers. */
+export const withNames = (participants: Participant[], names: string[]): Participant[] =>
+  names.map(name => participants.find(p => sameName(p.name, name)) ?? createParticipant(name));
+
+/** True when both sessions ask the same questions, so their answers can be combined. */
+export const sameQuestions = (a: Question[], b: Question[]) =>
+  a.length === b.length && a.every((q, i) => q.id === b[i].id && q.kind === b[i].kind && q.text === b[i].text);
+
+/**
+ * Folds participants from an exported file into the current group. People are matched by name;
+ * a match keeps their existing answers and takes the imported ones on top.
+ */
+export const mergeParticipants = (current: Participant[], incoming: Participant[]): Participant[] => {
+  const merged = [...current];
+  for (const person of incoming) {
+    const index = merged.findIndex(p => sameName(p.name, person.name));
+    if (index === -1) {
+      merged.push({ ...person, id: createId() });
+    } else {
+      merged[index] = { ...merged[index], answers: { ...merged[index].answers, ...person.answers } };
+    }
+  }
+  return merged.slice(0, MAX_PARTICIPANTS);
+};
+
+/** How the group answered one question. */
+export type QuestionTally =
+  | { kind: 'choice'; options: { option: string; voters: string[] }[] }
+  | { kind: 'scale'; min: number; max: number; average: number; values: { name: string; value: number }[] }
+  | { kind: 'ranking'; options: { option: string; averageRank: number }[] }
+  | { kind: 'text'; answers: { name: string; text: string }[] };
+
+const answersTo = (question: Question, participants: Participant[]) =>
+  participants
+    .map(p => ({ name: p.name, answer: p.answers[question.id] }))
+    .filter((entry): entry is { name: string; answer: Answer } => isAnswered(question, entry.answer));
+
+export const tallyQuestion = (question: Question, participants: Participant[]): QuestionTally => {
+  const responses = answersTo(question, participants);
+  switch (question.kind) {
+    case 'single':
+    case 'multi':
+      return {
+        kind: 'choice',
+        options: question.options.map(option => ({
+          option,
+          voters: responses
+            .filter(r => (Array.isArray(r.answer) ? r.answer.includes(option) : r.answer === option))
+            .map(r => r.name)
+        }))
+      };
+    case 'scale': {
+      const values = responses.map(r => ({ name: r.name, value: r.answer as number }));
+      return {
+        kind: 'scale',
+        min: question.min,
+        max: question.max,
+        average: values.length > 0 ? values.reduce((sum, v) => sum + v.value, 0) / values.length : 0,
+        values
+      };
+    }
+    case 'ranking':
+      return {
+        kind: 'ranking',
+        options: question.options
+          .map(option => ({
+            option,
+            averageRank: responses.length > 0
+              ? responses.reduce((sum, r) => sum + (r.answer as string[]).indexOf(option) + 1, 0) / responses.length
+              : 0
+          }))
+          .sort((a, b) => a.averageRank - b.averageRank)
+      };
+    case 'text':
+      return { kind: 'text', answers: responses.map(r => ({ name: r.name, text: (r.answer as string).trim() })) };
+  }
+};
+
+/**
+ * Whether everyone who answered gave the same answer. Free-text answers and questions with
+ * fewer than two responses have no verdict.
+ */
+export const agreementOn = (question: Question, participants: Participant[]): 'unanimous' | 'split' | null => {
+  const responses = answersTo(question, participants);
+  if (question.kind === 'text' || responses.length < 2) return null;
+  const first = JSON.stringify(responses[0].answer);
+  return responses.every(r => JSON.stringify(r.answer) === first) ? 'unanimous' : 'split';
+};
@@ -0,0 +1,414 @@
+import { Messages } from "./ko";
+
+export const en: Messages = {
+  app: {
+    title: "Decision Advisor 20",
+    tagline: "Turns your answers into data and suggests the best choice.",
+    language: "Language",
+    dismissError: "Dismiss the error"
+  },
+  start: {
+    heading: "What are you trying to decide?",
+    topicPlaceholder: "e.g. 'Where should I travel next?', 'Which new hobby should I pick up?', 'Should I stay at my job or move on?'",
+    fixedMode: (count: number) => `All ${count} questions at once`,
+    adaptiveMode: "Questions that adapt",
+    groupMode: "Decide as a group",
+    submit: "Generate questions",
+    keyReselected: "The configuration was updated. Please press start again."
+  },
+  loading: {
+    firstQuestions: "Looking at your topic and preparing the first questions...",
+    allQuestions: (count: number) => `Looking at your topic and writing ${count} tailored questions...`,
+    analysis: "Weighing all of your answers to work out the best option...",
+    engine: "Gemini AI is running its reasoning engine."
+  },
+  answering: {
+    progress: (current: number, total: number, adaptive: boolean) =>
+      `Question ${current} / ${adaptive ? `up to ${total}` : total}`,
+    prev: "Back",
+    next: "Next question",
+    finish: "Run the analysis",
+    moreQuestionsFailed: "Could not prepare the next questions. Please try again.",
+    jumpToUnanswered: (number: number) => `Go to unanswered question ${number}`,
+    progressLabel: "Progress"
+  },
+  shortcuts: {
+    heading: "Keyboard shortcuts",
+    select: "choose",
+    next: "next",
+    prev: "back",
+    jump: "first unanswered"
+  },
+  announce: {
+    fetchingMore: "Preparing the next questions...",
+    streaming: "The analysis is coming in.",
+    result: "The analysis is done. Your recommendation is ready."
+  },
+  review: {
+    heading: "Review the questions",
+    intro: (count: number) => `Here are ${count} generated questions. Before answering, you can delete the ones you don't need, reorder or reword them, or add your own.`,
+    regenerate: "Regenerate this question",
+    regenerating: "Writing a new question...",
+    regenerateFailed: "The question could not be regenerated. Please try again.",
+    incomplete: "Give every question some text, and every choice question at least two different options.",
+    empty: "Keep at least one question.",
+    start: "Answer these questions"
+  },
+  questionInput: {
+    multiHint: "Select all that apply.",
+    rankingHint: "Order these from most to least important.",
+    moveUp: "Move up",
+    moveDown: "Move down",
+    confirmOrder: "This order is right",
+    textPlaceholder: "Write whatever comes to mind."
+  },
+  analysis: {
+    cancel: "Cancel the analysis and go back to the answers",
+    failed: "Something went wrong while analyzing your answers. Please try again.",
+    answersKept: "Your answers have been kept as they are.",
+    editAnswers: "Edit answers",
+    retry: "Retry the analysis"
+  },
+  result: {
+    badge: "Final Recommendation",
+    reasoning: "Why this choice",
+    pros: "Strengths and benefits",
+    cons: "Risks to consider",
+    nextSteps: "Action plan",
+    sources: "Based on",
+    print: "Save report as PDF",
+    restart: "Start a new decision"
+  },
+  confidence: {
+    heading: "How certain is this recommendation?",
+    score: "Confidence",
+    levels: { low: "Low", medium: "Medium", high: "High" },
+    runnerUp: "Runner-up",
+    closeness: (n: number) => `Closeness ${n}/100`,
+    contradictions: "Answers that contradict each other",
+    biases: "Possible biases in your answers",
+    none: "None found.",
+    questionRef: (n: number) => `Question ${n}`,
+    biasNames: {
+      sunkCost: "Sunk cost",
+      statusQuo: "Status quo bias",
+      lossAversion: "Loss aversion",
+      confirmation: "Confirmation bias",
+      anchoring: "Anchoring",
+      overconfidence: "Overconfidence",
+      socialProof: "Social proof",
+      other: "Other bias"
+    }
+  },
+  clarify: {
+    heading: "A few more questions",
+    intro: "Your answers leave the decision open. Answer a few questions aimed at what is uncertain, and the analysis will run again with them.",
+    groupUnavailable: "Your answers leave the decision open. Clarifying questions are not offered to groups, because everyone would have to answer them again; talk over the points above together, or start a new group session with them in mind.",
+    start: (n: number) => `Get ${n} clarifying questions`,
+    generating: "Writing questions about what is still uncertain...",
+    generateFailed: "The clarifying questions could not be prepared. Please try again.",
+    submit: "Analyze again with these answers",
+    analyzing: "Analyzing again with your new answers...",
+    failed: "The analysis could not be run again. Please try again.",
+    cancel: "Cancel"
+  },
+  followUp: {
+    heading: "Follow-up questions",
+    intro: "Ask anything about the result, e.g. 'What if my budget were doubled?' or 'Why not the second option?'",
+    placeholder: "Write a question or a changed condition.",
+    ask: "Ask",
+    revise: "Re-run with this change",
+    stop: "Stop",
+    revising: "Re-running the analysis with the change...",
+    revisedBadge: "Revised recommendation",
+    compare: "Compare with the original",
+    hideCompare: "Hide comparison",
+    original: "Original",
+    revised: "Revised",
+    topAlternative: (name: string, total: string) => `Top: ${name} (${total})`,
+    failed: "Could not prepare a reply. Please try again."
+  },
+  sensitivity: {
+    heading: "Try a different answer",
+    intro: "Change any one answer to see how the recommendation responds.",
+    change: "Change",
+    cancel: "Cancel",
+    rerun: "Re-run with this answer",
+    running: "Re-running the analysis with the changed answer...",
+    failed: "Could not re-run the analysis. Please try again.",
+    diffHeading: (question: string) => `After changing the answer to '${question}'`,
+    fromCache: "Loaded the analysis from an earlier run.",
+    recommendationChanged: "The recommendation changed",
+    recommendationSame: "The recommendation stayed the same",
+    reasoning: "Reasons",
+    pros: "Strengths",
+    cons: "Risks",
+    nextSteps: "Action plan",
+    noListChanges: "The reasons, strengths, risks and action plan did not change.",
+    undo: "Go back to the previous answer",
+    dismiss: "Close"
+  },
+  settings: {
+    heading: "Generation settings",
+    presets: {
+      quick: "Quick",
+      standard: "Standard",
+      thorough: "Thorough"
+    },
+    custom: "Custom",
+    summary: (questions: number, model: string, depth: string) => `${questions} questions · ${model} analysis · ${depth}`,
+    customize: "Fine-tune",
+    questionModel: "Question model",
+    analysisModel: "Analysis model",
+    models: {
+      fast: "Fast model",
+      pro: "Pro model"
+    },
+    questionCount: "Number of questions",
+    options: "Options per question",
+    minOptions: "Min",
+    maxOptions: "Max",
+    temperature: "Variety (temperature)",
+    temperatureHint: "Lower values give more consistent results, higher ones more varied questions and analyses.",
+    depth: "Analysis depth",
+    depths: {
+      brief: "Brief",
+      standard: "Standard",
+      deep: "In depth"
+    }
+  },
+  alternatives: {
+    heading: "Options to compare",
+    optional: "(optional)",
+    remove: (name: string) => `Remove ${name}`,
+    placeholder: "e.g. Offer from A, Offer from B, Stay where I am",
+    add: "Add",
+    hint: (min: number) => `Enter ${min} or more options to get a scoring table comparing them in the result.`
+  },
+  attachments: {
+    heading: "Reference material",
+    optional: "(optional)",
+    intro: "Attach material such as offer letters, spec sheets or comparison tables, and it will inform both the questions and the analysis.",
+    addFile: "Attach a file (TXT / Markdown / PDF)",
+    addNote: "Paste a note",
+    noteName: (index: number) => `Note ${index}`,
+    notePlaceholder: "Paste anything worth considering.",
+    saveNote: "Add note",
+    cancel: "Cancel",
+    remove: (name: string) => `Remove ${name}`,
+    reading: (name: string) => `Reading '${name}'...`,
+    condensed: "Long, so a condensed version is used",
+    characters: (count: number) => `${count.toLocaleString('en')} characters`,
+    tooMany: (max: number) => `You can attach up to ${max} items.`,
+    unsupported: "Only TXT, Markdown and PDF files can be attached.",
+    tooLarge: (megabytes: number) => `Files must be ${megabytes} MB or smaller.`,
+    empty: "There is nothing in it.",
+    failed: "The material could not be read. Please try again."
+  },
+  group: {
+    heading: "Participants",
+    remove: (name: string) => `Remove ${name}`,
+    placeholder: "Participant's name",
+    add: "Add",
+    hint: (min: number) => `Once ${min} or more people each answer the same questions, everyone's answers are analysed together.`,
+    turn: (name: string) => `${name}'s turn`,
+    switchTo: (name: string) => `Switch to ${name}`,
+    handOff: (name: string) => `Pass to ${name}`,
+    merge: "Merge another participant's answer file",
+    mergeMismatch: "The questions differ, so these answers cannot be merged.",
+    mergeNotGroup: "This is not a group decision file.",
+    summaryHeading: "How everyone answered",
+    agreements: "Where you agree",
+    disagreements: "Where you differ",
+    unanimous: "Unanimous",
+    split: "Split",
+    votes: (count: number) => `${count} ${count === 1 ? 'vote' : 'votes'}`,
+    average: (value: string) => `Average ${value}`,
+    averageRank: (value: string) => `Avg. rank ${value}`,
+    noAnswers: "Nobody has answered yet."
+  },
+  templates: {
+    heading: "Question templates",
+    intro: "Start recurring decisions from a saved question set. No questions are generated, and the same questions every time make results easy to compare.",
+    empty: "There are no templates in this language.",
+    builtIn: "Built-in",
+    questionCount: (count: number) => `${count} ${count === 1 ? 'question' : 'questions'}`,
+    use: "Start with this template",
+    edit: "Edit",
+    delete: "Delete",
+    confirmDelete: (name: string) => `Delete the template '${name}'?`,
+    saveAs: "Save these questions as a template",
+    newHeading: "New template",
+    editHeading: "Edit template",
+    name: "Name",
+    namePlaceholder: "e.g. Hiring a developer",
+    category: "Category",
+    categories: {
+      hiring: "Hiring",
+      vendor: "Vendor selection",
+      travel: "Travel",
+      purchase: "Purchase",
+      career: "Career",
+      other: "Other"
+    },
+    save: "Save",
+    saveCopy: "Save as a copy",
+    cancel: "Cancel",
+    incomplete: "Give every question some text, and every choice question at least two different options."
+  },
+  questionEditor: {
+    text: "Question",
+    kind: "Type",
+    kinds: {
+      single: "Pick one",
+      multi: "Pick several",
+      scale: "Scale",
+      ranking: "Ranking",
+      text: "Free text"
+    },
+    option: (index: number) => `Option ${index}`,
+    addOption: "Add option",
+    removeOption: (index: number) => `Remove option ${index}`,
+    min: "Minimum",
+    max: "Maximum",
+    minLabel: "Minimum label",
+    maxLabel: "Maximum label",
+    moveUp: "Move up",
+    moveDown: "Move down",
+    remove: "Delete question",
+    addQuestion: "Add question"
+  },
+  matrix: {
+    heading: "Comparison table",
+    resetWeights: "Reset weights",
+    criterion: "Criterion",
+    weight: "Weight",
+    weightOf: (name: string) => `Weight of ${name}`,
+    hint: "Adjusting a weight recalculates the ranking instantly. Scores are out of 10."
+  },
+  journal: {
+    heading: "Decision journal",
+    intro: "Record how this decision played out so you can later see how good the recommendation was.",
+    statusLabel: "Did you follow the recommendation?",
+    status: {
+      followed: "I followed it",
+      notFollowed: "I didn't"
+    },
+    outcome: "How did it actually turn out?",
+    outcomePlaceholder: "Note what changed after the decision and what went differently than expected.",
+    satisfaction: "How satisfied are you with the result?",
+    satisfactionLevel: (n: number) => `${n} of 5`,
+    satisfactionMin: "I regret it",
+    satisfactionMax: "Very happy",
+    save: "Save entry",
+    saved: (date: string) => `Recorded on ${date}`,
+    stepsProgress: (done: number, total: number) => `${done} of ${total} done`
+  },
+  dashboard: {
+    heading: "Looking back",
+    decisions: "Decisions made",
+    followRate: "Recommendations followed",
+    satisfaction: "Average satisfaction",
+    stepsDone: "Next steps done",
+    notYet: "Nothing recorded yet",
+    satisfactionSplit: (followed: string, notFollowed: string) => `Followed ${followed} · Not followed ${notFollowed}`,
+    remindersHeading: "How did these decisions turn out?",
+    decidedAgo: (days: number) => `Decided ${days} days ago`,
+    reflect: "Record the outcome",
+    snooze: "Remind me later"
+  },
+  history: {
+    heading: "Past decisions",
+    search: "Search by topic",
+    empty: "No matching decisions.",
+    confirmDelete: (topic: string) => `Delete the record for '${topic}'?`,
+    delete: "Delete"
+  },
+  exportMenu: {
+    copyLink: "Copy share link",
+    copied: "Link copied",
+    copyFailed: "Copy failed"
+  },
+  importSession: {
+    button: "Import an exported decision (JSON / Markdown)",
+    fileFailed: "Could not open the file.",
+    linkFailed: "Could not open the shared link."
+  },
+  report: {
+    alternatives: "Options",
+    recommendation: "Recommendation",
+    matrix: "Comparison table",
+    criterion: "Criterion",
+    weight: "Weight",
+    reasoning: "Reasoning",
+    pros: "Strengths and benefits",
+    cons: "Risks to consider",
+    nextSteps: "Action plan",
+    participants: "Participants",
+    agreements: "Where the group agrees",
+    disagreements: "Where the group differs",
+    attachments: "Reference material",
+    sources: "Based on",
+    journal: "Decision journal",
+    status: "Recommendation followed",
+    outcome: "Actual outcome",
+    satisfaction: "Satisfaction",
+    answers: "Questions and answers",
+    followUps: "Follow-up questions",
+    revisedRecommendation: "Revised recommendation",
+    confidence: "Confidence",
+    score: "Confidence",
+    runnerUp: "Runner-up",
+    contradictions: "Contradicting answers",
+    biases: "Possible biases"
+  },
+  diagnostics: {
+    open: "Diagnostics",
+    heading: "Model call diagnostics",
+    close: "Close",
+    session: "This session",
+    total: "All sessions",
+    calls: "Calls",
+    tokens: "Tokens (in / out)",
+    cost: "Estimated cost",
+    unpriced: (n: number) => `Leaves out ${n} calls without a known price`,
+    problems: "Failed / invalid output / retries",
+    latency: "Average latency",
+    byModel: "Usage by model",
+    noModel: "Failed before a response",
+    recent: "Recent calls",
+    empty: "No calls recorded yet.",
+    streamed: "streamed",
+    outcomes: {
+      success: "Success",
+      invalidOutput: "Invalid output",
+      failed: "Failed",
+      cancelled: "Cancelled"
+    },
+    export: "Export log",
+    clear: "Clear log",
+    confirmClear: "Delete every recorded call?"
+  },
+  errors: {
+    generic: "Something went wrong while handling the request.",
+    config: "The service is not fully configured yet. Please try again shortly.",
+    auth: "Authentication with the service failed. Please check your API key settings.",
+    request: "The service rejected the request. Please change your input and try again.",
+    rateLimit: "There are too many requests right now. Please try again shortly.",
+    timeout: "The response took too long. Please try again.",
+    unavailable: "The service cannot be reached right now. Please try again shortly.",
+    safety: "The response was blocked by the safety policy. Please rephrase your topic and try again.",
+    malformedQuestions: "The questions came back in an invalid format. Please try again.",
+    malformedAnalysis: "The analysis came back in an invalid format. Please try again.",
+    malformedFollowUp: "No usable reply came back. Please ask again.",
+    malformedAttachment: "The attachment could not be read. Please try again."
+  },
+  importErrors: {
+    notSession: "This is not a decision file.",
+    newerVersion: "This file was made by a newer version and cannot be opened.",
+    corrupted: "The decision file is damaged.",
+    corruptedResult: "The analysis in this decision file is damaged.",
+    unreadable: "The file could not be read. Make sure it is an exported JSON or Markdown file.",
+    badLink: "The shared link is invalid."
+  }
+};
@@ -0,0 +1,80 @@
+import { createContext, useContext } from "react";
+import { Locale } from "../types";
+import { LLMTask } from "../providers/types";
+import { DecisionServiceError, ModelOutputError } from "../errors";
+import { ko, Messages } from "./ko";
+import { en } from "./en";
+
+export type { Messages };
+
+const PREFERENCE_KEY = 'decision-maker-20:locale:v1';
+
+const CATALOGS: Record<Locale, Messages> = { ko, en };
+
+export const LOCALES = Object.keys(CATALOGS) as Locale[];
+
+/** Each language's name in that language, for the picker. */
+export const LOCALE_LABELS: Record<Locale, string> = {
+  ko: "한국어",
+  en: "English"
+};
+
+/** English names used to tell the model which language to write in. */
+export const LANGUAGE_NAMES: Record<Locale, string> = {
+  ko: "Korean",
+  en: "English"
+};
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(CATALOGS, value);
+
+export const getMessages = (locale: Locale): Messages => CATALOGS[locale];
+
+/** The language last picked in this browser, else the browser's own language when we have it. */
+export const loadPreferredLocale = (): Locale => {
+  try {
+    const saved = localStorage.getItem(PREFERENCE_KEY);
+    if (isLocale(saved)) return saved;
+  } catch (e) {
+    console.error(`Failed to read ${PREFERENCE_KEY}`, e);
+  }
+  const browser = typeof navigator !== 'undefined' ? navigator.language.slice(0, 2) : '';
+  return isLocale(browser) ? browser : 'ko';
+};
+
+export const savePreferredLocale = (locale: Locale) => {
+  try {
+    localStorage.setItem(PREFERENCE_KEY, locale);
+  } catch (e) {
+    console.error(`Failed to write ${PREFERENCE_KEY}`, e);
+  }
+};
+
+const MALFORMED_OUTPUT: Record<LLMTask, keyof Messages['errors']> = {
+  questions: 'malformedQuestions',
+  nextQuestions: 'malformedQuestions',
+  replacementQuestion: 'malformedQuestions',
+  clarifyingQuestions: 'malformedQuestions',
+  analysis: 'malformedAnalysis',
+  revision: 'malformedAnalysis',
+  followUp: 'malformedFollowUp',
+  attachment: 'malformedAttachment'
+};
+
+/** Translated message for a service failure, or `fallback` for anything else. */
+export const describeError = (t: Messages, err: unknown, fallback: string): string => {
+  if (err instanceof ModelOutputError) {
+    return t.errors[MALFORMED_OUTPUT[err.task]];
+  }
+  if (!(err instanceof DecisionServiceError) || err.kind === 'malformedOutput') return fallback;
+  return t.errors[err.kind];
+};
+
+export interface I18n {
+  locale: Locale;
+  t: Messages;
+}
+
+export const I18nContext = createContext<I18n>({ locale: 'ko', t: ko });
+
+export const useI18n = () => useContext(I18nContext);
@@ -0,0 +1,415 @@
+/** Korean catalog. It is the reference catalog: every other locale must provide the same keys. */
+export const ko = {
+  app: {
+    title: "결정 어드바이저 20",
+    tagline: "당신의 답변을 데이터로 변환하여 최적의 선택을 제안합니다.",
+    language: "언어",
+    dismissError: "오류 메시지 닫기"
+  },
+  start: {
+    heading: "어떤 고민이 있으신가요?",
+    topicPlaceholder: "예: '나에게 가장 적합한 다음 여행지는?', '새로운 취미로 무엇을 시작할까?', '현재 직장에 남을지 이직할지 고민이야' 등",
+    fixedMode: (count: number) => `${count}문항 한 번에`,
+    adaptiveMode: "답변에 맞춰 질문",
+    groupMode: "여럿이 함께",
+    submit: "질문 리스트 생성",
+    keyReselected: "시스템 구성을 업데이트했습니다. 다시 한번 시작을 눌러주세요."
+  },
+  loading: {
+    firstQuestions: "고민을 분석하여 첫 질문을 준비하고 있습니다...",
+    allQuestions: (count: number) => `고민을 분석하여 ${count}가지 맞춤 질문을 생성하고 있습니다...`,
+    analysis: "당신의 모든 답변을 종합하여 최적의 솔루션을 설계 중입니다...",
+    engine: "Gemini AI가 고도의 추론 엔진을 가동 중입니다."
+  },
+  answering: {
+    progress: (current: number, total: number, adaptive: boolean) =>
+      `Question ${current} / ${adaptive ? `최대 ${total}` : total}`,
+    prev: "이전",
+    next: "다음 질문",
+    finish: "데이터 분석 실행",
+    moreQuestionsFailed: "다음 질문을 준비하지 못했습니다. 다시 시도해주세요.",
+    jumpToUnanswered: (number: number) => `답하지 않은 ${number}번 질문으로`,
+    progressLabel: "진행률"
+  },
+  shortcuts: {
+    heading: "키보드 단축키",
+    select: "선택",
+    next: "다음",
+    prev: "이전",
+    jump: "답하지 않은 질문으로"
+  },
+  announce: {
+    fetchingMore: "다음 질문을 준비하고 있습니다...",
+    streaming: "분석 결과가 도착하고 있습니다.",
+    result: "분석이 끝났습니다. 추천 결과를 확인하세요."
+  },
+  review: {
+    heading: "질문 검토",
+    intro: (count: number) => `생성된 질문 ${count}개입니다. 답하기 전에 필요 없는 질문은 지우고, 순서와 문구를 바꾸거나 직접 질문을 추가할 수 있습니다.`,
+    regenerate: "이 질문 다시 만들기",
+    regenerating: "새 질문을 만들고 있습니다...",
+    regenerateFailed: "질문을 다시 만들지 못했습니다. 다시 시도해주세요.",
+    incomplete: "질문마다 내용을 입력하고, 선택형 질문에는 서로 다른 보기를 2개 이상 넣어주세요.",
+    empty: "질문이 하나 이상 있어야 합니다.",
+    start: "이 질문들로 답하기"
+  },
+  questionInput: {
+    multiHint: "해당하는 항목을 모두 선택하세요.",
+    rankingHint: "중요한 순서대로 위에서부터 정렬하세요.",
+    moveUp: "위로",
+    moveDown: "아래로",
+    confirmOrder: "이 순서가 맞아요",
+    textPlaceholder: "자유롭게 적어주세요."
+  },
+  analysis: {
+    cancel: "분석 취소하고 답변으로 돌아가기",
+    failed: "결과를 분석하는 과정에서 문제가 발생했습니다. 다시 시도해주세요.",
+    answersKept: "입력하신 답변은 그대로 보관되어 있습니다.",
+    editAnswers: "답변 수정하기",
+    retry: "분석 다시 시도"
+  },
+  result: {
+    badge: "Final Recommendation",
+    reasoning: "분석 결과 (Why?)",
+    pros: "강점 및 장점",
+    cons: "고려해야 할 리스크",
+    nextSteps: "실행 가이드 (Action Plan)",
+    sources: "근거 자료",
+    print: "리포트 PDF 저장",
+    restart: "새로운 결정 분석"
+  },
+  confidence: {
+    heading: "이 추천은 얼마나 확실한가요?",
+    score: "확신도",
+    levels: { low: "낮음", medium: "보통", high: "높음" },
+    runnerUp: "아깝게 밀린 선택지",
+    closeness: (n: number) => `근접도 ${n}/100`,
+    contradictions: "서로 엇갈리는 답변",
+    biases: "답변에 보이는 판단 편향",
+    none: "발견되지 않았습니다.",
+    questionRef: (n: number) => `질문 ${n}`,
+    biasNames: {
+      sunkCost: "매몰 비용",
+      statusQuo: "현상 유지 편향",
+      lossAversion: "손실 회피",
+      confirmation: "확증 편향",
+      anchoring: "기준점 편향",
+      overconfidence: "과신",
+      socialProof: "동조 효과",
+      other: "기타 편향"
+    }
+  },
+  clarify: {
+    heading: "몇 가지만 더 확인할게요",
+    intro: "답변만으로는 확신하기 어렵습니다. 불확실한 부분을 짚는 질문 몇 개에 답하면 그 답을 반영해 다시 분석합니다.",
+    groupUnavailable: "답변만으로는 확신하기 어렵습니다. 확인 질문은 모든 참여자가 다시 답해야 하므로 그룹 결정에는 제공되지 않습니다. 위에서 짚은 점을 함께 이야기해 보거나, 이를 염두에 두고 새 그룹 세션을 시작해 보세요.",
+    start: (n: number) => `확인 질문 ${n}개 받기`,
+    generating: "불확실한 부분을 짚는 질문을 만들고 있습니다...",
+    generateFailed: "확인 질문을 만들지 못했습니다. 다시 시도해주세요.",
+    submit: "답변을 반영해 다시 분석",
+    analyzing: "새 답변을 반영해 다시 분석하고 있습니다...",
+    failed: "다시 분석하지 못했습니다. 다시 시도해주세요.",
+    cancel: "취소"
+  },
+  followUp: {
+    heading: "후속 질문",
+    intro: "결과를 두고 무엇이든 물어보세요. 예: '예산이 두 배라면?', '두 번째 선택지는 왜 아닌가요?'",
+    placeholder: "궁금한 점이나 바뀐 조건을 적어주세요.",
+    ask: "질문하기",
+    revise: "이 조건으로 다시 추천",
+    stop: "중지",
+    revising: "바뀐 조건으로 다시 분석하고 있습니다...",
+    revisedBadge: "수정된 추천",
+    compare: "원래 추천과 비교",
+    hideCompare: "비교 닫기",
+    original: "원래 추천",
+    revised: "수정된 추천",
+    topAlternative: (name: string, total: string) => `1위: ${name} (${total})`,
+    failed: "답변을 준비하지 못했습니다. 다시 시도해주세요."
+  },
+  sensitivity: {
+    heading: "답변을 바꿔 보기",
+    intro: "답변 하나를 바꾸면 추천이 어떻게 달라지는지 확인할 수 있습니다.",
+    change: "변경",
+    cancel: "취소",
+    rerun: "이 답변으로 다시 분석",
+    running: "바뀐 답변으로 다시 분석하고 있습니다...",
+    failed: "다시 분석하지 못했습니다. 다시 시도해주세요.",
+    diffHeading: (question: string) => `'${question}' 답변을 바꾼 결과`,
+    fromCache: "이전에 분석한 결과를 다시 불러왔습니다.",
+    recommendationChanged: "추천이 바뀌었습니다",
+    recommendationSame: "추천은 그대로입니다",
+    reasoning: "근거",
+    pros: "장점",
+    cons: "리스크",
+    nextSteps: "실행 가이드",
+    noListChanges: "근거, 장단점, 실행 가이드에는 달라진 점이 없습니다.",
+    undo: "이전 답변으로 되돌리기",
+    dismiss: "닫기"
+  },
+  settings: {
+    heading: "생성 설정",
+    presets: {
+      quick: "빠르게",
+      standard: "기본",
+      thorough: "꼼꼼하게"
+    },
+    custom: "직접 설정",
+    summary: (questions: number, model: string, depth: string) => `질문 ${questions}개 · 분석 ${model} · ${depth}`,
+    customize: "세부 설정",
+    questionModel: "질문 생성 모델",
+    analysisModel: "분석 모델",
+    models: {
+      fast: "빠른 모델",
+      pro: "고급 모델"
+    },
+    questionCount: "질문 수",
+    options: "질문당 선택지 수",
+    minOptions: "최소",
+    maxOptions: "최대",
+    temperature: "다양성 (temperature)",
+    temperatureHint: "낮을수록 일관된 결과가, 높을수록 다양한 질문과 분석이 나옵니다.",
+    depth: "분석 깊이",
+    depths: {
+      brief: "간단히",
+      standard: "기본",
+      deep: "심층"
+    }
+  },
+  alternatives: {
+    heading: "비교할 선택지",
+    optional: "(선택)",
+    remove: (name: string) => `${name} 삭제`,
+    placeholder: "예: A회사 이직, B회사 이직, 현재 직장 유지",
+    add: "추가",
+    hint: (min: number) => `선택지를 ${min}개 이상 입력하면 결과에서 점수표로 비교해 드립니다.`
+  },
+  attachments: {
+    heading: "참고 자료",
+    optional: "(선택)",
+    intro: "제안서, 스펙 문서, 비교표처럼 결정에 필요한 자료를 첨부하면 질문과 분석에 함께 반영됩니다.",
+    addFile: "파일 첨부 (TXT / Markdown / PDF)",
+    addNote: "메모 붙여넣기",
+    noteName: (index: number) => `메모 ${index}`,
+    notePlaceholder: "참고할 내용을 붙여넣으세요.",
+    saveNote: "메모 추가",
+    cancel: "취소",
+    remove: (name: string) => `${name} 삭제`,
+    reading: (name: string) => `'${name}'을(를) 읽고 있습니다...`,
+    condensed: "길어서 요약본을 사용합니다",
+    characters: (count: number) => `${count.toLocaleString('ko')}자`,
+    tooMany: (max: number) => `자료는 ${max}개까지 첨부할 수 있습니다.`,
+    unsupported: "TXT, Markdown, PDF 파일만 첨부할 수 있습니다.",
+    tooLarge: (megabytes: number) => `${megabytes}MB 이하의 파일만 첨부할 수 있습니다.`,
+    empty: "내용이 비어 있습니다.",
+    failed: "자료를 읽지 못했습니다. 다시 시도해주세요."
+  },
+  group: {
+    heading: "참여자",
+    remove: (name: string) => `${name} 삭제`,
+    placeholder: "참여자 이름",
+    add: "추가",
+    hint: (min: number) => `${min}명 이상이 같은 질문에 각자 답하면, 모두의 답변을 모아 함께 분석합니다.`,
+    turn: (name: string) => `${name}님의 차례`,
+    switchTo: (name: string) => `${name}님으로 전환`,
+    handOff: (name: string) => `${name}님에게 넘기기`,
+    merge: "다른 참여자의 답변 파일 합치기",
+    mergeMismatch: "질문 목록이 달라 답변을 합칠 수 없습니다.",
+    mergeNotGroup: "그룹 결정 파일이 아닙니다.",
+    summaryHeading: "참여자별 응답",
+    agreements: "의견이 모이는 부분",
+    disagreements: "의견이 갈리는 부분",
+    unanimous: "만장일치",
+    split: "의견 갈림",
+    votes: (count: number) => `${count}표`,
+    average: (value: string) => `평균 ${value}`,
+    averageRank: (value: string) => `평균 ${value}위`,
+    noAnswers: "아직 답한 사람이 없습니다."
+  },
+  templates: {
+    heading: "질문 템플릿",
+    intro: "자주 하는 결정은 저장해 둔 질문으로 바로 시작할 수 있습니다. 질문 생성 없이 매번 같은 질문으로 답하므로 결과를 비교하기도 쉽습니다.",
+    empty: "이 언어로 된 템플릿이 없습니다.",
+    builtIn: "기본 제공",
+    questionCount: (count: number) => `질문 ${count}개`,
+    use: "이 템플릿으로 시작",
+    edit: "편집",
+    delete: "삭제",
+    confirmDelete: (name: string) => `'${name}' 템플릿을 삭제할까요?`,
+    saveAs: "이 질문들을 템플릿으로 저장",
+    newHeading: "새 템플릿",
+    editHeading: "템플릿 편집",
+    name: "이름",
+    namePlaceholder: "예: 개발자 채용",
+    category: "분류",
+    categories: {
+      hiring: "채용",
+      vendor: "업체 선정",
+      travel: "여행",
+      purchase: "구매",
+      career: "진로",
+      other: "기타"
+    },
+    save: "저장",
+    saveCopy: "사본으로 저장",
+    cancel: "취소",
+    incomplete: "질문마다 내용을 입력하고, 선택형 질문에는 서로 다른 보기를 2개 이상 넣어주세요."
+  },
+  questionEditor: {
+    text: "질문",
+    kind: "유형",
+    kinds: {
+      single: "하나 고르기",
+      multi: "여러 개 고르기",
+      scale: "척도",
+      ranking: "순위 매기기",
+      text: "직접 입력"
+    },
+    option: (index: number) => `보기 ${index}`,
+    addOption: "보기 추가",
+    removeOption: (index: number) => `보기 ${index} 삭제`,
+    min: "최솟값",
+    max: "최댓값",
+    minLabel: "최솟값 설명",
+    maxLabel: "최댓값 설명",
+    moveUp: "위로 이동",
+    moveDown: "아래로 이동",
+    remove: "질문 삭제",
+    addQuestion: "질문 추가"
+  },
+  matrix: {
+    heading: "선택지 비교표",
+    resetWeights: "가중치 초기화",
+    criterion: "기준",
+    weight: "가중치",
+    weightOf: (name: string) => `${name} 가중치`,
+    hint: "가중치를 조정하면 순위가 즉시 다시 계산됩니다. 점수는 10점 만점입니다."
+  },
+  journal: {
+    heading: "결정 일지",
+    intro: "이 결정을 어떻게 실행했는지 남겨 두면 나중에 추천이 얼마나 맞았는지 돌아볼 수 있어요.",
+    statusLabel: "추천을 따랐나요?",
+    status: {
+      followed: "따랐어요",
+      notFollowed: "따르지 않았어요"
+    },
+    outcome: "실제로 어떻게 되었나요?",
+    outcomePlaceholder: "결정 이후 달라진 점, 예상과 달랐던 점을 적어주세요.",
+    satisfaction: "결과에 얼마나 만족하시나요?",
+    satisfactionLevel: (n: number) => `${n}점`,
+    satisfactionMin: "후회돼요",
+    satisfactionMax: "아주 만족해요",
+    save: "일지 저장",
+    saved: (date: string) => `${date}에 기록함`,
+    stepsProgress: (done: number, total: number) => `${total}개 중 ${done}개 완료`
+  },
+  dashboard: {
+    heading: "결정 돌아보기",
+    decisions: "내린 결정",
+    followRate: "추천을 따른 비율",
+    satisfaction: "평균 만족도",
+    stepsDone: "완료한 실행 단계",
+    notYet: "아직 기록 없음",
+    satisfactionSplit: (followed: string, notFollowed: string) => `따랐을 때 ${followed} · 따르지 않았을 때 ${notFollowed}`,
+    remindersHeading: "이 결정들은 어떻게 되었나요?",
+    decidedAgo: (days: number) => `${days}일 전에 결정`,
+    reflect: "결과 기록하기",
+    snooze: "나중에 알림"
+  },
+  history: {
+    heading: "지난 결정 기록",
+    search: "주제로 검색",
+    empty: "검색 결과가 없습니다.",
+    confirmDelete: (topic: string) => `'${topic}' 기록을 삭제할까요?`,
+    delete: "삭제"
+  },
+  exportMenu: {
+    copyLink: "공유 링크 복사",
+    copied: "링크 복사됨",
+    copyFailed: "복사 실패"
+  },
+  importSession: {
+    button: "내보낸 결정 파일 불러오기 (JSON / Markdown)",
+    fileFailed: "파일을 불러오지 못했습니다.",
+    linkFailed: "공유 링크를 열지 못했습니다."
+  },
+  report: {
+    alternatives: "선택지",
+    recommendation: "최종 추천",
+    matrix: "선택지 비교표",
+    criterion: "기준",
+    weight: "가중치",
+    reasoning: "분석 결과",
+    pros: "강점 및 장점",
+    cons: "고려해야 할 리스크",
+    nextSteps: "실행 가이드",
+    participants: "참여자",
+    agreements: "의견이 모이는 부분",
+    disagreements: "의견이 갈리는 부분",
+    attachments: "참고 자료",
+    sources: "근거 자료",
+    journal: "결정 일지",
+    status: "추천 실행 여부",
+    outcome: "실제 결과",
+    satisfaction: "만족도",
+    answers: "질문과 답변",
+    followUps: "후속 질문",
+    revisedRecommendation: "수정된 추천",
+    confidence: "추천의 확실성",
+    score: "확신도",
+    runnerUp: "아깝게 밀린 선택지",
+    contradictions: "서로 엇갈리는 답변",
+    biases: "판단 편향"
+  },
+  diagnostics: {
+    open: "진단 정보",
+    heading: "모델 호출 진단",
+    close: "닫기",
+    session: "이번 세션",
+    total: "전체 기록",
+    calls: "호출",
+    tokens: "토큰 (입력 / 출력)",
+    cost: "예상 비용",
+    unpriced: (n: number) => `가격 정보가 없는 호출 ${n}건은 제외`,
+    problems: "실패 / 잘못된 출력 / 재시도",
+    latency: "평균 응답 시간",
+    byModel: "모델별 사용량",
+    noModel: "응답 전 실패",
+    recent: "최근 호출",
+    empty: "기록된 호출이 없습니다.",
+    streamed: "스트리밍",
+    outcomes: {
+      success: "성공",
+      invalidOutput: "잘못된 출력",
+      failed: "실패",
+      cancelled: "취소됨"
+    },
+    export: "로그 내보내기",
+    clear: "로그 지우기",
+    confirmClear: "기록된 호출을 모두 지울까요?"
+  },
+  errors: {
+    generic: "요청을 처리하는 중 문제가 발생했습니다.",
+    config: "서비스 구성이 완료되지 않았습니다. 잠시 후 다시 시도해주세요.",
+    auth: "서비스 인증에 실패했습니다. API 키 설정을 확인해주세요.",
+    request: "서비스가 요청을 거부했습니다. 입력 내용을 바꿔서 다시 시도해주세요.",
+    rateLimit: "요청이 많아 잠시 처리할 수 없습니다. 잠시 후 다시 시도해주세요.",
+    timeout: "응답 시간이 초과되었습니다. 다시 시도해주세요.",
+    unavailable: "서비스 연결이 원활하지 않습니다. 잠시 후 다시 시도해주세요.",
+    safety: "안전 정책에 따라 응답이 차단되었습니다. 고민 내용을 조금 바꿔서 다시 시도해주세요.",
+    malformedQuestions: "질문 데이터의 형식이 올바르지 않습니다. 다시 시도해주세요.",
+    malformedAnalysis: "분석 결과의 형식이 올바르지 않습니다. 다시 시도해주세요.",
+    malformedFollowUp: "답변을 받지 못했습니다. 다시 질문해주세요.",
+    malformedAttachment: "첨부한 자료를 읽지 못했습니다. 다시 시도해주세요."
+  },
+  importErrors: {
+    notSession: "결정 기록 파일이 아닙니다.",
+    newerVersion: "더 새로운 버전에서 만든 파일이라 불러올 수 없습니다.",
+    corrupted: "결정 기록의 내용이 손상되었습니다.",
+    corruptedResult: "결정 기록의 분석 결과가 손상되었습니다.",
+    unreadable: "파일을 읽을 수 없습니다. 내보낸 JSON 또는 Markdown 파일인지 확인해주세요.",
+    badLink: "공유 링크가 올바르지 않습니다."
+  }
+};
+
+export type Messages = typeof ko;
@@ -0,0 +1,70 @@
+import { DecisionState, JournalEntry } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** How long after a decision the user is first asked how it turned out. */
+export const REFLECTION_DELAY_DAYS = 14;
+/** How far "remind me later" pushes the reminder back. */
+export const SNOOZE_DAYS = 7;
+export const SATISFACTION_LEVELS = [1, 2, 3, 4, 5];
+
+export const daysSince = (time: number, now = Date.now()) => Math.floor((now - time) / DAY_MS);
+
+export const emptyJournal = (): JournalEntry => ({ doneSteps: [] });
+
+/** Ticks a next step off, or back on when it was already done. */
+export const toggleStep = (journal: JournalEntry, step: string): JournalEntry => ({
+  ...journal,
+  doneSteps: journal.doneSteps.includes(step)
+    ? journal.doneSteps.filter(s => s !== step)
+    : [...journal.doneSteps, step]
+});
+
+export const snoozeReminder = (journal: JournalEntry, now = Date.now()): JournalEntry => ({
+  ...journal,
+  remindAt: now + SNOOZE_DAYS * DAY_MS
+});
+
+/** True for analysed decisions whose outcome is still unrecorded once the reminder is due. */
+export const isDueForReflection = (decision: DecisionState, now = Date.now()) => {
+  if (!decision.result || decision.journal?.reflectedAt !== undefined) return false;
+  return now >= (decision.journal?.remindAt ?? decision.createdAt + REFLECTION_DELAY_DAYS * DAY_MS);
+};
+
+export interface JournalSummary {
+  decisions: number;
+  /** Decisions whose status has been recorded. */
+  tracked: number;
+  followed: number;
+  /** Share of tracked decisions where the recommendation was followed, or null before any is tracked. */
+  followRate: number | null;
+  /** Mean satisfaction, split by whether the recommendation was followed; null where nothing is rated. */
+  satisfaction: { all: number | null; followed: number | null; notFollowed: number | null };
+  /** Next steps done out of all next steps, across every decision. */
+  stepsDone: number;
+  steps: number;
+}
+
+const mean = (values: number[]) =>
+  values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+export const summarizeJournal = (decisions: DecisionState[]): JournalSummary => {
+  const analysed = decisions.filter(d => d.result);
+  const tracked = analysed.filter(d => d.journal?.status);
+  const followed = tracked.filter(d => d.journal?.status === 'followed').length;
+  const rated = (status?: string) => analysed
+    .filter(d => status === undefined || d.journal?.status === status)
+    .flatMap(d => d.journal?.satisfaction ?? []);
+  const steps = analysed.flatMap(d => d.result?.nextSteps ?? []).length;
+  const stepsDone = analysed
+    .map(d => (d.result?.nextSteps ?? []).filter(s => d.journal?.doneSteps.includes(s)).length)
+    .reduce((sum, n) => sum + n, 0);
+  return {
+    decisions: analysed.length,
+    tracked: tracked.length,
+    followed,
+    followRate: tracked.length ? followed / tracked.length : null,
+    satisfaction: { all: mean(rated()), followed: mean(rated('followed')), notFollowed: mean(rated('notFollowed')) },
+    stepsDone,
+    steps
+  };
+};
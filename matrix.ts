@@ -0,0 +1,42 @@
+import { DecisionMatrix } from "./types";
+
+export const MIN_WEIGHT = 0;
+export const MAX_WEIGHT = 5;
+export const MIN_SCORE = 1;
+export const MAX_SCORE = 10;
+
+export interface RankedAlternative {
+  name: string;
+  /** Weighted average score on the 1-10 scale, or 0 when every weight is zero. */
+  total: number;
+}
+
+/**
+ * Ranks alternatives by their weighted average score. `weights` overrides the model's weights
+ * (same order as `matrix.criteria`) so the user can re-rank locally without another model call.
+ */
+export const rankAlternatives = (
+  matrix: DecisionMatrix,
+  weights: number[] = matrix.criteria.map(c => c.weight)
+): RankedAlternative[] => {
+  const weightSum = weights.reduce((sum, w) => sum + w, 0);
+  return matrix.alternatives
+    .map(alt => ({
+      name: alt.name,
+      total: weightSum === 0
+        ? 0
+        : alt.scores.reduce((sum, score, i) => sum + score * (weights[i] ?? 0), 0) / weightSum
+    }))
+    .sort((a, b) => b.total - a.total);
+};
+
+/** Changes whenever a re-analysis produces different alternatives, criteria or weights, so local re-weighting starts over. */
+export const matrixKey = (matrix: DecisionMatrix) =>
+  JSON.stringify([matrix.alternatives.map(a => a.name), matrix.criteria.map(c => [c.name, c.weight])]);
+
+export const MIN_ALTERNATIVES = 2;
+export const MAX_ALTERNATIVES = 5;
+
+/** Alternatives only take part in the analysis once there is something to compare. */
+export const comparableAlternatives = (alternatives: string[] = []) =>
+  alternatives.length >= MIN_ALTERNATIVES ? alternatives : [];
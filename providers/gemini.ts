@@ -0,0 +1,71 @@
+import { FinishReason, GenerateContentResponse, GenerateContentResponseUsageMetadata, GoogleGenAI } from "@google/genai";
+import { GenerateRequest, LLMProvider, ModelTier } from "./types";
+import { ConfigError, SafetyBlockedError } from "../errors";
+
+const MODELS: Record<ModelTier, string> = {
+  fast: "gemini-3-flash-preview",
+  pro: "gemini-3-pro-preview"
+};
+
+const BLOCKED_FINISH_REASONS = new Set<FinishReason | undefined>([
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII
+]);
+
+const createAI = () => {
+  const apiKey = process.env.API_KEY;
+  if (!apiKey || apiKey === 'undefined' || apiKey.trim() === '') {
+    throw new ConfigError();
+  }
+  return new GoogleGenAI({ apiKey });
+};
+
+const toParams = ({ tier, prompt, schema, files, temperature, signal }: GenerateRequest) => ({
+  model: MODELS[tier],
+  contents: files?.length
+    ? [{ role: 'user', parts: [...files.map(({ mimeType, data }) => ({ inlineData: { mimeType, data } })), { text: prompt }] }]
+    : prompt,
+  config: {
+    responseMimeType: "application/json",
+    responseSchema: schema,
+    temperature,
+    abortSignal: signal
+  }
+});
+
+const reportUsage = ({ tier, onUsage }: GenerateRequest, usage?: GenerateContentResponseUsageMetadata) => {
+  onUsage?.({
+    model: MODELS[tier],
+    promptTokens: usage?.promptTokenCount,
+    responseTokens: usage && (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0)
+  });
+};
+
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  if (response.promptFeedback?.blockReason || BLOCKED_FINISH_REASONS.has(response.candidates?.[0]?.finishReason)) {
+    throw new SafetyBlockedError({ cause: response.promptFeedback ?? response.candidates?.[0] });
+  }
+};
+
+export const createGeminiProvider = (): LLMProvider => ({
+  name: 'gemini',
+  async generate(request: GenerateRequest) {
+    const response = await createAI().models.generateContent(toParams(request));
+    assertNotBlocked(response);
+    reportUsage(request, response.usageMetadata);
+    return response.text ?? '';
+  },
+  async *generateStream(request: GenerateRequest) {
+    const stream = await createAI().models.generateContentStream(toParams(request));
+    // Every chunk carries the running totals, so the last one holds the final counts.
+    let usage: GenerateContentResponseUsageMetadata | undefined;
+    for await (const chunk of stream) {
+      assertNotBlocked(chunk);
+      usage = chunk.usageMetadata ?? usage;
+      if (chunk.text) yield chunk.text;
+    }
+    reportUsage(request, usage);
+  }
+});
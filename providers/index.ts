@@ -0,0 +1,59 @@
+import { createGeminiProvider } from "./gemini";
+import { createMockProvider } from "./mock";
+import { createOpenAICompatibleProvider } from "./openaiCompatible";
+import { LLMProvider, ProviderName } from "./types";
+
+export * from "./types";
+
+const FACTORIES: Record<ProviderName, () => LLMProvider> = {
+  gemini: createGeminiProvider,
+  openai: createOpenAICompatibleProvider,
+  mock: () => createMockProvider()
+};
+
+const PROVIDER_PARAM = 'provider';
+const PROVIDER_KEY = 'decision-maker-20:provider';
+
+const isProviderName = (value: string | null | undefined): value is ProviderName =>
+  !!value && Object.prototype.hasOwnProperty.call(FACTORIES, value);
+
+/** The build-time choice; `process` does not exist in the browser unless the bundler defines it. */
+const configuredProviderName = () => {
+  try {
+    return process.env.LLM_PROVIDER?.trim().toLowerCase();
+  } catch (e) {
+    return undefined;
+  }
+};
+
+/**
+ * Picks the backend. Opening the app with `?provider=mock` (or `gemini`, `openai`) selects it in
+ * the browser and remembers the choice in localStorage until another `?provider=` replaces it.
+ * Without one, the remembered choice applies, then the `LLM_PROVIDER` build variable, then Gemini.
+ */
+const resolveProviderName = (): ProviderName => {
+  try {
+    const requested = new URLSearchParams(window.location.search).get(PROVIDER_PARAM)?.trim().toLowerCase();
+    if (isProviderName(requested)) localStorage.setItem(PROVIDER_KEY, requested);
+    const remembered = localStorage.getItem(PROVIDER_KEY);
+    if (isProviderName(remembered)) return remembered;
+  } catch (e) {
+    // Outside a browser, or with storage blocked, only the build variable counts.
+  }
+  const configured = configuredProviderName();
+  return isProviderName(configured) ? configured : 'gemini';
+};
+
+let activeProvider: LLMProvider | null = null;
+
+export const getProvider = (): LLMProvider => {
+  if (!activeProvider) {
+    activeProvider = FACTORIES[resolveProviderName()]();
+  }
+  return activeProvider;
+};
+
+/** Swaps the backend at runtime, e.g. to force the mock in a demo or test harness. */
+export const setProvider = (provider: LLMProvider | ProviderName) => {
+  activeProvider = typeof provider === 'string' ? FACTORIES[provider]() : provider;
+};
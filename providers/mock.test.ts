@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { generateQuestions, regenerateQuestion, DecisionContext } from '../geminiService';
+import { PRESETS } from '../settings';
+
+const context: DecisionContext = {
+  topic: 'Should I move to Busan?',
+  alternatives: [],
+  locale: 'en',
+  attachments: [],
+  settings: PRESETS.thorough
+};
+
+describe('mock backend', () => {
+  it('regenerates any question of a set longer than the fixtures', async () => {
+    const questions = await generateQuestions(context);
+    expect(questions).toHaveLength(PRESETS.thorough.questionCount);
+    for (const index of [0, 20, 21, questions.length - 1]) {
+      const replacement = await regenerateQuestion(context, questions, index);
+      expect(replacement.id).toBe(questions[index].id);
+      expect(questions.map(q => q.text)).not.toContain(replacement.text);
+    }
+  });
+});
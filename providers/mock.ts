@@ -0,0 +1,88 @@
+import { GenerateRequest, LLMProvider, LLMTask } from "./types";
+import { MOCK_ANALYSIS, MOCK_ATTACHMENT, MOCK_CLARIFYING_QUESTIONS, MOCK_FOLLOW_UP, MOCK_QUESTIONS, MOCK_REVISION, MOCK_SPARE_QUESTIONS, mockGroupInsights, mockMatrix, mockQuestions } from "./mockFixtures";
+import { AnalysisResult, Locale } from "../types";
+import { sleep } from "../retry";
+
+const MOCK_BATCH_SIZE = 3;
+const MOCK_ADAPTIVE_LIMIT = 9;
+const MOCK_DEFAULT_LOCALE: Locale = 'ko';
+
+/** Adds the matrix and group sections an analysis request asks for to a fixture, and names a listed alternative as the runner-up. */
+const withSections = (
+  result: AnalysisResult,
+  { context: { alternatives = [], participants, attachments = 0, locale = MOCK_DEFAULT_LOCALE } = {} }: GenerateRequest
+): AnalysisResult => ({
+  ...result,
+  // Cites the first attachment on the first reason, the way the prompt asks the model to.
+  ...(attachments > 0 && { reasoning: result.reasoning.map((r, i) => (i === 0 ? `${r} [A1]` : r)) }),
+  ...(alternatives.length > 0 && { matrix: mockMatrix(alternatives, locale) }),
+  ...(participants && participants.length > 0 && { group: mockGroupInsights(participants, locale) }),
+  ...(alternatives.length > 0 && result.confidence?.runnerUp && {
+    confidence: { ...result.confidence, runnerUp: { ...result.confidence.runnerUp, name: alternatives[1] ?? alternatives[0] } }
+  })
+});
+
+const FIXTURES: Record<LLMTask, (request: GenerateRequest) => unknown> = {
+  questions: ({ context: { count, locale = MOCK_DEFAULT_LOCALE } = {} }) =>
+    count === undefined ? MOCK_QUESTIONS[locale] : mockQuestions(locale, count),
+  // Walks through the fixture list in batches and finishes early, like a confident model would.
+  nextQuestions: ({ context: { offset = 0, count = MOCK_BATCH_SIZE, locale = MOCK_DEFAULT_LOCALE } = {} }) => offset >= MOCK_ADAPTIVE_LIMIT
+    ? { done: true, questions: [] }
+    : { done: false, questions: MOCK_QUESTIONS[locale].slice(offset, offset + count) },
+  replacementQuestion: ({ context: { offset = 0, locale = MOCK_DEFAULT_LOCALE } = {} }) =>
+    MOCK_SPARE_QUESTIONS[locale][offset % MOCK_SPARE_QUESTIONS[locale].length],
+  analysis: request => withSections(MOCK_ANALYSIS[request.context?.locale ?? MOCK_DEFAULT_LOCALE], request),
+  followUp: ({ context: { locale = MOCK_DEFAULT_LOCALE } = {} }) => ({ reply: MOCK_FOLLOW_UP[locale] }),
+  attachment: ({ context: { locale = MOCK_DEFAULT_LOCALE } = {} }) => ({ text: MOCK_ATTACHMENT[locale] }),
+  clarifyingQuestions: ({ context: { locale = MOCK_DEFAULT_LOCALE } = {} }) => ({ questions: MOCK_CLARIFYING_QUESTIONS[locale] }),
+  // Reverses the ranking so a revision visibly differs from the original matrix.
+  revision: request => withSections(MOCK_REVISION[request.context?.locale ?? MOCK_DEFAULT_LOCALE], {
+    ...request,
+    context: { ...request.context, alternatives: [...(request.context?.alternatives ?? [])].reverse() }
+  })
+};
+
+const MOCK_CHUNK_SIZE = 40;
+const MOCK_CHUNK_COUNT = 12;
+
+/** Rough counts at about four characters a token, so usage displays have something to show offline. */
+const reportUsage = ({ prompt, onUsage }: GenerateRequest, text: string) => {
+  onUsage?.({ model: 'mock', promptTokens: Math.ceil(prompt.length / 4), responseTokens: Math.ceil(text.length / 4) });
+};
+
+const DEFAULT_LATENCY_MS = 600;
+
+/** `MOCK_LATENCY_MS` when the build defines it; the browser has no `process` otherwise. */
+const configuredLatency = () => {
+  try {
+    return Number(process.env.MOCK_LATENCY_MS ?? DEFAULT_LATENCY_MS);
+  } catch (e) {
+    return DEFAULT_LATENCY_MS;
+  }
+};
+
+/**
+ * Deterministic offline backend. Ignores the prompt and returns the fixture for the
+ * requested task and language, after a short delay so loading states remain visible.
+ * Streaming spreads the same delay over a handful of chunks.
+ */
+export const createMockProvider = (latencyMs = configuredLatency()): LLMProvider => {
+  const latency = Number.isFinite(latencyMs) ? latencyMs : 0;
+  return {
+    name: 'mock',
+    async generate(request: GenerateRequest) {
+      await sleep(latency, request.signal);
+      const text = JSON.stringify(FIXTURES[request.task](request));
+      reportUsage(request, text);
+      return text;
+    },
+    async *generateStream(request: GenerateRequest) {
+      const text = JSON.stringify(FIXTURES[request.task](request));
+      for (let i = 0; i < text.length; i += MOCK_CHUNK_SIZE) {
+        await sleep(latency / MOCK_CHUNK_COUNT, request.signal);
+        yield text.slice(i, i + MOCK_CHUNK_SIZE);
+      }
+      reportUsage(request, text);
+    }
+  };
+};
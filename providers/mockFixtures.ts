@@ -0,0 +1,249 @@
+import { AnalysisResult, Criterion, DecisionMatrix, GroupInsights, Locale, Question } from "../types";
+
+export const MOCK_QUESTIONS: Record<Locale, Question[]> = {
+  ko: [
+    { id: 1, kind: "single", text: "이 결정을 내려야 하는 시점은 언제인가요?", options: ["이번 주 안에", "한 달 안에", "3개월 이상 여유가 있다"] },
+    { id: 2, kind: "ranking", text: "다음 기준을 중요한 순서대로 정렬해주세요.", options: ["비용", "시간", "만족감", "안정성"] },
+    { id: 3, kind: "single", text: "사용할 수 있는 예산은 어느 정도인가요?", options: ["최소한으로", "적당한 수준", "충분하다", "예산은 중요하지 않다"] },
+    { id: 4, kind: "single", text: "이 결정이 영향을 미치는 기간은 얼마나 되나요?", options: ["몇 주", "몇 달", "몇 년 이상"] },
+    { id: 5, kind: "single", text: "결과가 기대에 못 미치면 되돌릴 수 있나요?", options: ["쉽게 되돌릴 수 있다", "어느 정도 비용이 든다", "거의 불가능하다"] },
+    { id: 6, kind: "single", text: "주변 사람들의 의견은 어떤 편인가요?", options: ["대체로 찬성", "의견이 갈린다", "대체로 반대", "아직 물어보지 않았다"] },
+    { id: 7, kind: "scale", text: "새로운 변화를 얼마나 선호하시나요?", min: 1, max: 5, minLabel: "가급적 피하고 싶다", maxLabel: "적극적으로 즐긴다" },
+    { id: 8, kind: "single", text: "이 결정과 관련된 정보는 충분히 갖고 계신가요?", options: ["충분하다", "일부만 알고 있다", "거의 모른다"] },
+    { id: 9, kind: "single", text: "실패했을 때 감당할 수 있는 위험 수준은?", options: ["높은 위험도 괜찮다", "중간 정도", "위험은 최소화하고 싶다"] },
+    { id: 10, kind: "multi", text: "이 결정으로 얻고 싶은 것을 모두 골라주세요.", options: ["성장", "여유", "경제적 이득", "인간관계"] },
+    { id: 11, kind: "single", text: "현재 상황에 대한 만족도는 어떤가요?", options: ["매우 만족", "보통", "불만족"] },
+    { id: 12, kind: "single", text: "결정에 투자할 수 있는 시간은 어느 정도인가요?", options: ["거의 없다", "주말 정도", "충분하다"] },
+    { id: 13, kind: "single", text: "비슷한 결정을 해본 경험이 있나요?", options: ["여러 번 있다", "한두 번 있다", "처음이다"] },
+    { id: 14, kind: "single", text: "직관과 분석 중 어느 쪽을 더 신뢰하시나요?", options: ["직관", "분석", "둘 다 비슷하게"] },
+    { id: 15, kind: "single", text: "이 결정이 가족이나 동료에게 미치는 영향은?", options: ["크다", "조금 있다", "거의 없다"] },
+    { id: 16, kind: "single", text: "장기 목표와 이 결정은 얼마나 관련이 있나요?", options: ["직접적으로 연결된다", "간접적으로 관련된다", "관련이 없다"] },
+    { id: 17, kind: "single", text: "선택지 중 마음이 더 끌리는 쪽이 이미 있나요?", options: ["분명히 있다", "약간 기운다", "전혀 없다"] },
+    { id: 18, kind: "single", text: "결정 후 후회할 가능성이 가장 큰 경우는?", options: ["시도하지 않았을 때", "잘못 선택했을 때", "너무 늦게 결정했을 때"] },
+    { id: 19, kind: "single", text: "현재 에너지와 컨디션은 어떤가요?", options: ["매우 좋다", "보통이다", "지쳐 있다"] },
+    { id: 20, kind: "text", text: "1년 뒤 이상적인 모습을 한 문장으로 적어주세요." }
+  ],
+  en: [
+    { id: 1, kind: "single", text: "When do you need to make this decision?", options: ["This week", "Within a month", "I have three months or more"] },
+    { id: 2, kind: "ranking", text: "Order these criteria by importance.", options: ["Cost", "Time", "Satisfaction", "Stability"] },
+    { id: 3, kind: "single", text: "How much budget can you spend?", options: ["As little as possible", "A moderate amount", "Plenty", "Budget doesn't matter"] },
+    { id: 4, kind: "single", text: "How long will this decision affect you?", options: ["A few weeks", "A few months", "Years or more"] },
+    { id: 5, kind: "single", text: "Can you undo it if the result disappoints?", options: ["Easily", "At some cost", "Hardly at all"] },
+    { id: 6, kind: "single", text: "What do the people around you think?", options: ["Mostly in favor", "Opinions are split", "Mostly against", "I haven't asked yet"] },
+    { id: 7, kind: "scale", text: "How much do you enjoy change?", min: 1, max: 5, minLabel: "I avoid it when I can", maxLabel: "I actively enjoy it" },
+    { id: 8, kind: "single", text: "Do you have enough information about this decision?", options: ["Enough", "Only some", "Hardly any"] },
+    { id: 9, kind: "single", text: "How much risk can you take if it fails?", options: ["High risk is fine", "Moderate", "I want to minimize risk"] },
+    { id: 10, kind: "multi", text: "Select everything you hope to gain from this decision.", options: ["Growth", "Free time", "Financial gain", "Relationships"] },
+    { id: 11, kind: "single", text: "How satisfied are you with your current situation?", options: ["Very satisfied", "It's okay", "Dissatisfied"] },
+    { id: 12, kind: "single", text: "How much time can you invest in deciding?", options: ["Almost none", "A weekend or so", "Plenty"] },
+    { id: 13, kind: "single", text: "Have you made a similar decision before?", options: ["Several times", "Once or twice", "This is the first time"] },
+    { id: 14, kind: "single", text: "Which do you trust more, intuition or analysis?", options: ["Intuition", "Analysis", "Both about equally"] },
+    { id: 15, kind: "single", text: "How much does this decision affect family or colleagues?", options: ["A lot", "A little", "Hardly at all"] },
+    { id: 16, kind: "single", text: "How closely is this decision tied to your long-term goals?", options: ["Directly", "Indirectly", "Not at all"] },
+    { id: 17, kind: "single", text: "Is there an option you already lean toward?", options: ["Clearly", "Slightly", "Not at all"] },
+    { id: 18, kind: "single", text: "When would you be most likely to regret it?", options: ["If I never tried", "If I chose wrong", "If I decided too late"] },
+    { id: 19, kind: "single", text: "How are your energy and condition right now?", options: ["Very good", "Average", "Worn out"] },
+    { id: 20, kind: "text", text: "Describe in one sentence where you'd ideally be a year from now." }
+  ]
+};
+
+/** Stand-ins for a single regenerated question, picked by the position being replaced. */
+export const MOCK_SPARE_QUESTIONS: Record<Locale, Question[]> = {
+  ko: [
+    { id: 1, kind: "single", text: "이 결정을 누구와 가장 먼저 상의하고 싶나요?", options: ["가족", "친구", "동료나 선배", "혼자 정하고 싶다"] },
+    { id: 1, kind: "scale", text: "지금 이 결정이 주는 스트레스는 어느 정도인가요?", min: 1, max: 5, minLabel: "거의 없음", maxLabel: "매우 큼" },
+    { id: 1, kind: "multi", text: "결정을 망설이게 만드는 것을 모두 고르세요.", options: ["돈", "시간", "주변의 시선", "실패에 대한 두려움"] },
+    { id: 1, kind: "text", text: "이 결정에서 절대 양보할 수 없는 조건이 있다면 적어주세요." }
+  ],
+  en: [
+    { id: 1, kind: "single", text: "Who would you talk this decision over with first?", options: ["Family", "Friends", "A colleague or mentor", "I'd rather decide alone"] },
+    { id: 1, kind: "scale", text: "How stressful is this decision for you right now?", min: 1, max: 5, minLabel: "Barely", maxLabel: "Very" },
+    { id: 1, kind: "multi", text: "Select everything that makes you hesitate.", options: ["Money", "Time", "What others think", "Fear of failing"] },
+    { id: 1, kind: "text", text: "Is there a condition you will not compromise on? Describe it." }
+  ]
+};
+
+/**
+ * `count` questions from the fixtures, numbered from 1; repeats are marked so they stay distinct.
+ * The spares are kept out so a regenerated question never duplicates one already asked.
+ */
+export const mockQuestions = (locale: Locale, count: number): Question[] => {
+  const pool = MOCK_QUESTIONS[locale];
+  return Array.from({ length: count }, (_, i) => {
+    const question = pool[i % pool.length];
+    const round = Math.floor(i / pool.length);
+    return { ...question, id: i + 1, text: round > 0 ? `${question.text} (${round + 1})` : question.text };
+  });
+};
+
+export const MOCK_ANALYSIS: Record<Locale, AnalysisResult> = {
+  ko: {
+    finalRecommendation: "지금은 작은 규모로 먼저 시도해보고, 결과를 확인한 뒤 본격적으로 결정하세요.",
+    summary: "답변을 보면 변화에 대한 의지는 있지만 위험을 최소화하고 싶어 하십니다. 단계적으로 접근하면 두 가지를 모두 만족시킬 수 있습니다.",
+    reasoning: [
+      "결정을 되돌리기 어려운 만큼 작은 실험으로 검증하는 것이 안전합니다.",
+      "정보가 일부만 확보된 상태이므로 추가 정보를 모을 시간이 필요합니다.",
+      "장기 목표와의 연관성이 높아 시도 자체의 가치가 큽니다."
+    ],
+    pros: ["위험을 통제하면서 경험을 쌓을 수 있습니다.", "주변의 의견을 반영할 여유가 생깁니다."],
+    cons: ["최종 결정까지 시간이 더 걸릴 수 있습니다.", "작은 시도만으로는 전체 그림을 보기 어려울 수 있습니다."],
+    nextSteps: [
+      "이번 주 안에 시도해볼 수 있는 가장 작은 단계를 정하세요.",
+      "결정에 필요한 정보 세 가지를 목록으로 정리하세요.",
+      "신뢰하는 사람 한 명에게 의견을 물어보세요.",
+      "한 달 뒤 결과를 돌아볼 날짜를 달력에 표시하세요."
+    ],
+    confidence: {
+      score: 55,
+      rationale: "변화를 원한다는 답변과 위험을 피하고 싶다는 답변이 엇갈려 확신하기 어렵습니다.",
+      contradictions: [
+        { questionIds: [7, 9], explanation: "변화를 즐긴다고 답하셨지만, 실패 위험은 최소화하고 싶다고 하셨습니다." }
+      ],
+      biases: [
+        { kind: "statusQuo", explanation: "현재에 만족한다는 답변이 새로운 선택지를 실제보다 불리하게 보이게 할 수 있습니다.", questionIds: [11] },
+        { kind: "lossAversion", explanation: "잃을 것에 대한 걱정이 얻을 것보다 크게 반영되어 있습니다.", questionIds: [9, 18] }
+      ],
+      runnerUp: { name: "지금 상태 유지", closeness: 70, explanation: "되돌리기 어려운 비용이 더 크다면 현재 상태를 유지하는 편이 나을 수 있습니다." }
+    }
+  },
+  en: {
+    finalRecommendation: "Try it on a small scale first, then commit once you've seen the results.",
+    summary: "Your answers show a wish for change alongside a desire to keep risk low. A step-by-step approach satisfies both.",
+    reasoning: [
+      "The decision is hard to undo, so validating it with a small experiment is safer.",
+      "You only have part of the information, so you need time to gather more.",
+      "It is closely tied to your long-term goals, so trying it is valuable in itself."
+    ],
+    pros: ["You gain experience while keeping risk under control.", "You have room to take other people's views into account."],
+    cons: ["Reaching a final decision may take longer.", "A small trial may not show the whole picture."],
+    nextSteps: [
+      "Pick the smallest step you could try this week.",
+      "List the three pieces of information you need to decide.",
+      "Ask one person you trust for their opinion.",
+      "Mark a date a month from now to review the results."
+    ],
+    confidence: {
+      score: 55,
+      rationale: "Your answers both welcome change and avoid risk, so the direction is not clear-cut.",
+      contradictions: [
+        { questionIds: [7, 9], explanation: "You say you enjoy change, but also that you want to minimize the risk of failing." }
+      ],
+      biases: [
+        { kind: "statusQuo", explanation: "Being satisfied with the current situation may make the new option look worse than it is.", questionIds: [11] },
+        { kind: "lossAversion", explanation: "Worry about what you could lose weighs more in your answers than what you could gain.", questionIds: [9, 18] }
+      ],
+      runnerUp: { name: "Keep things as they are", closeness: 70, explanation: "If undoing the change turns out to be costly, staying put could come out ahead." }
+    }
+  }
+};
+
+const MOCK_CRITERIA: Record<Locale, Criterion[]> = {
+  ko: [
+    { name: "비용 부담", weight: 4, questionIds: [3] },
+    { name: "위험 수준", weight: 3, questionIds: [5, 9] },
+    { name: "장기 목표 부합", weight: 5, questionIds: [16] },
+    { name: "현재 만족도", weight: 2, questionIds: [11] }
+  ],
+  en: [
+    { name: "Cost", weight: 4, questionIds: [3] },
+    { name: "Risk", weight: 3, questionIds: [5, 9] },
+    { name: "Fit with long-term goals", weight: 5, questionIds: [16] },
+    { name: "Current satisfaction", weight: 2, questionIds: [11] }
+  ]
+};
+
+/** Builds a deterministic matrix for whatever alternatives the user entered. */
+export const mockMatrix = (alternatives: string[], locale: Locale): DecisionMatrix => ({
+  criteria: MOCK_CRITERIA[locale],
+  alternatives: alternatives.map((name, i) => ({
+    name,
+    scores: MOCK_CRITERIA[locale].map((_, j) => ((i * 5 + j * 3) % 7) + 3)
+  }))
+});
+
+/** Builds deterministic group insights naming whoever took part. */
+export const mockGroupInsights = (participants: string[], locale: Locale): GroupInsights => {
+  const [first, second = first] = participants;
+  return locale === 'ko'
+    ? {
+      agreements: ["모두 장기 목표와의 연관성을 가장 중요하게 여깁니다.", "위험을 단계적으로 줄이는 방식에 공감합니다."],
+      disagreements: [`${first}님은 빠른 실행을, ${second}님은 충분한 준비를 더 원합니다.`, "감당할 수 있는 예산 범위에 차이가 있습니다."]
+    }
+    : {
+      agreements: ["Everyone ranks fit with long-term goals highest.", "All of you prefer reducing the risk step by step."],
+      disagreements: [`${first} wants to move quickly, while ${second} wants more preparation.`, "You differ on how large a budget is acceptable."]
+    };
+};
+
+export const MOCK_ATTACHMENT: Record<Locale, string> = {
+  ko: "문서 요약: 연봉은 현재보다 15% 높고, 입사는 다음 달 1일입니다. 주 2회 재택근무가 가능하며, 수습 기간은 3개월입니다.",
+  en: "Document summary: the salary is 15% above the current one and the start date is the 1st of next month. Remote work is allowed twice a week, and probation lasts three months."
+};
+
+export const MOCK_FOLLOW_UP: Record<Locale, string> = {
+  ko: "좋은 질문입니다. 그 조건이라면 위험 부담이 줄어드는 만큼 시도의 규모를 조금 더 키워도 괜찮습니다. 다만 결과를 확인하고 결정한다는 원칙은 그대로 유지하는 것을 권합니다.",
+  en: "Good question. Under that condition the risk shrinks, so you could make the first trial somewhat larger. I would still keep the rule of checking the results before committing fully."
+};
+
+export const MOCK_REVISION: Record<Locale, AnalysisResult> = {
+  ko: {
+    finalRecommendation: "조건이 바뀐 만큼 이번에는 본격적으로 실행에 옮기세요.",
+    summary: "말씀하신 변화로 가장 큰 걸림돌이던 위험 부담이 줄었습니다. 단계적으로 검증하기보다 바로 실행하는 편이 목표에 더 빨리 다가갑니다.",
+    reasoning: [
+      "바뀐 조건 덕분에 실패하더라도 감당할 수 있는 범위가 넓어졌습니다.",
+      "장기 목표와의 연관성이 높아 빨리 시작할수록 얻는 것이 많습니다.",
+      "부족한 정보는 실행하면서 채워도 충분합니다."
+    ],
+    pros: ["목표에 더 빨리 다가갈 수 있습니다.", "결정을 미루며 드는 에너지를 아낄 수 있습니다."],
+    cons: ["초기 비용이 더 커집니다.", "예상하지 못한 문제에 대비할 시간이 줄어듭니다."],
+    nextSteps: [
+      "이번 달 안에 실행할 구체적인 날짜를 정하세요.",
+      "바뀐 조건을 전제로 예산을 다시 짜세요.",
+      "첫 달에 점검할 지표 두 가지를 정하세요."
+    ],
+    confidence: {
+      score: 78,
+      rationale: "바뀐 조건으로 위험에 대한 걱정이 줄어 답변들이 한 방향을 가리킵니다.",
+      contradictions: [],
+      biases: [],
+      runnerUp: { name: "작게 먼저 시도하기", closeness: 40, explanation: "예상보다 초기 비용이 크다면 단계적으로 시작하는 편이 다시 나아집니다." }
+    }
+  },
+  en: {
+    finalRecommendation: "With the changed conditions, go ahead and commit this time.",
+    summary: "The change you described removes the biggest obstacle, which was the risk. Acting now gets you to your goal faster than testing step by step.",
+    reasoning: [
+      "The new condition widens how much failure you can absorb.",
+      "The decision is tied closely to your long-term goals, so starting early pays off.",
+      "You can fill in the missing information as you go."
+    ],
+    pros: ["You reach your goal sooner.", "You save the energy spent on putting the decision off."],
+    cons: ["The upfront cost is larger.", "There is less time to prepare for surprises."],
+    nextSteps: [
+      "Set a concrete start date within this month.",
+      "Redo the budget with the new condition in mind.",
+      "Choose two measures to review after the first month."
+    ],
+    confidence: {
+      score: 78,
+      rationale: "With the risk reduced by the change, your answers now point the same way.",
+      contradictions: [],
+      biases: [],
+      runnerUp: { name: "Try it small first", closeness: 40, explanation: "If the upfront cost turns out higher than expected, starting small wins again." }
+    }
+  }
+};
+
+/** Stand-ins for the clarifying questions asked after a low-confidence analysis. */
+export const MOCK_CLARIFYING_QUESTIONS: Record<Locale, Question[]> = {
+  ko: [
+    { id: 1, kind: "single", text: "변화를 원하는 마음과 위험을 피하고 싶은 마음 중 지금 더 큰 쪽은?", options: ["변화를 원하는 마음", "위험을 피하고 싶은 마음", "비슷하다"] },
+    { id: 2, kind: "scale", text: "작게 시도했다가 실패해도 괜찮다고 느끼는 정도는?", min: 1, max: 5, minLabel: "전혀 아니다", maxLabel: "완전히 괜찮다" },
+    { id: 3, kind: "single", text: "지금 상태를 1년 더 유지한다면 어떤 기분일까요?", options: ["안도할 것 같다", "아쉬울 것 같다", "답답할 것 같다"] }
+  ],
+  en: [
+    { id: 1, kind: "single", text: "Which is stronger right now: wanting change or wanting to avoid risk?", options: ["Wanting change", "Avoiding risk", "About the same"] },
+    { id: 2, kind: "scale", text: "How acceptable would it feel if a small trial failed?", min: 1, max: 5, minLabel: "Not at all", maxLabel: "Completely fine" },
+    { id: 3, kind: "single", text: "How would you feel keeping things as they are for another year?", options: ["Relieved", "A bit regretful", "Stuck"] }
+  ]
+};
@@ -0,0 +1,143 @@
+import { Schema } from "@google/genai";
+import { GenerateRequest, LLMProvider, ModelTier } from "./types";
+import { ConfigError, errorFromStatus, SafetyBlockedError } from "../errors";
+
+interface OpenAICompatibleConfig {
+  baseUrl: string;
+  apiKey?: string;
+  models: Record<ModelTier, string>;
+}
+
+const readConfig = (): OpenAICompatibleConfig => {
+  const baseUrl = process.env.OPENAI_BASE_URL;
+  if (!baseUrl || baseUrl === 'undefined' || baseUrl.trim() === '') {
+    throw new ConfigError();
+  }
+  const defaultModel = process.env.OPENAI_MODEL || 'local-model';
+  return {
+    baseUrl: baseUrl.replace(/\/+$/, ''),
+    apiKey: process.env.OPENAI_API_KEY,
+    models: {
+      fast: process.env.OPENAI_FAST_MODEL || defaultModel,
+      pro: process.env.OPENAI_PRO_MODEL || defaultModel
+    }
+  };
+};
+
+// Gemini schemas use upper-case OpenAPI type names and a few Gemini-only keys;
+// OpenAI-style servers (llama.cpp, Ollama, vLLM) expect plain JSON Schema.
+export const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const out: Record<string, unknown> = {};
+  if (schema.type) out.type = schema.type.toLowerCase();
+  if (schema.description) out.description = schema.description;
+  if (schema.enum) out.enum = schema.enum;
+  if (schema.minimum !== undefined) out.minimum = schema.minimum;
+  if (schema.maximum !== undefined) out.maximum = schema.maximum;
+  if (schema.minItems !== undefined) out.minItems = Number(schema.minItems);
+  if (schema.maxItems !== undefined) out.maxItems = Number(schema.maxItems);
+  if (schema.items) out.items = toJsonSchema(schema.items);
+  if (schema.anyOf) out.anyOf = schema.anyOf.map(toJsonSchema);
+  if (schema.properties) {
+    out.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  if (schema.required) out.required = schema.required;
+  return out;
+};
+
+// Files go out as `file` content parts, which not every OpenAI-style server understands.
+const toContent = ({ prompt, files }: GenerateRequest) =>
+  files?.length
+    ? [
+      { type: 'text', text: prompt },
+      ...files.map(f => ({ type: 'file', file: { filename: f.name, file_data: `data:${f.mimeType};base64,${f.data}` } }))
+    ]
+    : prompt;
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+const reportUsage = ({ tier, onUsage }: GenerateRequest, usage?: OpenAIUsage) => {
+  onUsage?.({ model: readConfig().models[tier], promptTokens: usage?.prompt_tokens, responseTokens: usage?.completion_tokens });
+};
+
+const post = async (request: GenerateRequest, stream: boolean) => {
+  const { task, tier, schema, temperature, signal } = request;
+  const config = readConfig();
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+
+  const response = await fetch(`${config.baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers,
+    signal,
+    body: JSON.stringify({
+      model: config.models[tier],
+      messages: [{ role: 'user', content: toContent(request) }],
+      stream,
+      ...(temperature !== undefined && { temperature }),
+      // Asks for a final chunk with the token counts; servers that do not support it ignore it.
+      ...(stream && { stream_options: { include_usage: true } }),
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: task, schema: toJsonSchema(schema) }
+      }
+    })
+  });
+
+  if (!response.ok) {
+    throw errorFromStatus(response.status, await response.text().catch(() => undefined));
+  }
+  return response;
+};
+
+/** Yields the `data:` payloads of a server-sent event stream until `[DONE]`. */
+async function* readEvents(body: ReadableStream<Uint8Array>) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        const data = line.replace(/^data:\s*/, '').trim();
+        if (!line.startsWith('data:') || !data) continue;
+        if (data === '[DONE]') return;
+        yield data;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export const createOpenAICompatibleProvider = (): LLMProvider => ({
+  name: 'openai',
+  async generate(request: GenerateRequest) {
+    const data = await (await post(request, false)).json();
+    const choice = data?.choices?.[0];
+    if (choice?.finish_reason === 'content_filter') throw new SafetyBlockedError({ cause: choice });
+    reportUsage(request, data?.usage);
+    return choice?.message?.content ?? '';
+  },
+  async *generateStream(request: GenerateRequest) {
+    const response = await post(request, true);
+    if (!response.body) return;
+    let usage: OpenAIUsage | undefined;
+    for await (const data of readEvents(response.body)) {
+      const event = JSON.parse(data);
+      usage = event?.usage ?? usage;
+      const choice = event?.choices?.[0];
+      if (choice?.finish_reason === 'content_filter') throw new SafetyBlockedError({ cause: choice });
+      if (choice?.delta?.content) yield choice.delta.content as string;
+    }
+    reportUsage(request, usage);
+  }
+});
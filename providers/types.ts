@@ -0,0 +1,68 @@
+import { Schema } from "@google/genai";
+import { Locale } from "../types";
+
+/** Which service operation a request belongs to; lets offline backends pick a fixture. */
+export type LLMTask = 'questions' | 'nextQuestions' | 'replacementQuestion' | 'analysis' | 'followUp' | 'revision' | 'attachment' | 'clarifyingQuestions';
+
+/** Abstract model tier. Each provider maps it onto a concrete model name. */
+export type ModelTier = 'fast' | 'pro';
+
+export interface GenerateRequest {
+  task: LLMTask;
+  tier: ModelTier;
+  prompt: string;
+  schema: Schema;
+  context?: RequestContext;
+  /** Sampling temperature; the backend's default applies when omitted. */
+  temperature?: number;
+  /** Documents sent alongside the prompt, such as a PDF the model should read. */
+  files?: InlineFile[];
+  /** Cancels the call; the returned promise or stream then rejects with the signal's reason. */
+  signal?: AbortSignal;
+  /** Receives the model name and token counts once the backend reports them. */
+  onUsage?: (usage: ModelUsage) => void;
+}
+
+/** What a backend reports about one call. Token counts are missing when it reports none. */
+export interface ModelUsage {
+  model: string;
+  promptTokens?: number;
+  /** Output tokens, including any the model spent thinking. */
+  responseTokens?: number;
+}
+
+export interface InlineFile {
+  name: string;
+  mimeType: string;
+  /** Base64-encoded file contents. */
+  data: string;
+}
+
+/** Structured inputs the prompt was built from. Offline backends read these instead of the prompt text. */
+export interface RequestContext {
+  /**
+   * For paged tasks such as `nextQuestions`: how many items already exist.
+   * For `replacementQuestion`: the position of the question being replaced.
+   */
+  offset?: number;
+  /** How many items the prompt asks for, such as the number of questions. */
+  count?: number;
+  /** Candidate options the user is choosing between, if any. */
+  alternatives?: string[];
+  /** Language the model was asked to write in. */
+  locale?: Locale;
+  /** Names of the people answering, for group decisions. */
+  participants?: string[];
+  /** How many attachments the prompt includes, labelled A1, A2, ... */
+  attachments?: number;
+}
+
+export interface LLMProvider {
+  readonly name: ProviderName;
+  /** Returns the raw JSON text produced by the model for the given prompt and schema. */
+  generate(request: GenerateRequest): Promise<string>;
+  /** Same as `generate`, but yields the raw JSON text in chunks as the model produces it. */
+  generateStream(request: GenerateRequest): AsyncIterable<string>;
+}
+
+export type ProviderName = 'gemini' | 'openai' | 'mock';
@@ -0,0 +1,104 @@
+import { DecisionServiceError, TimeoutError, toServiceError } from "./errors";
+
+export interface RetryPolicy {
+  attempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { attempts: 3, baseDelayMs: 800, maxDelayMs: 8000 };
+
+interface Deadline {
+  signal: AbortSignal;
+  /** Restarts the timer; streaming calls use it so the timeout applies between chunks. */
+  touch: () => void;
+  timedOut: () => boolean;
+  dispose: () => void;
+}
+
+/** A signal that aborts when `outer` does, or when `timeoutMs` passes without a `touch()`. */
+const createDeadline = (timeoutMs: number, outer?: AbortSignal): Deadline => {
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const touch = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort(new TimeoutError());
+    }, timeoutMs);
+  };
+  const onAbort = () => controller.abort(outer?.reason);
+
+  if (outer?.aborted) controller.abort(outer.reason);
+  outer?.addEventListener('abort', onAbort, { once: true });
+  touch();
+
+  return {
+    signal: controller.signal,
+    touch,
+    timedOut: () => timedOut,
+    dispose: () => {
+      clearTimeout(timer);
+      outer?.removeEventListener('abort', onAbort);
+    }
+  };
+};
+
+/**
+ * Waits `ms`, rejecting with the signal's reason if it aborts first. The abort listener is
+ * removed once the wait ends, so a signal shared across many waits does not pile them up.
+ */
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  signal?.throwIfAborted();
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal?.reason);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/** Exponential backoff with jitter, so parallel clients do not retry in lockstep. */
+const backoff = (attempt: number, policy: RetryPolicy) =>
+  Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1)) * (0.5 + Math.random() / 2);
+
+export interface RetryOptions {
+  timeoutMs: number;
+  signal?: AbortSignal;
+  policy?: RetryPolicy;
+  /** Called before each retry with the error that caused it. */
+  onRetry?: (error: DecisionServiceError) => void;
+}
+
+/**
+ * Runs `call` with a per-attempt timeout, retrying transient `DecisionServiceError`s with
+ * exponential backoff. Errors are normalized through `toServiceError`; cancellation through
+ * `signal` is rethrown as-is and never retried.
+ */
+export const withRetry = async <T>(
+  call: (signal: AbortSignal, touch: () => void) => Promise<T>,
+  { timeoutMs, signal, policy = DEFAULT_RETRY_POLICY, onRetry }: RetryOptions
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    const deadline = createDeadline(timeoutMs, signal);
+    try {
+      return await call(deadline.signal, deadline.touch);
+    } catch (err) {
+      if (signal?.aborted) throw signal.reason ?? err;
+      const error = deadline.timedOut() ? new TimeoutError({ cause: err }) : toServiceError(err);
+      if (!(error instanceof DecisionServiceError) || !error.retryable || attempt >= policy.attempts) {
+        throw error;
+      }
+      console.warn(`${error.name} on attempt ${attempt}; retrying`, err);
+      onRetry?.(error);
+      await sleep(backoff(attempt, policy), signal);
+    } finally {
+      deadline.dispose();
+    }
+  }
+};
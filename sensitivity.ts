@@ -0,0 +1,79 @@
+import { AnalysisResult, Answer, Participant, Question } from "./types";
+import { DecisionContext } from "./geminiService";
+import { rankAlternatives } from "./matrix";
+
+/** Analyses kept per session; the oldest is dropped first. */
+const MAX_CACHED_ANALYSES = 8;
+
+export type AnalysisCache = Record<string, AnalysisResult>;
+
+// FNV-1a; only needs to tell answer sets within one session apart.
+const hash = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(36);
+};
+
+/**
+ * Identifies everything an analysis depends on: the prompt context, the questions and their answers.
+ * Group sessions pass their participants, whose names and answers all count.
+ */
+export const answerSetKey = (context: DecisionContext, questions: Question[], answers: Record<number, Answer> | Participant[]) =>
+  hash(JSON.stringify(Array.isArray(answers)
+    ? [context, questions, answers.map(p => [p.name, questions.map(q => p.answers[q.id] ?? null)])]
+    : [context, questions.map(q => [q, answers[q.id] ?? null])]));
+
+export const cacheAnalysis = (cache: AnalysisCache, key: string, result: AnalysisResult): AnalysisCache => {
+  const entries = Object.entries(cache).filter(([k]) => k !== key);
+  return Object.fromEntries([...entries, [key, result]].slice(-MAX_CACHED_ANALYSES));
+};
+
+export interface ListDiff {
+  added: string[];
+  removed: string[];
+}
+
+/** How a re-run analysis differs from the one before it. */
+export interface AnalysisDiff {
+  recommendationChanged: boolean;
+  before: string;
+  after: string;
+  reasoning: ListDiff;
+  pros: ListDiff;
+  cons: ListDiff;
+  nextSteps: ListDiff;
+}
+
+// Models reword freely, so items are compared ignoring case, spacing and trailing punctuation.
+const normalize = (item: string) => item.toLowerCase().replace(/\s+/g, ' ').replace(/[.!?。]+$/, '').trim();
+
+const diffList = (before: string[], after: string[]): ListDiff => {
+  const had = new Set(before.map(normalize));
+  const has = new Set(after.map(normalize));
+  return {
+    added: after.filter(item => !had.has(normalize(item))),
+    removed: before.filter(item => !has.has(normalize(item)))
+  };
+};
+
+/**
+ * With a scoring matrix the recommendation counts as changed when another alternative ranks first;
+ * otherwise the recommendation sentences are compared.
+ */
+const recommendationChanged = (before: AnalysisResult, after: AnalysisResult) =>
+  before.matrix && after.matrix
+    ? rankAlternatives(before.matrix)[0]?.name !== rankAlternatives(after.matrix)[0]?.name
+    : normalize(before.finalRecommendation) !== normalize(after.finalRecommendation);
+
+export const diffAnalyses = (before: AnalysisResult, after: AnalysisResult): AnalysisDiff => ({
+  recommendationChanged: recommendationChanged(before, after),
+  before: before.finalRecommendation,
+  after: after.finalRecommendation,
+  reasoning: diffList(before.reasoning, after.reasoning),
+  pros: diffList(before.pros, after.pros),
+  cons: diffList(before.cons, after.cons),
+  nextSteps: diffList(before.nextSteps, after.nextSteps)
+});
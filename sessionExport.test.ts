@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { AppStage, DecisionState } from './types';
+import { fromSessionFile, toSessionFile } from './sessionExport';
+import { MOCK_ANALYSIS, MOCK_REVISION, mockQuestions } from './providers/mockFixtures';
+
+const QUESTIONS = mockQuestions('en', 20);
+
+const session = (alternatives: string[]): DecisionState => ({
+  id: 'local',
+  topic: 'Should I move to Busan?',
+  alternatives,
+  adaptive: false,
+  locale: 'en',
+  questions: QUESTIONS,
+  answers: {},
+  currentStep: QUESTIONS.length - 1,
+  stage: AppStage.RESULT,
+  result: MOCK_ANALYSIS.en,
+  followUps: [
+    { role: 'user', text: 'What if I stay?' },
+    { role: 'assistant', text: 'Then start smaller.', revision: MOCK_REVISION.en }
+  ],
+  createdAt: 0,
+  updatedAt: 0
+});
+
+const roundTrip = (state: DecisionState) => fromSessionFile(JSON.parse(JSON.stringify(toSessionFile(state))));
+
+describe('session files', () => {
+  it('round-trip a finished session', () => {
+    const restored = roundTrip(session([]));
+    expect(restored.stage).toBe(AppStage.RESULT);
+    expect(restored.result).toEqual(MOCK_ANALYSIS.en);
+    expect(restored.followUps?.[1].revision).toEqual(MOCK_REVISION.en);
+  });
+
+  it('round-trip a session with a single listed alternative, which was analyzed without alternatives', () => {
+    const restored = roundTrip(session(['Move to Busan']));
+    expect(restored.alternatives).toEqual(['Move to Busan']);
+    expect(restored.stage).toBe(AppStage.RESULT);
+    expect(restored.result).toEqual(MOCK_ANALYSIS.en);
+    expect(restored.followUps).toHaveLength(2);
+    expect(restored.followUps?.[1].revision).toEqual(MOCK_REVISION.en);
+  });
+
+  it.each(['toString', 'constructor', '__proto__'])('drops an inherited property name given as the locale (%s)', locale => {
+    const file = toSessionFile(session([]));
+    const restored = fromSessionFile({ ...file, session: { ...file.session, locale } });
+    expect(restored.locale).toBeUndefined();
+  });
+});
@@ -0,0 +1,392 @@
+import { AnalysisConfidence, AnalysisResult, Answer, AppStage, Attachment, DecisionState, FollowUpMessage, GenerationSettings, JournalEntry, Locale, Participant, Question, QuestionKind } from "./types";
+import { formatAnswer, isAnswered } from "./answers";
+import { createId } from "./storage";
+import { QUESTION_KINDS, validateAnalysis } from "./validation";
+import { comparableAlternatives, rankAlternatives } from "./matrix";
+import { getMessages, isLocale } from "./i18n";
+import { hasFinished, resumeIndex } from "./group";
+import { normalizeSettings } from "./settings";
+import { confidenceLevel, questionNumbers } from "./confidence";
+
+export const SESSION_FORMAT = 'decision-maker-20/session';
+export const SESSION_FORMAT_VERSION = 1;
+
+const URL_PARAM = 'session';
+const MARKDOWN_MARKER = 'decision-maker-20:session';
+
+/** Portable, versioned form of a session. Local bookkeeping (ids, stage, timestamps) is left out. */
+export interface SessionFile {
+  format: typeof SESSION_FORMAT;
+  version: number;
+  exportedAt: string;
+  session: {
+    topic: string;
+    alternatives: string[];
+    adaptive: boolean;
+    /** Missing in files exported before languages were selectable. */
+    locale?: Locale;
+    /** Missing in files exported before generation settings existed. */
+    settings?: GenerationSettings;
+    questions: Question[];
+    answers: Record<number, Answer>;
+    /** Group sessions only; everyone's answers, with `answers` left empty. */
+    participants?: Participant[];
+    /** Context the user attached; missing in files exported before attachments existed. */
+    attachments?: Attachment[];
+    result: AnalysisResult | null;
+    followUps?: FollowUpMessage[];
+  };
+}
+
+export type ImportFailure = 'notSession' | 'newerVersion' | 'corrupted' | 'corruptedResult' | 'unreadable' | 'badLink';
+
+/** Raised when an imported file or link is not a session this version can read. The UI translates `reason`. */
+export class SessionImportError extends Error {
+  readonly reason: ImportFailure;
+
+  constructor(reason: ImportFailure, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'SessionImportError';
+    this.reason = reason;
+  }
+}
+
+export const toSessionFile = (state: DecisionState): SessionFile => ({
+  format: SESSION_FORMAT,
+  version: SESSION_FORMAT_VERSION,
+  exportedAt: new Date().toISOString(),
+  session: {
+    topic: state.topic,
+    alternatives: state.alternatives ?? [],
+    adaptive: state.adaptive ?? false,
+    locale: state.locale,
+    settings: state.settings,
+    questions: state.questions,
+    answers: state.answers,
+    ...(state.participants && { participants: state.participants }),
+    attachments: state.attachments ?? [],
+    result: state.result,
+    followUps: state.followUps ?? []
+  }
+});
+
+const bulletList = (items: string[]) => items.map(item => `- ${item}`).join('\n');
+
+/** Reasons followed by the names of the attachments they cite. */
+const citedReasons = (result: AnalysisResult, attachments: Attachment[], label: string) =>
+  result.reasoning.map((item, i) => {
+    const names = (result.reasoningSources?.[i] ?? []).flatMap(id => attachments.filter(a => a.id === id).map(a => a.name));
+    return names.length ? `${item} (${label}: ${names.join(', ')})` : item;
+  });
+
+/** The action plan, as a task list once the decision has a journal to tick steps off in. */
+const nextStepList = (steps: string[], journal?: JournalEntry) =>
+  (journal
+    ? steps.map(step => `- [${journal.doneSteps.includes(step) ? 'x' : ' '}] ${step}`)
+    : steps.map((step, i) => `${i + 1}. ${step}`)
+  ).join('\n');
+
+/** The confidence report, citing questions by the numbers used in the answers section. */
+const confidenceSection = (confidence: AnalysisConfidence, questions: Question[], locale: Locale): string[] => {
+  const t = getMessages(locale).report;
+  const c = getMessages(locale).confidence;
+  const refs = (ids: number[]) => {
+    const numbers = questionNumbers(questions, ids);
+    return numbers.length ? ` (${numbers.map(c.questionRef).join(', ')})` : '';
+  };
+  const lines = [
+    `## ${t.confidence}`, '',
+    `**${t.score}: ${confidence.score} / 100** (${c.levels[confidenceLevel(confidence.score)]})`, '',
+    confidence.rationale, ''
+  ];
+  if (confidence.runnerUp) {
+    const { name, closeness, explanation } = confidence.runnerUp;
+    lines.push(`- **${t.runnerUp}:** ${name} (${c.closeness(closeness)})${explanation ? ` — ${explanation}` : ''}`, '');
+  }
+  if (confidence.contradictions.length) {
+    lines.push(`### ${t.contradictions}`, '', bulletList(confidence.contradictions.map(item => `${item.explanation}${refs(item.questionIds)}`)), '');
+  }
+  if (confidence.biases.length) {
+    lines.push(`### ${t.biases}`, '', bulletList(confidence.biases.map(b => `**${c.biasNames[b.kind]}:** ${b.explanation}${refs(b.questionIds)}`)), '');
+  }
+  return lines;
+};
+
+/**
+ * Human-readable report for pasting into docs and tickets, headed in the session's language. The
+ * JSON session is embedded in a trailing HTML comment, which Markdown renderers hide, so the
+ * report can be imported again.
+ */
+export const toMarkdown = (state: DecisionState): string => {
+  const { result } = state;
+  const locale = state.locale ?? 'ko';
+  const t = getMessages(locale).report;
+  const lines: string[] = [`# ${state.topic}`, '', `_${new Date(state.updatedAt).toLocaleString(locale)}_`, ''];
+
+  if (state.alternatives?.length) {
+    lines.push(`## ${t.alternatives}`, '', bulletList(state.alternatives), '');
+  }
+  if (state.attachments?.length) {
+    lines.push(`## ${t.attachments}`, '', bulletList(state.attachments.map(a => a.name)), '');
+  }
+
+  if (result) {
+    lines.push(`## ${t.recommendation}`, '', `**${result.finalRecommendation}**`, '', result.summary, '');
+    if (result.matrix) {
+      const { criteria, alternatives } = result.matrix;
+      lines.push(
+        `## ${t.matrix}`,
+        '',
+        `| ${t.criterion} | ${t.weight} | ${alternatives.map(a => a.name).join(' | ')} |`,
+        `| --- | --- | ${alternatives.map(() => '---').join(' | ')} |`,
+        ...criteria.map((c, i) => `| ${c.name} | ${c.weight} | ${alternatives.map(a => a.scores[i]).join(' | ')} |`),
+        '',
+        rankAlternatives(result.matrix).map((a, i) => `${i + 1}. ${a.name} (${a.total.toFixed(1)})`).join('\n'),
+        ''
+      );
+    }
+    if (result.group) {
+      lines.push(
+        `## ${t.agreements}`, '', bulletList(result.group.agreements), '',
+        `## ${t.disagreements}`, '', bulletList(result.group.disagreements), ''
+      );
+    }
+    lines.push(
+      `## ${t.reasoning}`, '', bulletList(citedReasons(result, state.attachments ?? [], t.sources)), '',
+      `## ${t.pros}`, '', bulletList(result.pros), '',
+      `## ${t.cons}`, '', bulletList(result.cons), '',
+      `## ${t.nextSteps}`, '', nextStepList(result.nextSteps, state.journal), ''
+    );
+    if (result.confidence) {
+      lines.push(...confidenceSection(result.confidence, state.questions, locale));
+    }
+  }
+
+  const journal = state.journal;
+  if (journal && (journal.status || journal.outcome || journal.satisfaction !== undefined)) {
+    const messages = getMessages(locale).journal;
+    lines.push(`## ${t.journal}`, '');
+    if (journal.status) lines.push(`- **${t.status}:** ${messages.status[journal.status]}`);
+    if (journal.satisfaction !== undefined) lines.push(`- **${t.satisfaction}:** ${journal.satisfaction} / 5`);
+    if (journal.outcome) lines.push(`- **${t.outcome}:** ${journal.outcome}`);
+    lines.push('');
+  }
+
+  if (state.participants) {
+    lines.push(`## ${t.participants}`, '', bulletList(state.participants.map(p => p.name)), '');
+  }
+  lines.push(`## ${t.answers}`, '');
+  state.questions.forEach((q, i) => {
+    lines.push(`${i + 1}. **${q.text}**`);
+    if (state.participants) {
+      state.participants.forEach(p => lines.push(`   - ${p.name}: ${formatAnswer(q, p.answers[q.id])}`));
+    } else {
+      lines.push(`   - ${formatAnswer(q, state.answers[q.id])}`);
+    }
+  });
+
+  if (state.followUps?.length) {
+    lines.push('', `## ${t.followUps}`, '');
+    state.followUps.forEach(message => {
+      if (message.role === 'user') {
+        lines.push(`> ${message.text.replace(/\n/g, '\n> ')}`, '');
+      } else if (message.revision) {
+        lines.push(`**${t.revisedRecommendation}: ${message.revision.finalRecommendation}**`, '', message.text, '');
+      } else {
+        lines.push(message.text, '');
+      }
+    });
+  }
+  // `-->` can only occur inside JSON strings, where `\u003e` is an equivalent escape.
+  const payload = JSON.stringify(toSessionFile(state)).replace(/-->/g, '--\\u003e');
+  lines.push('', `<!-- ${MARKDOWN_MARKER} ${payload} -->`, '');
+
+  return lines.join('\n');
+};
+
+/** Keeps the well-formed turns of an imported conversation; revisions that fail validation are dropped. */
+const cleanFollowUps = (raw: unknown, alternatives: string[], questionIds: number[], group: boolean, attachmentIds: string[]): FollowUpMessage[] =>
+  Array.isArray(raw)
+    ? raw.flatMap((m): FollowUpMessage[] => {
+      if (typeof m !== 'object' || m === null || (m.role !== 'user' && m.role !== 'assistant') || typeof m.text !== 'string') {
+        return [];
+      }
+      if (m.role === 'assistant' && m.revision !== undefined) {
+        const checked = validateAnalysis(m.revision, alternatives, questionIds, group);
+        return checked.ok ? [{ role: m.role, text: m.text, revision: withSources(checked.value, m.revision, attachmentIds) }] : [];
+      }
+      return [{ role: m.role, text: m.text }];
+    })
+    : [];
+
+const isQuestion = (value: unknown): value is Question => {
+  const q = value as Partial<Question> & { options?: unknown };
+  return typeof q === 'object' && q !== null
+    && typeof q.id === 'number'
+    && typeof q.text === 'string'
+    && QUESTION_KINDS.includes(q.kind as QuestionKind)
+    && (q.kind === 'scale' || q.kind === 'text' || Array.isArray(q.options));
+};
+
+const ATTACHMENT_SOURCES: Attachment['source'][] = ['file', 'note'];
+
+/** Keeps the well-formed attachments of an imported session, with their ids so citations still resolve. */
+const cleanAttachments = (raw: unknown): Attachment[] =>
+  Array.isArray(raw)
+    ? raw.flatMap((a): Attachment[] =>
+      typeof a === 'object' && a !== null && typeof a.id === 'string' && typeof a.name === 'string'
+        && ATTACHMENT_SOURCES.includes(a.source) && typeof a.content === 'string' && a.content.trim()
+        ? [{
+          id: a.id,
+          name: a.name,
+          source: a.source,
+          content: a.content,
+          originalSize: typeof a.originalSize === 'number' ? a.originalSize : a.content.length,
+          condensed: a.condensed === true
+        }]
+        : [])
+    : [];
+
+/**
+ * Citations are stored already resolved, so they are carried over rather than re-parsed, as long
+ * as they still line up with the reasoning and point at attachments in the file.
+ */
+const withSources = (result: AnalysisResult, raw: unknown, attachmentIds: string[]): AnalysisResult => {
+  const sources = (raw as Partial<AnalysisResult>).reasoningSources;
+  if (!Array.isArray(sources) || sources.length !== result.reasoning.length || !sources.every(Array.isArray)) {
+    return result;
+  }
+  return { ...result, reasoningSources: sources.map(ids => ids.filter(id => attachmentIds.includes(id))) };
+};
+
+/** Keeps the named participants of an imported group session under fresh local ids. */
+const cleanParticipants = (raw: unknown): Participant[] | undefined =>
+  Array.isArray(raw)
+    ? raw.flatMap((p): Participant[] =>
+      typeof p === 'object' && p !== null && typeof p.name === 'string' && p.name.trim()
+        && typeof p.answers === 'object' && p.answers !== null
+        ? [{ id: createId(), name: p.name, answers: p.answers }]
+        : [])
+    : undefined;
+
+/**
+ * Checks an untrusted session file and turns it into a fresh local session. Finished sessions
+ * open on the result; unfinished ones resume at the first unanswered question.
+ */
+export const fromSessionFile = (raw: unknown): DecisionState => {
+  const file = raw as Partial<SessionFile>;
+  if (typeof file !== 'object' || file === null || file.format !== SESSION_FORMAT) {
+    throw new SessionImportError('notSession', "Not a decision session file.");
+  }
+  if (typeof file.version !== 'number' || file.version > SESSION_FORMAT_VERSION) {
+    throw new SessionImportError('newerVersion', `Session format version ${file.version} is newer than ${SESSION_FORMAT_VERSION}.`);
+  }
+
+  const session = file.session;
+  if (!session || typeof session.topic !== 'string' || !Array.isArray(session.questions)
+    || !session.questions.every(isQuestion) || typeof session.answers !== 'object' || session.answers === null) {
+    throw new SessionImportError('corrupted', "The session is missing its topic, questions or answers.");
+  }
+
+  const alternatives = Array.isArray(session.alternatives)
+    ? session.alternatives.filter((a): a is string => typeof a === 'string')
+    : [];
+  const participants = cleanParticipants(session.participants);
+  const group = participants !== undefined;
+  const attachments = cleanAttachments(session.attachments);
+  const attachmentIds = attachments.map(a => a.id);
+  // A lone alternative was never part of the analysis, so the result is checked as it was produced.
+  const compared = comparableAlternatives(alternatives);
+  let result: AnalysisResult | null = null;
+  if (session.result) {
+    const checked = validateAnalysis(session.result, compared, session.questions.map(q => q.id), group);
+    if (!checked.ok) {
+      throw new SessionImportError('corruptedResult', `The session's analysis is invalid: ${checked.issues.join(' ')}`);
+    }
+    result = withSources(checked.value, session.result, attachmentIds);
+  }
+
+  const firstUnanswered = session.questions.findIndex(q => !isAnswered(q, session.answers[q.id]));
+  // Group sessions resume with the first participant who has not finished.
+  const nextParticipant = participants?.find(p => !hasFinished(session.questions, p)) ?? participants?.[0];
+  const resumeStep = nextParticipant ? resumeIndex(session.questions, nextParticipant) : Math.max(firstUnanswered, 0);
+  const now = Date.now();
+  return {
+    id: createId(),
+    topic: session.topic,
+    alternatives,
+    adaptive: session.adaptive === true,
+    locale: isLocale(session.locale) ? session.locale : undefined,
+    settings: session.settings === undefined ? undefined : normalizeSettings(session.settings),
+    questions: session.questions,
+    answers: session.answers,
+    ...(participants && { participants, activeParticipantId: nextParticipant?.id }),
+    attachments,
+    currentStep: result ? Math.max(session.questions.length - 1, 0) : resumeStep,
+    stage: result ? AppStage.RESULT : AppStage.ANSWERING,
+    result,
+    followUps: result ? cleanFollowUps(session.followUps, compared, session.questions.map(q => q.id), group, attachmentIds) : [],
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+/** Reads either an exported `.json` file or a Markdown report containing the embedded session. */
+export const parseSessionText = (text: string): DecisionState => {
+  const embedded = text.match(new RegExp(`<!-- ${MARKDOWN_MARKER} ([\\s\\S]*?) -->`));
+  try {
+    return fromSessionFile(JSON.parse(embedded ? embedded[1] : text));
+  } catch (e) {
+    if (e instanceof SessionImportError) throw e;
+    throw new SessionImportError('unreadable', "The file holds neither session JSON nor an embedded session.", { cause: e });
+  }
+};
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(Array.from(bytes, b => String.fromCharCode(b)).join('')).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (text: string) =>
+  Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), c => c.charCodeAt(0));
+
+const pipe = async (bytes: BlobPart, transform: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer());
+
+/** Encodes the session, deflated and base64url-encoded, into a `#session=` link to this app. */
+export const toShareUrl = async (state: DecisionState, base = window.location.href): Promise<string> => {
+  const json = new TextEncoder().encode(JSON.stringify(toSessionFile(state)));
+  const url = new URL(base);
+  url.hash = `${URL_PARAM}=${toBase64Url(await pipe(json, new CompressionStream('deflate-raw')))}`;
+  return url.toString();
+};
+
+export const isShareHash = (hash: string) =>
+  new URLSearchParams(hash.replace(/^#/, '')).has(URL_PARAM);
+
+/** Decodes a session from a `#session=` fragment, or returns null when the hash holds none. */
+export const fromShareHash = async (hash: string): Promise<DecisionState | null> => {
+  const encoded = new URLSearchParams(hash.replace(/^#/, '')).get(URL_PARAM);
+  if (!encoded) return null;
+  try {
+    const json = await pipe(fromBase64Url(encoded), new DecompressionStream('deflate-raw'));
+    return fromSessionFile(JSON.parse(new TextDecoder().decode(json)));
+  } catch (e) {
+    if (e instanceof SessionImportError) throw e;
+    throw new SessionImportError('badLink', "The share link could not be decoded.", { cause: e });
+  }
+};
+
+/** Triggers a browser download of `content`. */
+export const downloadFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/** File name stem from the topic, safe on every major file system. */
+export const exportFileName = (state: DecisionState) => {
+  const stem = state.topic.replace(/[\\/:*?"<>|\s]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'decision';
+  return `${stem}-${new Date(state.updatedAt).toISOString().slice(0, 10)}`;
+};
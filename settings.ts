@@ -0,0 +1,66 @@
+import { AnalysisDepth, GenerationSettings } from "./types";
+import { ModelTier } from "./providers";
+
+const SETTINGS_KEY = 'decision-maker-20:settings:v1';
+
+export type PresetName = 'quick' | 'standard' | 'thorough';
+
+export const PRESETS: Record<PresetName, GenerationSettings> = {
+  quick: { questionModel: 'fast', analysisModel: 'fast', questionCount: 8, minOptions: 2, maxOptions: 3, temperature: 0.7, depth: 'brief' },
+  standard: { questionModel: 'fast', analysisModel: 'pro', questionCount: 20, minOptions: 3, maxOptions: 4, temperature: 1, depth: 'standard' },
+  thorough: { questionModel: 'pro', analysisModel: 'pro', questionCount: 30, minOptions: 3, maxOptions: 5, temperature: 1, depth: 'deep' }
+};
+
+export const PRESET_NAMES = Object.keys(PRESETS) as PresetName[];
+export const DEFAULT_SETTINGS = PRESETS.standard;
+
+export const MODEL_TIERS: ModelTier[] = ['fast', 'pro'];
+export const ANALYSIS_DEPTHS: AnalysisDepth[] = ['brief', 'standard', 'deep'];
+
+export const SETTING_LIMITS = {
+  questionCount: { min: 3, max: 40 },
+  options: { min: 2, max: 6 },
+  temperature: { min: 0, max: 2 }
+};
+
+const clamp = (value: unknown, { min, max }: { min: number; max: number }, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+/** Brings stored or hand-edited settings back into range; unreadable fields fall back to the default. */
+export const normalizeSettings = (raw: unknown): GenerationSettings => {
+  const v = (typeof raw === 'object' && raw !== null ? raw : {}) as Partial<Record<keyof GenerationSettings, unknown>>;
+  const tier = (value: unknown, fallback: ModelTier) => MODEL_TIERS.includes(value as ModelTier) ? value as ModelTier : fallback;
+  const minOptions = Math.round(clamp(v.minOptions, SETTING_LIMITS.options, DEFAULT_SETTINGS.minOptions));
+  return {
+    questionModel: tier(v.questionModel, DEFAULT_SETTINGS.questionModel),
+    analysisModel: tier(v.analysisModel, DEFAULT_SETTINGS.analysisModel),
+    questionCount: Math.round(clamp(v.questionCount, SETTING_LIMITS.questionCount, DEFAULT_SETTINGS.questionCount)),
+    minOptions,
+    maxOptions: Math.max(minOptions, Math.round(clamp(v.maxOptions, SETTING_LIMITS.options, DEFAULT_SETTINGS.maxOptions))),
+    temperature: clamp(v.temperature, SETTING_LIMITS.temperature, DEFAULT_SETTINGS.temperature),
+    depth: ANALYSIS_DEPTHS.includes(v.depth as AnalysisDepth) ? v.depth as AnalysisDepth : DEFAULT_SETTINGS.depth
+  };
+};
+
+/** The preset the settings are identical to, or null for custom settings. */
+export const matchPreset = (settings: GenerationSettings): PresetName | null =>
+  PRESET_NAMES.find(name => (Object.keys(settings) as (keyof GenerationSettings)[])
+    .every(key => PRESETS[name][key] === settings[key])) ?? null;
+
+export const loadPreferredSettings = (): GenerationSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return saved ? normalizeSettings(JSON.parse(saved)) : DEFAULT_SETTINGS;
+  } catch (e) {
+    console.error(`Failed to read ${SETTINGS_KEY}`, e);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const savePreferredSettings = (settings: GenerationSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error(`Failed to write ${SETTINGS_KEY}`, e);
+  }
+};
@@ -0,0 +1,99 @@
+import { AppStage, DecisionState, Question } from "./types";
+
+const SESSION_KEY = 'decision-maker-20:session:v1';
+const ARCHIVE_KEY = 'decision-maker-20:archive:v1';
+
+export const createId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const readJson = (key: string): unknown => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : null;
+  } catch (e) {
+    console.error(`Failed to read ${key}`, e);
+    return null;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    console.error(`Failed to write ${key}`, e);
+  }
+};
+
+const isDecisionState = (value: unknown): value is DecisionState => {
+  if (typeof value !== 'object' || value === null) return false;
+  const v = value as Partial<DecisionState>;
+  return typeof v.id === 'string'
+    && typeof v.topic === 'string'
+    && Array.isArray(v.questions)
+    && typeof v.answers === 'object' && v.answers !== null
+    && typeof v.currentStep === 'number'
+    && Object.values(AppStage).includes(v.stage as AppStage);
+};
+
+// Sessions saved before question kinds existed only have single-choice questions.
+const upgradeQuestions = (state: DecisionState): DecisionState => ({
+  ...state,
+  questions: state.questions.map(q => ('kind' in q ? q : { ...(q as object), kind: 'single' }) as Question)
+});
+
+// A refresh interrupts any in-flight model call, so loading stages resume from the
+// last stable stage instead of showing a spinner that never finishes.
+const settleStage = (state: DecisionState): DecisionState => {
+  if (state.stage === AppStage.GENERATING_QUESTIONS) {
+    return { ...state, stage: AppStage.START };
+  }
+  if (state.stage === AppStage.ANALYZING) {
+    return { ...state, stage: AppStage.ANSWERING };
+  }
+  if (state.stage === AppStage.RESULT && !state.result) {
+    return { ...state, stage: AppStage.ANSWERING };
+  }
+  return state;
+};
+
+export const loadSession = (): DecisionState | null => {
+  const raw = readJson(SESSION_KEY);
+  return isDecisionState(raw) ? settleStage(upgradeQuestions(raw)) : null;
+};
+
+export const saveSession = (state: DecisionState) => {
+  writeJson(SESSION_KEY, state);
+};
+
+export const clearSession = () => {
+  localStorage.removeItem(SESSION_KEY);
+};
+
+const readArchive = (): DecisionState[] => {
+  const raw = readJson(ARCHIVE_KEY);
+  return Array.isArray(raw) ? raw.filter(isDecisionState).map(upgradeQuestions) : [];
+};
+
+export const matchesTopic = (decision: DecisionState, query: string) =>
+  decision.topic.toLowerCase().includes(query.trim().toLowerCase());
+
+/** Completed decisions, newest first, optionally filtered by a case-insensitive topic search. */
+export const listDecisions = (query = ''): DecisionState[] =>
+  readArchive()
+    .filter(d => matchesTopic(d, query))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+
+export const getDecision = (id: string): DecisionState | null =>
+  readArchive().find(d => d.id === id) ?? null;
+
+/** Inserts or replaces the archived decision with the same id. */
+export const archiveDecision = (state: DecisionState) => {
+  const archive = readArchive().filter(d => d.id !== state.id);
+  writeJson(ARCHIVE_KEY, [state, ...archive]);
+};
+
+export const deleteDecision = (id: string) => {
+  writeJson(ARCHIVE_KEY, readArchive().filter(d => d.id !== id));
+};
@@ -0,0 +1,152 @@
+import { GenerateRequest, getProvider, LLMTask, ModelTier, ModelUsage, ProviderName } from "./providers";
+import { createId } from "./storage";
+
+const TELEMETRY_KEY = 'decision-maker-20:telemetry:v1';
+/** The oldest calls are dropped beyond this, which keeps the log well inside the storage quota. */
+const MAX_RECORDS = 500;
+
+export type CallOutcome = 'success' | 'invalidOutput' | 'failed' | 'cancelled';
+
+/** One provider call, from the first attempt to the last retry. */
+export interface CallRecord {
+  id: string;
+  /** The session the call was made for, if one was active. */
+  sessionId?: string;
+  task: LLMTask;
+  tier: ModelTier;
+  provider: ProviderName;
+  /** Missing when the call failed before the backend reported usage. */
+  model?: string;
+  streamed: boolean;
+  startedAt: number;
+  /** Wall-clock time including retries and their backoff. */
+  latencyMs: number;
+  /** Retries after timeouts, rate limits or outages; re-prompts for invalid output are separate calls. */
+  retries: number;
+  promptTokens?: number;
+  responseTokens?: number;
+  outcome: CallOutcome;
+  /** Error name of a failed call. */
+  error?: string;
+  /** Why the output of an `invalidOutput` call was rejected. */
+  issues?: string[];
+}
+
+/** USD per million tokens, for the models with published prices. */
+const PRICES: Record<string, { input: number; output: number }> = {
+  'gemini-3-pro-preview': { input: 2, output: 12 },
+  'gemini-3-flash-preview': { input: 0.5, output: 3 }
+};
+
+let activeSessionId: string | undefined;
+
+/** Attributes the calls that follow to a session, so usage can be shown per session. */
+export const setTelemetrySession = (sessionId: string | undefined) => {
+  activeSessionId = sessionId;
+};
+
+export const listCalls = (): CallRecord[] => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(TELEMETRY_KEY) ?? '[]');
+    return Array.isArray(raw) ? raw : [];
+  } catch (e) {
+    console.error(`Failed to read ${TELEMETRY_KEY}`, e);
+    return [];
+  }
+};
+
+const appendCall = (record: CallRecord) => {
+  try {
+    localStorage.setItem(TELEMETRY_KEY, JSON.stringify([...listCalls(), record].slice(-MAX_RECORDS)));
+  } catch (e) {
+    console.error(`Failed to write ${TELEMETRY_KEY}`, e);
+  }
+};
+
+export const clearCalls = () => {
+  localStorage.removeItem(TELEMETRY_KEY);
+};
+
+export interface CallTracker {
+  /** Pass as the request's `onUsage`; counts from several attempts add up. */
+  usage: (usage: ModelUsage) => void;
+  /** Pass as `withRetry`'s `onRetry`. */
+  retry: () => void;
+  finish: (outcome: 'success' | 'invalidOutput', issues?: string[]) => void;
+  fail: (error: unknown, signal?: AbortSignal) => void;
+}
+
+/** Starts timing a provider call. The record is stored once the call finishes or fails. */
+export const trackCall = ({ task, tier }: GenerateRequest, streamed: boolean): CallTracker => {
+  const record: CallRecord = {
+    id: createId(),
+    sessionId: activeSessionId,
+    task,
+    tier,
+    provider: getProvider().name,
+    streamed,
+    startedAt: Date.now(),
+    latencyMs: 0,
+    retries: 0,
+    outcome: 'success'
+  };
+  const store = (changes: Partial<CallRecord>) => appendCall({ ...record, ...changes, latencyMs: Date.now() - record.startedAt });
+
+  return {
+    usage: ({ model, promptTokens, responseTokens }) => {
+      record.model = model;
+      if (promptTokens !== undefined) record.promptTokens = (record.promptTokens ?? 0) + promptTokens;
+      if (responseTokens !== undefined) record.responseTokens = (record.responseTokens ?? 0) + responseTokens;
+    },
+    retry: () => {
+      record.retries++;
+    },
+    finish: (outcome, issues) => store({ outcome, ...(issues && { issues }) }),
+    fail: (error, signal) => store(signal?.aborted
+      ? { outcome: 'cancelled' }
+      : { outcome: 'failed', error: error instanceof Error ? error.name : String(error) })
+  };
+};
+
+/** Estimated price in USD, or null for models without a published price, such as local ones. */
+export const estimateCost = ({ model, promptTokens = 0, responseTokens = 0 }: CallRecord): number | null => {
+  const price = model ? PRICES[model] : undefined;
+  return price ? (promptTokens * price.input + responseTokens * price.output) / 1_000_000 : null;
+};
+
+export interface UsageSummary {
+  calls: number;
+  failed: number;
+  invalidOutput: number;
+  retries: number;
+  promptTokens: number;
+  responseTokens: number;
+  /** Sum over the calls that have a price. */
+  cost: number;
+  /** Calls left out of `cost` for lack of a price. */
+  unpriced: number;
+  averageLatencyMs: number | null;
+}
+
+export const summarizeCalls = (records: CallRecord[]): UsageSummary => {
+  const costs = records.map(estimateCost);
+  return {
+    calls: records.length,
+    failed: records.filter(r => r.outcome === 'failed').length,
+    invalidOutput: records.filter(r => r.outcome === 'invalidOutput').length,
+    retries: records.reduce((sum, r) => sum + r.retries, 0),
+    promptTokens: records.reduce((sum, r) => sum + (r.promptTokens ?? 0), 0),
+    responseTokens: records.reduce((sum, r) => sum + (r.responseTokens ?? 0), 0),
+    cost: costs.reduce<number>((sum, c) => sum + (c ?? 0), 0),
+    unpriced: costs.filter(c => c === null).length,
+    averageLatencyMs: records.length ? records.reduce((sum, r) => sum + r.latencyMs, 0) / records.length : null
+  };
+};
+
+/** Summaries per model, busiest first; calls that never reached a model are grouped under `null`. */
+export const summarizeByModel = (records: CallRecord[]): { model: string | null; summary: UsageSummary }[] => {
+  const models = [...new Set(records.map(r => r.model ?? null))];
+  return models
+    .map(model => ({ model, summary: summarizeCalls(records.filter(r => (r.model ?? null) === model)) }))
+    .sort((a, b) => b.summary.calls - a.summary.calls);
+};
@@ -0,0 +1,76 @@
+import { Locale, Question, QuestionTemplate, TemplateCategory } from "./types";
+
+const builtIn = (key: string, category: TemplateCategory, locale: Locale, name: string, questions: Question[]): QuestionTemplate => ({
+  id: `builtin:${key}:${locale}`,
+  name,
+  category,
+  locale,
+  questions,
+  builtIn: true,
+  createdAt: 0,
+  updatedAt: 0
+});
+
+/** Question sets shipped with the app for decisions people make again and again. */
+export const BUILT_IN_TEMPLATES: QuestionTemplate[] = [
+  builtIn('hiring', 'hiring', 'ko', "채용 후보자 선택", [
+    { id: 1, kind: 'single', text: "이 자리에 가장 시급하게 필요한 것은 무엇인가요?", options: ["즉시 투입 가능한 실무 역량", "장기적인 성장 가능성", "팀을 이끌 리더십", "새로운 관점과 전문성"] },
+    { id: 2, kind: 'ranking', text: "후보자를 평가할 기준을 중요한 순서대로 정렬하세요.", options: ["직무 역량", "팀 적합성", "성장 가능성", "연봉 조건"] },
+    { id: 3, kind: 'scale', text: "후보자의 기술 역량에 얼마나 만족하시나요?", min: 1, max: 5, minLabel: "부족함", maxLabel: "매우 뛰어남" },
+    { id: 4, kind: 'scale', text: "면접에서 본 팀과의 궁합은 어느 정도였나요?", min: 1, max: 5, minLabel: "맞지 않음", maxLabel: "아주 잘 맞음" },
+    { id: 5, kind: 'single', text: "제시된 연봉 조건은 예산 대비 어떤가요?", options: ["예산 안에서 여유가 있다", "예산에 딱 맞는다", "예산을 조금 넘는다", "예산을 크게 넘는다"] },
+    { id: 6, kind: 'multi', text: "면접이나 평판 조회에서 걸리는 점이 있었나요?", options: ["잦은 이직", "의사소통 방식", "경력 공백", "특별히 없음"] },
+    { id: 7, kind: 'single', text: "채용이 늦어지면 어떤 영향이 있나요?", options: ["업무가 거의 멈춘다", "팀의 부담이 커진다", "당분간 버틸 수 있다", "큰 영향이 없다"] },
+    { id: 8, kind: 'text', text: "이 후보자를 채용하거나 놓쳤을 때 가장 마음에 걸리는 점을 적어주세요." }
+  ]),
+  builtIn('hiring', 'hiring', 'en', "Choosing a candidate to hire", [
+    { id: 1, kind: 'single', text: "What does this role need most urgently?", options: ["Hands-on skills from day one", "Long-term growth potential", "Leadership for the team", "A fresh perspective or specialism"] },
+    { id: 2, kind: 'ranking', text: "Order the criteria for judging candidates by importance.", options: ["Job skills", "Team fit", "Growth potential", "Salary expectations"] },
+    { id: 3, kind: 'scale', text: "How satisfied are you with the candidate's technical skills?", min: 1, max: 5, minLabel: "Lacking", maxLabel: "Outstanding" },
+    { id: 4, kind: 'scale', text: "How well did they click with the team in interviews?", min: 1, max: 5, minLabel: "Poor fit", maxLabel: "Great fit" },
+    { id: 5, kind: 'single', text: "How does their salary expectation compare with the budget?", options: ["Comfortably within budget", "Right at the budget", "Slightly over budget", "Well over budget"] },
+    { id: 6, kind: 'multi', text: "Did anything concern you in interviews or references?", options: ["Frequent job changes", "Communication style", "Gaps in their career", "Nothing in particular"] },
+    { id: 7, kind: 'single', text: "What happens if the hire is delayed?", options: ["Work nearly stops", "The team gets overloaded", "We can manage for a while", "Little impact"] },
+    { id: 8, kind: 'text', text: "What worries you most about hiring, or missing out on, this candidate?" }
+  ]),
+  builtIn('vendor', 'vendor', 'ko', "공급업체 선정", [
+    { id: 1, kind: 'single', text: "이번 계약에서 가장 중요한 목표는 무엇인가요?", options: ["비용 절감", "품질과 안정성", "빠른 도입", "장기적인 협력 관계"] },
+    { id: 2, kind: 'ranking', text: "업체를 비교할 기준을 중요한 순서대로 정렬하세요.", options: ["가격", "품질", "고객 지원", "계약 유연성"] },
+    { id: 3, kind: 'single', text: "연간 예산 범위는 어느 정도인가요?", options: ["매우 빠듯하다", "적당하다", "여유가 있다", "아직 정해지지 않았다"] },
+    { id: 4, kind: 'scale', text: "업체를 바꾸는 데 드는 전환 비용은 얼마나 큰가요?", min: 1, max: 5, minLabel: "거의 없음", maxLabel: "매우 큼" },
+    { id: 5, kind: 'multi', text: "반드시 갖춰야 할 조건을 모두 고르세요.", options: ["보안 인증", "24시간 지원", "맞춤 개발", "데이터 이전 지원"] },
+    { id: 6, kind: 'single', text: "계약 기간은 어느 정도를 원하시나요?", options: ["월 단위", "1년", "2~3년", "장기 계약"] },
+    { id: 7, kind: 'scale', text: "업체가 문제를 일으켰을 때 업무에 미치는 영향은 얼마나 큰가요?", min: 1, max: 5, minLabel: "미미함", maxLabel: "치명적" },
+    { id: 8, kind: 'text', text: "지금까지 업체와 일하며 겪은 가장 큰 불만을 적어주세요." }
+  ]),
+  builtIn('vendor', 'vendor', 'en', "Selecting a vendor", [
+    { id: 1, kind: 'single', text: "What is the main goal of this contract?", options: ["Cutting costs", "Quality and reliability", "Getting started quickly", "A long-term partnership"] },
+    { id: 2, kind: 'ranking', text: "Order the criteria for comparing vendors by importance.", options: ["Price", "Quality", "Customer support", "Contract flexibility"] },
+    { id: 3, kind: 'single', text: "How much room is there in the annual budget?", options: ["Very tight", "Reasonable", "Generous", "Not decided yet"] },
+    { id: 4, kind: 'scale', text: "How costly would it be to switch vendors later?", min: 1, max: 5, minLabel: "Barely", maxLabel: "Very" },
+    { id: 5, kind: 'multi', text: "Select every requirement that is a must-have.", options: ["Security certification", "24/7 support", "Custom development", "Help migrating data"] },
+    { id: 6, kind: 'single', text: "How long a contract do you want?", options: ["Month to month", "One year", "Two to three years", "Longer term"] },
+    { id: 7, kind: 'scale', text: "How badly would a vendor failure hurt your operations?", min: 1, max: 5, minLabel: "Barely", maxLabel: "Critically" },
+    { id: 8, kind: 'text', text: "What has frustrated you most when working with vendors so far?" }
+  ]),
+  builtIn('travel', 'travel', 'ko', "여행지 고르기", [
+    { id: 1, kind: 'single', text: "이번 여행의 가장 큰 목적은 무엇인가요?", options: ["휴식", "관광과 체험", "맛집 탐방", "액티비티"] },
+    { id: 2, kind: 'single', text: "여행 기간은 어느 정도인가요?", options: ["당일치기", "2~3일", "4~7일", "일주일 이상"] },
+    { id: 3, kind: 'single', text: "1인당 예산은 어느 정도인가요?", options: ["최대한 아끼고 싶다", "적당한 수준", "넉넉하게 쓸 수 있다", "예산은 상관없다"] },
+    { id: 4, kind: 'multi', text: "누구와 함께 가나요?", options: ["혼자", "연인이나 배우자", "가족", "친구나 동료"] },
+    { id: 5, kind: 'scale', text: "이동 시간이 길어도 괜찮으신가요?", min: 1, max: 5, minLabel: "짧을수록 좋음", maxLabel: "상관없음" },
+    { id: 6, kind: 'ranking', text: "숙소를 고를 때 중요한 순서대로 정렬하세요.", options: ["위치", "가격", "시설", "분위기"] },
+    { id: 7, kind: 'single', text: "선호하는 날씨는 어떤가요?", options: ["따뜻한 곳", "선선한 곳", "눈이 오는 곳", "상관없음"] },
+    { id: 8, kind: 'text', text: "이번 여행에서 꼭 해보고 싶은 것이 있다면 적어주세요." }
+  ]),
+  builtIn('travel', 'travel', 'en', "Choosing a travel destination", [
+    { id: 1, kind: 'single', text: "What is the main purpose of this trip?", options: ["Rest", "Sightseeing and experiences", "Food", "Activities"] },
+    { id: 2, kind: 'single', text: "How long is the trip?", options: ["A day trip", "Two to three days", "Four to seven days", "More than a week"] },
+    { id: 3, kind: 'single', text: "What is the budget per person?", options: ["As low as possible", "Moderate", "Comfortable", "Budget is no concern"] },
+    { id: 4, kind: 'multi', text: "Who is coming along?", options: ["Just me", "Partner or spouse", "Family", "Friends or colleagues"] },
+    { id: 5, kind: 'scale', text: "How much travel time are you willing to put up with?", min: 1, max: 5, minLabel: "The shorter the better", maxLabel: "Doesn't matter" },
+    { id: 6, kind: 'ranking', text: "Order what matters when choosing accommodation.", options: ["Location", "Price", "Facilities", "Atmosphere"] },
+    { id: 7, kind: 'single', text: "What weather do you prefer?", options: ["Warm", "Cool", "Snowy", "Doesn't matter"] },
+    { id: 8, kind: 'text', text: "Is there anything you definitely want to do on this trip?" }
+  ])
+];
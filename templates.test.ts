@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { Question } from './types';
+import { isUsableQuestion } from './templates';
+import { validateQuestionSet } from './validation';
+
+const choice = (options: string[]): Question => ({ id: 1, kind: 'single', text: 'Which one?', options });
+
+describe('isUsableQuestion', () => {
+  it.each([
+    [choice(['Yes', 'No']), true],
+    [choice(['Yes', ' yes ']), false],
+    [choice(['Yes', '']), false],
+    [{ id: 1, kind: 'text', text: '  ' } as Question, false],
+    [{ id: 1, kind: 'scale', text: 'How much?', min: 1, max: 5 } as Question, true]
+  ])('%o is usable: %s', (question, usable) => {
+    expect(isUsableQuestion(question)).toBe(usable);
+  });
+
+  it('agrees with validation on whether a choice question keeps enough options', () => {
+    for (const options of [['A', 'B'], ['A', 'a'], ['A', ' '], ['A', 'B', 'b']]) {
+      expect(isUsableQuestion(choice(options))).toBe(validateQuestionSet([choice(options)]).ok);
+    }
+  });
+});
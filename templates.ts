@@ -0,0 +1,107 @@
+import { Locale, Question, QuestionKind, QuestionTemplate, TemplateCategory } from "./types";
+import { createId } from "./storage";
+import { hasEnoughOptions, validateQuestionSet } from "./validation";
+import { BUILT_IN_TEMPLATES } from "./templateLibrary";
+import { isLocale } from "./i18n";
+
+const TEMPLATES_KEY = 'decision-maker-20:templates:v1';
+
+export const TEMPLATE_CATEGORIES: TemplateCategory[] = ['hiring', 'vendor', 'travel', 'purchase', 'career', 'other'];
+
+/** True when a question has text and, for choice kinds, enough distinct options to pass validation. */
+export const isUsableQuestion = (question: Question) =>
+  question.text.trim() !== '' && (!('options' in question) || hasEnoughOptions(question.options));
+
+/** An empty question of the given kind, for the editor's "add question". */
+export const blankQuestion = (id: number, kind: QuestionKind = 'single'): Question =>
+  changeKind({ id, kind: 'text', text: '' }, kind);
+
+/** Converts a question to another kind, carrying over its text and, where they fit, its options. */
+export const changeKind = (question: Question, kind: QuestionKind): Question => {
+  const { id, text } = question;
+  const options = 'options' in question ? question.options : ['', ''];
+  switch (kind) {
+    case 'single':
+    case 'multi':
+    case 'ranking':
+      return { id, kind, text, options };
+    case 'scale':
+      return question.kind === 'scale' ? question : { id, kind, text, min: 1, max: 5 };
+    case 'text':
+      return { id, kind, text };
+  }
+};
+
+const isTemplate = (value: unknown): value is QuestionTemplate => {
+  const v = value as Partial<QuestionTemplate>;
+  return typeof v === 'object' && v !== null
+    && typeof v.id === 'string'
+    && typeof v.name === 'string'
+    && TEMPLATE_CATEGORIES.includes(v.category as TemplateCategory)
+    && isLocale(v.locale)
+    && Array.isArray(v.questions);
+};
+
+// Saved templates are re-checked on load, so a hand-edited store cannot break a session.
+const readTemplates = (): QuestionTemplate[] => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(TEMPLATES_KEY) ?? '[]');
+    return Array.isArray(raw)
+      ? raw.filter(isTemplate).flatMap(t => {
+        const checked = validateQuestionSet(t.questions);
+        return checked.ok ? [{ ...t, questions: checked.value, builtIn: false }] : [];
+      })
+      : [];
+  } catch (e) {
+    console.error(`Failed to read ${TEMPLATES_KEY}`, e);
+    return [];
+  }
+};
+
+const writeTemplates = (templates: QuestionTemplate[]) => {
+  try {
+    localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+  } catch (e) {
+    console.error(`Failed to write ${TEMPLATES_KEY}`, e);
+  }
+};
+
+/** The user's templates, newest first, followed by the built-in library, all in `locale`. */
+export const listTemplates = (locale: Locale): QuestionTemplate[] => [
+  ...readTemplates().filter(t => t.locale === locale).sort((a, b) => b.updatedAt - a.updatedAt),
+  ...BUILT_IN_TEMPLATES.filter(t => t.locale === locale)
+];
+
+export const createTemplate = (
+  name: string,
+  category: TemplateCategory,
+  locale: Locale,
+  questions: Question[]
+): QuestionTemplate => {
+  const now = Date.now();
+  return { id: createId(), name, category, locale, questions, createdAt: now, updatedAt: now };
+};
+
+/**
+ * Inserts or replaces the user template with the same id, after cleaning its questions.
+ * Built-in templates are read-only, so saving one stores a copy under a new id.
+ * Returns the stored template, or null when no usable question is left.
+ */
+export const saveTemplate = (template: QuestionTemplate): QuestionTemplate | null => {
+  const checked = validateQuestionSet(template.questions);
+  if (!checked.ok) return null;
+  const saved: QuestionTemplate = {
+    ...template,
+    id: template.builtIn ? createId() : template.id,
+    name: template.name.trim(),
+    questions: checked.value,
+    builtIn: false,
+    updatedAt: Date.now()
+  };
+  writeTemplates([saved, ...readTemplates().filter(t => t.id !== saved.id)]);
+  return saved;
+};
+
+export const deleteTemplate = (id: string) => {
+  writeTemplates(readTemplates().filter(t => t.id !== id));
+};
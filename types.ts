@@ -1,23 +1,250 @@
 
-export interface Question {
+import type { ModelTier } from "./providers/types";
+
+/** Language of the UI and of everything the model writes for a session. */
+export type Locale = 'ko' | 'en';
+
+export type QuestionKind = 'single' | 'multi' | 'scale' | 'ranking' | 'text';
+
+interface QuestionBase {
   id: number;
   text: string;
+}
+
+/** Pick exactly one option. Answered with the chosen option string. */
+export interface SingleChoiceQuestion extends QuestionBase {
+  kind: 'single';
+  options: string[];
+}
+
+/** Select all that apply. Answered with the chosen options, in option order. */
+export interface MultiSelectQuestion extends QuestionBase {
+  kind: 'multi';
   options: string[];
 }
 
+/** Rate on an integer scale from `min` to `max`. Answered with a number. */
+export interface ScaleQuestion extends QuestionBase {
+  kind: 'scale';
+  min: number;
+  max: number;
+  minLabel?: string;
+  maxLabel?: string;
+}
+
+/** Order every option by priority. Answered with all options, most important first. */
+export interface RankingQuestion extends QuestionBase {
+  kind: 'ranking';
+  options: string[];
+}
+
+/** Short free-text answer. */
+export interface TextQuestion extends QuestionBase {
+  kind: 'text';
+}
+
+export type Question = SingleChoiceQuestion | MultiSelectQuestion | ScaleQuestion | RankingQuestion | TextQuestion;
+
+export type Answer = string | string[] | number;
+
+/** One step of adaptive questioning; `done` means the model has enough to analyze. */
+export interface QuestionBatch {
+  questions: Question[];
+  done: boolean;
+}
+
+/** A factor the alternatives are judged on, derived from the answered questions. */
+export interface Criterion {
+  name: string;
+  /** Importance from 1 (minor) to 5 (decisive), as implied by the answers. */
+  weight: number;
+  /** Ids of the questions this criterion was drawn from. */
+  questionIds: number[];
+}
+
+export interface AlternativeScores {
+  name: string;
+  /** Score from 1 to 10 per criterion, in the same order as `DecisionMatrix.criteria`. */
+  scores: number[];
+}
+
+export interface DecisionMatrix {
+  criteria: Criterion[];
+  alternatives: AlternativeScores[];
+}
+
+/** What a group analysis adds: where the participants' answers line up and where they clash. */
+export interface GroupInsights {
+  agreements: string[];
+  disagreements: string[];
+}
+
+/** Judgement biases the analysis looks for in the answers. */
+export type BiasKind = 'sunkCost' | 'statusQuo' | 'lossAversion' | 'confirmation' | 'anchoring' | 'overconfidence' | 'socialProof' | 'other';
+
+/** Signs of a bias in the answers, with the questions that show it. */
+export interface BiasFinding {
+  kind: BiasKind;
+  explanation: string;
+  questionIds: number[];
+}
+
+/** Answers that pull in opposite directions. */
+export interface Contradiction {
+  /** The questions whose answers clash; at least two. */
+  questionIds: number[];
+  explanation: string;
+}
+
+/** The option that came second to the recommendation. */
+export interface RunnerUp {
+  name: string;
+  /** How close it came, from 0 (far behind) to 100 (a near tie). */
+  closeness: number;
+  /** What would have to change for it to win. */
+  explanation: string;
+}
+
+/** How certain the recommendation is, and what undermines it. */
+export interface AnalysisConfidence {
+  /** From 0 (a guess) to 100 (clear-cut). */
+  score: number;
+  rationale: string;
+  contradictions: Contradiction[];
+  biases: BiasFinding[];
+  /** Absent when no other option was seriously in the running. */
+  runnerUp?: RunnerUp;
+}
+
+export interface AnalysisResult {
+  finalRecommendation: string;
+  summary: string;
+  reasoning: string[];
+  pros: string[];
+  cons: string[];
+  nextSteps: string[];
+  /** Present when the user listed explicit alternatives to compare. */
+  matrix?: DecisionMatrix;
+  /** Present for group decisions; `finalRecommendation` is then the group's consensus. */
+  group?: GroupInsights;
+  /** Ids of the attachments each `reasoning` item relies on, in the same order; set when the session has attachments. */
+  reasoningSources?: string[][];
+  /** Absent on analyses made before confidence was reported. */
+  confidence?: AnalysisConfidence;
+}
+
+/** A document or note the user added as background for the decision. */
+export interface Attachment {
+  id: string;
+  name: string;
+  source: 'file' | 'note';
+  /** The text given to the model; a condensed version when the original was too long or a PDF. */
+  content: string;
+  /** Length of the original text in characters, or the file size in bytes for PDFs. */
+  originalSize: number;
+  condensed: boolean;
+}
+
+/** Someone answering the shared question set in a group decision. */
+export interface Participant {
+  id: string;
+  name: string;
+  answers: Record<number, Answer>;
+}
+
+/** One turn of the follow-up conversation about a finished analysis. */
+export interface FollowUpMessage {
+  role: 'user' | 'assistant';
+  text: string;
+  /** On an assistant turn that re-ran the recommendation with the change the user asked for. */
+  revision?: AnalysisResult;
+}
+
+/** How far the analysis goes: a few decisive points, or more reasons weighed in more detail. */
+export type AnalysisDepth = 'brief' | 'standard' | 'deep';
+
+/** How a session's questions and analysis are generated; fixed once questions exist. */
+export interface GenerationSettings {
+  questionModel: ModelTier;
+  analysisModel: ModelTier;
+  /** Questions generated up front, or the most an adaptive interview asks. */
+  questionCount: number;
+  /** Options offered by single-choice questions. */
+  minOptions: number;
+  maxOptions: number;
+  temperature: number;
+  depth: AnalysisDepth;
+}
+
+export type TemplateCategory = 'hiring' | 'vendor' | 'travel' | 'purchase' | 'career' | 'other';
+
+/** A reusable question set; starting a session from one skips question generation. */
+export interface QuestionTemplate {
+  id: string;
+  name: string;
+  category: TemplateCategory;
+  /** Language the questions are written in; sessions started from the template use it too. */
+  locale: Locale;
+  questions: Question[];
+  /** Shipped with the app; read-only, so editing one saves a copy. */
+  builtIn?: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type DecisionStatus = 'followed' | 'notFollowed';
+
+/** What became of a decision, recorded by the user in the weeks after it was made. */
+export interface JournalEntry {
+  /** Whether the user went with the recommendation. */
+  status?: DecisionStatus;
+  /** Next steps already done, by their text so they survive a re-run that keeps them. */
+  doneSteps: string[];
+  outcome?: string;
+  /** 1 (regret it) to 5 (very happy with it). */
+  satisfaction?: number;
+  /** When the outcome or satisfaction was last recorded. */
+  reflectedAt?: number;
+  /** Postpones the reflection reminder until this time. */
+  remindAt?: number;
+}
+
+/** Serializable snapshot of a session, used for autosave and the decision archive. */
 export interface DecisionState {
+  id: string;
   topic: string;
+  alternatives?: string[];
   questions: Question[];
-  answers: Record<number, string>;
+  /** The single respondent's answers; unused in group decisions, which keep answers per participant. */
+  answers: Record<number, Answer>;
+  /** Background material included in every prompt of the session. */
+  attachments?: Attachment[];
+  /** Present only for group decisions. */
+  participants?: Participant[];
+  /** The participant currently holding the device. */
+  activeParticipantId?: string;
   currentStep: number;
-  loading: boolean;
-  result: string | null;
-  error: string | null;
+  stage: AppStage;
+  adaptive?: boolean;
+  /** Absent on sessions saved before languages were selectable, which were all Korean. */
+  locale?: Locale;
+  /** Absent on sessions saved before settings existed, which used the standard preset. */
+  settings?: GenerationSettings;
+  result: AnalysisResult | null;
+  /** Follow-up questions asked on `result`; cleared whenever the analysis is re-run. */
+  followUps?: FollowUpMessage[];
+  /** Analyses already run in this session, keyed by answer set, so revisiting one needs no model call. */
+  analysisCache?: Record<string, AnalysisResult>;
+  /** Follow-through on `result`; absent until the user records something. */
+  journal?: JournalEntry;
+  createdAt: number;
+  updatedAt: number;
 }
 
 export enum AppStage {
   START = 'START',
   GENERATING_QUESTIONS = 'GENERATING_QUESTIONS',
+  REVIEWING_QUESTIONS = 'REVIEWING_QUESTIONS',
   ANSWERING = 'ANSWERING',
   ANALYZING = 'ANALYZING',
   RESULT = 'RESULT'
@@ -0,0 +1,535 @@
+import { AnalysisConfidence, AnalysisResult, BiasKind, DecisionMatrix, GroupInsights, Question, QuestionBatch, QuestionKind } from "./types";
+import { MAX_SCORE, MAX_WEIGHT, MIN_SCORE } from "./matrix";
+import { BIAS_KINDS } from "./confidence";
+
+export type ValidationResult<T> =
+  | { ok: true; value: T; repairs: string[] }
+  | { ok: false; issues: string[] };
+
+export const MIN_OPTIONS = 2;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Trims every entry, drops blanks and non-strings, and removes case-insensitive duplicates. */
+const cleanStringList = (value: unknown): string[] => {
+  const list = Array.isArray(value) ? value : typeof value === 'string' ? [value] : [];
+  const seen = new Set<string>();
+  const out: string[] = [];
+  for (const item of list) {
+    if (typeof item !== 'string') continue;
+    const trimmed = item.trim();
+    const key = trimmed.toLowerCase();
+    if (!trimmed || seen.has(key)) continue;
+    seen.add(key);
+    out.push(trimmed);
+  }
+  return out;
+};
+
+/** True when choice options hold at least `MIN_OPTIONS` distinct, non-blank entries, as validation requires. */
+export const hasEnoughOptions = (options: unknown) => cleanStringList(options).length >= MIN_OPTIONS;
+
+/** Strips Markdown code fences that some backends wrap around JSON despite the schema. */
+export const parseModelJson = (text: string): unknown => {
+  const fenced = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  return JSON.parse(fenced ? fenced[1] : text);
+};
+
+export const QUESTION_KINDS: QuestionKind[] = ['single', 'multi', 'scale', 'ranking', 'text'];
+const DEFAULT_SCALE = { min: 1, max: 5 };
+const MAX_SCALE_STEPS = 10;
+
+const optionalLabel = (value: unknown) =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+/**
+ * Turns one flat model question into the matching `Question` variant. An unknown or missing
+ * `kind` falls back to single-choice when options are present. Scales outside a sane range
+ * are reset to 1-5. Returns a reason string instead when the question is unusable.
+ */
+const toQuestion = (item: Record<string, unknown>, id: number, text: string): Question | string => {
+  const options = cleanStringList(item.options);
+  const kind = QUESTION_KINDS.includes(item.kind as QuestionKind)
+    ? item.kind as QuestionKind
+    : options.length >= MIN_OPTIONS ? 'single' : null;
+
+  switch (kind) {
+    case 'single':
+    case 'multi':
+    case 'ranking':
+      return options.length >= MIN_OPTIONS
+        ? { id, kind, text, options }
+        : `fewer than ${MIN_OPTIONS} distinct options`;
+    case 'scale': {
+      const min = Number(item.min);
+      const max = Number(item.max);
+      const valid = Number.isInteger(min) && Number.isInteger(max) && max > min && max - min <= MAX_SCALE_STEPS;
+      return {
+        id,
+        kind,
+        text,
+        ...(valid ? { min, max } : DEFAULT_SCALE),
+        minLabel: optionalLabel(item.minLabel),
+        maxLabel: optionalLabel(item.maxLabel)
+      };
+    }
+    case 'text':
+      return { id, kind, text };
+    default:
+      return "unknown question kind";
+  }
+};
+
+/**
+ * Cleans a raw question list: ids are renumbered from `firstId` so `answers` keys stay unique,
+ * and options are trimmed and de-duplicated. Questions that end up without text, repeat an
+ * earlier question (including any in `previous`), or lack what their kind needs are dropped.
+ */
+const cleanQuestions = (list: unknown[], firstId: number, previous: Question[] = []) => {
+  const repairs: string[] = [];
+  const questions: Question[] = [];
+  const seenTexts = new Set(previous.map(q => q.text.toLowerCase()));
+  let renumbered = false;
+
+  list.forEach((item, index) => {
+    if (!isRecord(item)) {
+      repairs.push(`Dropped entry #${index + 1}: not an object.`);
+      return;
+    }
+    const text = typeof item.text === 'string' ? item.text.trim() : '';
+    if (!text) {
+      repairs.push(`Dropped entry #${index + 1}: missing question text.`);
+      return;
+    }
+    if (seenTexts.has(text.toLowerCase())) {
+      repairs.push(`Dropped entry #${index + 1}: duplicate question.`);
+      return;
+    }
+    const id = firstId + questions.length;
+    const question = toQuestion(item, id, text);
+    if (typeof question === 'string') {
+      repairs.push(`Dropped entry #${index + 1}: ${question}.`);
+      return;
+    }
+    if ('options' in question && Array.isArray(item.options) && question.options.length !== item.options.length) {
+      repairs.push(`Cleaned options of entry #${index + 1}.`);
+    }
+    seenTexts.add(text.toLowerCase());
+    if (item.id !== id) renumbered = true;
+    questions.push(question);
+  });
+
+  if (renumbered) {
+    repairs.push("Renumbered question ids.");
+  }
+  return { questions, repairs };
+};
+
+/** Checks a full up-front question set; a list that is still short after cleaning is rejected. */
+export const validateQuestions = (raw: unknown, expectedCount: number): ValidationResult<Question[]> => {
+  const list = Array.isArray(raw) ? raw : isRecord(raw) && Array.isArray(raw.questions) ? raw.questions : null;
+  if (!list) {
+    return { ok: false, issues: ["Expected a JSON array of questions."] };
+  }
+
+  const { questions, repairs } = cleanQuestions(list, 1);
+
+  if (questions.length < expectedCount) {
+    return {
+      ok: false,
+      issues: [...repairs, `Expected ${expectedCount} valid questions but got ${questions.length}.`]
+    };
+  }
+  if (questions.length > expectedCount) {
+    repairs.push(`Trimmed ${questions.length - expectedCount} extra questions.`);
+  }
+
+  return { ok: true, value: questions.slice(0, expectedCount), repairs };
+};
+
+/**
+ * Checks a question set of any length, such as a saved or hand-edited template. Unusable
+ * questions are dropped and ids renumbered from 1; a set left empty is rejected.
+ */
+export const validateQuestionSet = (raw: unknown): ValidationResult<Question[]> => {
+  if (!Array.isArray(raw)) {
+    return { ok: false, issues: ["Expected an array of questions."] };
+  }
+  const { questions, repairs } = cleanQuestions(raw, 1);
+  return questions.length > 0
+    ? { ok: true, value: questions, repairs }
+    : { ok: false, issues: [...repairs, "No usable questions."] };
+};
+
+/**
+ * Checks a single question written to replace one in the set. It takes the replaced question's
+ * `id` and must not repeat any of the `others` that are kept.
+ */
+export const validateReplacementQuestion = (raw: unknown, id: number, others: Question[]): ValidationResult<Question> => {
+  const item = isRecord(raw) && isRecord(raw.question) ? raw.question : raw;
+  const { questions, repairs } = cleanQuestions([item], id, others);
+  return questions.length === 1
+    ? { ok: true, value: questions[0], repairs: repairs.filter(r => r !== "Renumbered question ids.") }
+    : { ok: false, issues: repairs.length > 0 ? repairs : ["Expected one question object."] };
+};
+
+/**
+ * Checks one adaptive batch. New ids continue after `previous`, and at most `maxCount`
+ * questions are kept. A batch that is not `done` must contain at least one usable question;
+ * `done` is ignored when `allowDone` is false, i.e. before the minimum number of questions.
+ */
+export const validateQuestionBatch = (
+  raw: unknown,
+  previous: Question[],
+  maxCount: number,
+  allowDone: boolean
+): ValidationResult<QuestionBatch> => {
+  if (!isRecord(raw)) {
+    return { ok: false, issues: ["Expected a JSON object with `done` and `questions`."] };
+  }
+
+  const done = allowDone && raw.done === true;
+  const list = Array.isArray(raw.questions) ? raw.questions : [];
+  const { questions, repairs } = cleanQuestions(list, previous.length + 1, previous);
+  if (!allowDone && raw.done === true) {
+    repairs.push("Ignored `done` before the minimum number of questions.");
+  }
+
+  if (done) {
+    return { ok: true, value: { done, questions: [] }, repairs };
+  }
+  if (questions.length === 0) {
+    return { ok: false, issues: [...repairs, "`done` is false but no new, distinct questions were returned."] };
+  }
+  if (questions.length > maxCount) {
+    repairs.push(`Trimmed ${questions.length - maxCount} extra questions.`);
+  }
+
+  return { ok: true, value: { done, questions: questions.slice(0, maxCount) }, repairs };
+};
+
+/**
+ * Checks a set of clarifying questions asked after a low-confidence analysis. New ids continue
+ * after the highest id in `previous`, repeats of earlier questions are dropped, and at most
+ * `maxCount` questions are kept; at least one must remain.
+ */
+export const validateClarifyingQuestions = (raw: unknown, previous: Question[], maxCount: number): ValidationResult<Question[]> => {
+  const list = Array.isArray(raw) ? raw : isRecord(raw) && Array.isArray(raw.questions) ? raw.questions : null;
+  if (!list) {
+    return { ok: false, issues: ["Expected a JSON object with `questions`."] };
+  }
+  const firstId = previous.reduce((max, q) => Math.max(max, q.id), 0) + 1;
+  const { questions, repairs } = cleanQuestions(list, firstId, previous);
+  if (questions.length === 0) {
+    return { ok: false, issues: [...repairs, "No new, distinct questions were returned."] };
+  }
+  if (questions.length > maxCount) {
+    repairs.push(`Trimmed ${questions.length - maxCount} extra questions.`);
+  }
+  return { ok: true, value: questions.slice(0, maxCount), repairs };
+};
+
+const clampInt = (value: unknown, min: number, max: number): number | null => {
+  const n = Number(value);
+  return Number.isFinite(n) ? Math.min(max, Math.max(min, Math.round(n))) : null;
+};
+
+/**
+ * Checks the scoring matrix against the alternatives the user listed. Every listed alternative
+ * must be scored on every criterion; names are matched case-insensitively and restored to the
+ * user's spelling. Weights and scores are rounded and clamped, and unknown question ids dropped.
+ */
+export const validateMatrix = (
+  raw: unknown,
+  alternatives: string[],
+  questionIds: number[]
+): ValidationResult<DecisionMatrix> => {
+  if (!isRecord(raw) || !Array.isArray(raw.criteria) || !Array.isArray(raw.alternatives)) {
+    return { ok: false, issues: ["`matrix` must have `criteria` and `alternatives` arrays."] };
+  }
+
+  const issues: string[] = [];
+  const repairs: string[] = [];
+
+  const criteria = raw.criteria.map((item, i) => {
+    const c = isRecord(item) ? item : {};
+    const name = typeof c.name === 'string' ? c.name.trim() : '';
+    if (!name) issues.push(`Criterion #${i + 1} has no name.`);
+    let weight = clampInt(c.weight, 1, MAX_WEIGHT);
+    if (weight === null) {
+      repairs.push(`Defaulted weight of criterion #${i + 1}.`);
+      weight = 3;
+    }
+    const ids = Array.isArray(c.questionIds) ? c.questionIds.filter(id => questionIds.includes(id as number)) as number[] : [];
+    return { name, weight, questionIds: ids };
+  });
+  if (criteria.length === 0) issues.push("`matrix.criteria` is empty.");
+
+  const scored = raw.alternatives.filter(isRecord);
+  const rows = alternatives.map(name => {
+    const match = scored.find(a => typeof a.name === 'string' && a.name.trim().toLowerCase() === name.toLowerCase());
+    if (!match) {
+      issues.push(`Alternative "${name}" is missing from \`matrix.alternatives\`.`);
+      return { name, scores: [] };
+    }
+    const scores = Array.isArray(match.scores) ? match.scores.map(v => clampInt(v, MIN_SCORE, MAX_SCORE)) : [];
+    if (scores.length !== criteria.length || scores.some(v => v === null)) {
+      issues.push(`Alternative "${name}" needs one numeric score per criterion (${criteria.length}).`);
+    }
+    return { name, scores: scores.map(v => v ?? MIN_SCORE) };
+  });
+
+  if (issues.length > 0) {
+    return { ok: false, issues };
+  }
+  return { ok: true, value: { criteria, alternatives: rows }, repairs };
+};
+
+const MAX_CONFIDENCE = 100;
+
+/**
+ * Checks the confidence report. The score and rationale are required. Contradictions and biases
+ * without an explanation are dropped, and question ids that do not exist are removed; a
+ * contradiction needs two questions left. When the user listed alternatives, the runner-up must
+ * be one of them and takes their spelling; otherwise any named option is kept.
+ */
+const validateConfidence = (raw: unknown, alternatives: string[], questionIds: number[]): ValidationResult<AnalysisConfidence> => {
+  if (!isRecord(raw)) {
+    return { ok: false, issues: ["`confidence` must be an object."] };
+  }
+  const issues: string[] = [];
+  const repairs: string[] = [];
+
+  const score = clampInt(raw.score, 0, MAX_CONFIDENCE);
+  if (score === null) issues.push(`\`confidence.score\` must be a number from 0 to ${MAX_CONFIDENCE}.`);
+  const rationale = typeof raw.rationale === 'string' ? raw.rationale.trim() : '';
+  if (!rationale) issues.push("Missing `confidence.rationale`.");
+
+  const knownIds = (value: unknown) =>
+    Array.isArray(value) ? [...new Set(value.filter((id): id is number => questionIds.includes(id as number)))] : [];
+  const explained = (value: unknown) => {
+    const items = (Array.isArray(value) ? value : []).filter(isRecord).map(item => ({
+      item,
+      explanation: typeof item.explanation === 'string' ? item.explanation.trim() : ''
+    }));
+    return items.filter(({ explanation }) => explanation);
+  };
+
+  const contradictions = explained(raw.contradictions)
+    .map(({ item, explanation }) => ({ questionIds: knownIds(item.questionIds), explanation }))
+    .filter(c => c.questionIds.length >= 2);
+  if (Array.isArray(raw.contradictions) && contradictions.length < raw.contradictions.length) {
+    repairs.push("Dropped contradictions without an explanation or two known questions.");
+  }
+
+  const biases = explained(raw.biases).map(({ item, explanation }) => {
+    const known = BIAS_KINDS.includes(item.kind as BiasKind);
+    if (!known) repairs.push(`Filed unknown bias "${String(item.kind)}" under "other".`);
+    return { kind: known ? item.kind as BiasKind : 'other', explanation, questionIds: knownIds(item.questionIds) };
+  });
+
+  let runnerUp: AnalysisConfidence['runnerUp'];
+  if (isRecord(raw.runnerUp) && typeof raw.runnerUp.name === 'string' && raw.runnerUp.name.trim()) {
+    const name = raw.runnerUp.name.trim();
+    const listed = alternatives.find(a => a.toLowerCase() === name.toLowerCase());
+    if (alternatives.length > 0 && !listed) {
+      issues.push(`Runner-up "${name}" is not one of the alternatives: ${alternatives.map(a => `"${a}"`).join(', ')}.`);
+    }
+    let closeness = clampInt(raw.runnerUp.closeness, 0, MAX_CONFIDENCE);
+    if (closeness === null) {
+      repairs.push("Defaulted `confidence.runnerUp.closeness`.");
+      closeness = 50;
+    }
+    const explanation = typeof raw.runnerUp.explanation === 'string' ? raw.runnerUp.explanation.trim() : '';
+    runnerUp = { name: listed ?? name, closeness, explanation };
+  }
+
+  if (issues.length > 0 || score === null) {
+    return { ok: false, issues };
+  }
+  return { ok: true, value: { score, rationale, contradictions, biases, ...(runnerUp && { runnerUp }) }, repairs };
+};
+
+const REQUIRED_LISTS = ['reasoning', 'nextSteps'] as const;
+const OPTIONAL_LISTS = ['pros', 'cons'] as const;
+
+/**
+ * Best-effort parse of a JSON document that is still being streamed: closes an open string,
+ * drops a dangling key or separator, and closes open arrays and objects. Returns `undefined`
+ * when the prefix cannot be completed yet (e.g. it ends in the middle of a number or literal).
+ */
+export const parsePartialJson = (text: string): unknown => {
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  for (const ch of text) {
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === '{' || ch === '[') {
+      stack.push(ch === '{' ? '}' : ']');
+    } else if (ch === '}' || ch === ']') {
+      stack.pop();
+    }
+  }
+
+  let fixed = text.replace(/^\s*```(?:json)?/i, '');
+  if (inString) fixed = `${escaped ? fixed.slice(0, -1) : fixed}"`;
+  fixed = fixed.replace(/[\s,:]*$/, '');
+  // An object key with no value yet: `{"a": 1, "b"` or `{"b": `.
+  if (stack[stack.length - 1] === '}') {
+    fixed = fixed.replace(/([{,])\s*"(?:[^"\\]|\\.)*"$/, '$1').replace(/,$/, '');
+  }
+
+  try {
+    return JSON.parse(fixed + stack.reverse().join(''));
+  } catch (e) {
+    return undefined;
+  }
+};
+
+// Reasons end with the labels of the attachments behind them, e.g. "... [A1][A3]".
+const TRAILING_CITATIONS = /\s*((?:\[A\d+\]\s*)+)$/;
+
+/** Splits the trailing attachment labels off a reason and resolves them to attachment ids. */
+const splitCitations = (item: string, attachmentIds: string[]) => {
+  const match = item.match(TRAILING_CITATIONS);
+  if (!match) return { text: item, sources: [] };
+  const ids = [...match[1].matchAll(/\[A(\d+)\]/g)].map(m => attachmentIds[Number(m[1]) - 1]);
+  return {
+    text: item.slice(0, match.index).trim(),
+    sources: [...new Set(ids.filter((id): id is string => id !== undefined))]
+  };
+};
+
+/**
+ * Picks the displayable parts out of a partially streamed analysis. Only string fields and
+ * string lists are kept; the matrix is left out until the validated result arrives.
+ */
+export const toPartialAnalysis = (raw: unknown): Partial<AnalysisResult> => {
+  if (!isRecord(raw)) return {};
+  const partial: Partial<AnalysisResult> = {};
+  if (typeof raw.finalRecommendation === 'string') partial.finalRecommendation = raw.finalRecommendation;
+  if (typeof raw.summary === 'string') partial.summary = raw.summary;
+  for (const key of [...REQUIRED_LISTS, ...OPTIONAL_LISTS]) {
+    if (Array.isArray(raw[key])) partial[key] = (raw[key] as unknown[]).filter((v): v is string => typeof v === 'string');
+  }
+  if (partial.reasoning) partial.reasoning = partial.reasoning.map(r => r.replace(TRAILING_CITATIONS, ''));
+  return partial;
+};
+
+/**
+ * Checks a parsed analysis. The two headline strings plus `reasoning` and `nextSteps` must be
+ * present; `pros` and `cons` default to empty lists. All lists are trimmed and de-duplicated.
+ * When the user listed alternatives, a valid scoring matrix is required as well. With
+ * `attachmentIds`, the labels citing attachments are moved from `reasoning` into `reasoningSources`.
+ * A `confidence` report is checked when present; older saved analyses have none.
+ */
+export const validateAnalysis = (
+  raw: unknown,
+  alternatives: string[] = [],
+  questionIds: number[] = [],
+  group = false,
+  attachmentIds: string[] = []
+): ValidationResult<AnalysisResult> => {
+  if (!isRecord(raw)) {
+    return { ok: false, issues: ["Expected a JSON object."] };
+  }
+
+  const issues: string[] = [];
+  const repairs: string[] = [];
+
+  const finalRecommendation = typeof raw.finalRecommendation === 'string' ? raw.finalRecommendation.trim() : '';
+  const summary = typeof raw.summary === 'string' ? raw.summary.trim() : '';
+  if (!finalRecommendation) issues.push("Missing `finalRecommendation`.");
+  if (!summary) issues.push("Missing `summary`.");
+
+  const lists = {} as Record<(typeof REQUIRED_LISTS)[number] | (typeof OPTIONAL_LISTS)[number], string[]>;
+  for (const key of REQUIRED_LISTS) {
+    lists[key] = cleanStringList(raw[key]);
+    if (lists[key].length === 0) issues.push(`Missing or empty \`${key}\`.`);
+  }
+  for (const key of OPTIONAL_LISTS) {
+    if (raw[key] === undefined) repairs.push(`Defaulted \`${key}\` to an empty list.`);
+    lists[key] = cleanStringList(raw[key]);
+  }
+
+  let matrix: DecisionMatrix | undefined;
+  if (alternatives.length > 0) {
+    const checked = validateMatrix(raw.matrix, alternatives, questionIds);
+    if (checked.ok) {
+      matrix = checked.value;
+      repairs.push(...checked.repairs);
+    } else {
+      issues.push(...checked.issues);
+    }
+  }
+
+  let insights: GroupInsights | undefined;
+  if (group) {
+    const rawGroup = isRecord(raw.group) ? raw.group : {};
+    insights = { agreements: cleanStringList(rawGroup.agreements), disagreements: cleanStringList(rawGroup.disagreements) };
+    if (insights.agreements.length === 0 && insights.disagreements.length === 0) {
+      issues.push("Missing `group`: list at least one agreement or disagreement.");
+    }
+  }
+
+  let confidence: AnalysisConfidence | undefined;
+  if (raw.confidence !== undefined) {
+    const checked = validateConfidence(raw.confidence, alternatives, questionIds);
+    if (checked.ok) {
+      confidence = checked.value;
+      repairs.push(...checked.repairs);
+    } else {
+      issues.push(...checked.issues);
+    }
+  }
+
+  let reasoningSources: string[][] | undefined;
+  if (attachmentIds.length > 0) {
+    const cited = lists.reasoning.map(item => splitCitations(item, attachmentIds)).filter(c => c.text);
+    lists.reasoning = cited.map(c => c.text);
+    reasoningSources = cited.map(c => c.sources);
+  }
+
+  if (issues.length > 0) {
+    return { ok: false, issues };
+  }
+
+  return {
+    ok: true,
+    value: {
+      finalRecommendation,
+      summary,
+      ...lists,
+      ...(matrix && { matrix }),
+      ...(insights && { group: insights }),
+      ...(reasoningSources && { reasoningSources }),
+      ...(confidence && { confidence })
+    },
+    repairs
+  };
+};
+
+/** Checks condensed attachment text: a single non-empty `text` string. */
+export const validateAttachmentText = (raw: unknown): ValidationResult<string> => {
+  const text = isRecord(raw) && typeof raw.text === 'string' ? raw.text.trim() : '';
+  return text
+    ? { ok: true, value: text, repairs: [] }
+    : { ok: false, issues: ["Missing or empty `text`."] };
+};
+
+/** Checks a follow-up chat reply: a single non-empty `reply` string. */
+export const validateFollowUp = (raw: unknown): ValidationResult<string> => {
+  if (!isRecord(raw)) {
+    return { ok: false, issues: ["Expected a JSON object."] };
+  }
+  const reply = typeof raw.reply === 'string' ? raw.reply.trim() : '';
+  return reply
+    ? { ok: true, value: reply, repairs: [] }
+    : { ok: false, issues: ["Missing or empty `reply`."] };
+};
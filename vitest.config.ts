@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+// Tests render the app in jsdom against the offline mock backend, with no artificial latency.
+export default defineConfig({
+  test: {
+    environment: 'jsdom',
+    env: { LLM_PROVIDER: 'mock', MOCK_LATENCY_MS: '0' }
+  }
+});